@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+    resolveChannelPath,
+    channelLabel,
+    channelSearchUrl,
+    readSearchPage,
+} from "./channel";
+
+const ID = "UCBJycsmduvYEL83R_U4JriQ";
+
+// ── resolveChannelPath ───────────────────────────────────────────────
+
+describe("resolveChannelPath", () => {
+    it("resolves handles with or without @", () => {
+        expect(resolveChannelPath("@mkbhd")).toBe("/@mkbhd");
+        expect(resolveChannelPath("mkbhd")).toBe("/@mkbhd");
+        expect(resolveChannelPath("  Linus.Tech-Tips_1 ")).toBe(
+            "/@Linus.Tech-Tips_1"
+        );
+    });
+
+    it("resolves channel URLs", () => {
+        expect(resolveChannelPath("https://www.youtube.com/@mkbhd/videos")).toBe(
+            "/@mkbhd"
+        );
+        expect(resolveChannelPath(`youtube.com/channel/${ID}`)).toBe(
+            `/channel/${ID}`
+        );
+        expect(resolveChannelPath("https://m.youtube.com/c/LinusTechTips")).toBe(
+            "/c/LinusTechTips"
+        );
+        expect(resolveChannelPath("/user/marquesbrownlee")).toBe(
+            "/user/marquesbrownlee"
+        );
+    });
+
+    it("resolves bare channel IDs", () => {
+        expect(resolveChannelPath(ID)).toBe(`/channel/${ID}`);
+    });
+
+    it("returns null for display names and non-channel URLs", () => {
+        expect(resolveChannelPath("Marques Brownlee")).toBeNull();
+        expect(resolveChannelPath("ab")).toBeNull();
+        expect(resolveChannelPath("https://www.youtube.com/watch?v=abc")).toBeNull();
+        expect(resolveChannelPath("")).toBeNull();
+    });
+
+    it("survives malformed URLs and %-escapes", () => {
+        expect(resolveChannelPath("https://youtube.com:99999/@mkbhd")).toBeNull();
+        expect(resolveChannelPath("/@foo%E0/videos")).toBe("/@foo%E0");
+    });
+});
+
+describe("channelLabel / channelSearchUrl", () => {
+    it("shortens channel paths", () => {
+        expect(channelLabel("/@mkbhd")).toBe("@mkbhd");
+        expect(channelLabel(`/channel/${ID}`)).toBe(ID);
+    });
+
+    it("builds the channel search URL", () => {
+        expect(channelSearchUrl("/@mkbhd", "iphone review after:2024-01-01")).toBe(
+            "/@mkbhd/search?query=iphone+review+after%3A2024-01-01"
+        );
+    });
+});
+
+// ── readSearchPage ───────────────────────────────────────────────────
+
+describe("readSearchPage", () => {
+    it("recognises global results pages", () => {
+        expect(
+            readSearchPage({ pathname: "/results", search: "?search_query=cats+dogs" })
+        ).toEqual({ query: "cats dogs" });
+    });
+
+    it("recognises channel search pages", () => {
+        expect(
+            readSearchPage({ pathname: "/@mkbhd/search", search: "?query=iphone" })
+        ).toEqual({ query: "iphone", channel: "/@mkbhd" });
+        expect(
+            readSearchPage({ pathname: `/channel/${ID}/search`, search: "?query=x" })
+        ).toEqual({ query: "x", channel: `/channel/${ID}` });
+    });
+
+    it("ignores other pages", () => {
+        expect(readSearchPage({ pathname: "/@mkbhd/videos", search: "" })).toBeNull();
+        expect(readSearchPage({ pathname: "/@mkbhd/search", search: "" })).toBeNull();
+        expect(readSearchPage({ pathname: "/watch", search: "?v=abc" })).toBeNull();
+    });
+
+    it("keeps a malformed %-escape in the channel path as written", () => {
+        expect(
+            readSearchPage({ pathname: "/@foo%E0/search", search: "?query=x" })
+        ).toEqual({ query: "x", channel: "/@foo%E0" });
+    });
+});
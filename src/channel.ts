@@ -0,0 +1,103 @@
+/**
+ * YouTube Search Plus — Channel Search
+ *
+ * `channel:` in a normal search only boosts a channel. Every channel also
+ * has its own search page (`/@handle/search?query=...`) that returns that
+ * channel's videos and nothing else, which is what strict channel mode
+ * routes to.
+ */
+
+// ─── Channel paths ───────────────────────────────────────────────────
+
+/** Path prefixes YouTube serves a channel (and its /search tab) under. */
+const CHANNEL_PATH = /^\/(@[^/?#]+|channel\/UC[\w-]{22}|c\/[^/?#]+|user\/[^/?#]+)/;
+
+/** Handles are 3–30 letters, digits, underscores, hyphens or periods. */
+const HANDLE = /^@?([\p{L}\p{N}_.-]{3,30})$/u;
+
+const CHANNEL_ID = /^UC[\w-]{22}$/;
+
+/** Decode a path segment; a malformed %-escape is kept as written. */
+function decodeSegment(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+}
+
+/**
+ * Resolve what the user typed into the Channel field to the channel's
+ * URL path: "@mkbhd", "mkbhd", a channel URL or a UC… channel ID.
+ * Returns null for display names ("Marques Brownlee") — those have no
+ * addressable page, so they can only be used as a boost.
+ */
+export function resolveChannelPath(value: string): string | null {
+    const v = value.trim().replace(/^"(.*)"$/, "$1");
+    if (!v) return null;
+
+    if (/^(https?:\/\/)?([\w-]+\.)?youtube\.com\//i.test(v) || v.startsWith("/")) {
+        let path = v;
+        if (!v.startsWith("/")) {
+            try {
+                path = new URL(/^https?:/i.test(v) ? v : `https://${v}`).pathname;
+            } catch {
+                return null;
+            }
+        }
+        const match = path.match(CHANNEL_PATH);
+        return match ? `/${decodeSegment(match[1])}` : null;
+    }
+
+    if (CHANNEL_ID.test(v)) return `/channel/${v}`;
+
+    const handle = v.match(HANDLE);
+    return handle ? `/@${handle[1]}` : null;
+}
+
+/** Short display form of a channel path: "@mkbhd" or the channel ID. */
+export function channelLabel(path: string): string {
+    return path.replace(/^\/(channel|c|user)\//, "").replace(/^\//, "");
+}
+
+/** URL (path + query string) of a channel's own search page. */
+export function channelSearchUrl(path: string, query: string): string {
+    return `${path}/search?${new URLSearchParams({ query })}`;
+}
+
+// ─── Search pages ────────────────────────────────────────────────────
+
+export interface SearchPage {
+    query: string;
+    /** Channel path when this is a channel's search page */
+    channel?: string;
+}
+
+/**
+ * Recognise a search results page: the global `/results?search_query=`
+ * or a channel's `/@handle/search?query=`. Returns null elsewhere.
+ */
+export function readSearchPage(location: {
+    pathname: string;
+    search: string;
+}): SearchPage | null {
+    const params = new URLSearchParams(location.search);
+
+    if (params.has("search_query")) {
+        return { query: params.get("search_query") || "" };
+    }
+
+    const match = location.pathname.match(CHANNEL_PATH);
+    if (
+        match &&
+        location.pathname.slice(match[0].length) === "/search" &&
+        params.has("query")
+    ) {
+        return {
+            query: params.get("query") || "",
+            channel: `/${decodeSegment(match[1])}`,
+        };
+    }
+
+    return null;
+}
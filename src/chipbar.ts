@@ -0,0 +1,104 @@
+/**
+ * YouTube Search Plus — Active Filter Chip Bar (DOM)
+ *
+ * Injects a row of `.ysp-result-chip`s above the search results, one per
+ * filter that produced the page (see chips.ts). Clicking a chip's ×
+ * re-runs the search without that filter.
+ */
+
+import { type ResultChip, buildResultChips } from "./chips";
+import { readSearchPage } from "./channel";
+import { VIDEO_RENDERER } from "./scrape";
+
+/** Results may still be rendering — retry finding them this many times */
+const MAX_ATTEMPTS = 10;
+const RETRY_MS = 500;
+
+export class ResultChipBar {
+    private bar: HTMLDivElement | null = null;
+    private retry: number | null = null;
+
+    /** Chips for the current page (empty off search pages). */
+    currentChips(): ResultChip[] {
+        const page = readSearchPage(window.location);
+        if (!page) return [];
+        const sp = new URLSearchParams(window.location.search).get("sp");
+        return buildResultChips(page, sp);
+    }
+
+    /** (Re)render the bar for the current page. Call after every navigation. */
+    render(attempt = 0) {
+        this.hide();
+        const chips = this.currentChips();
+        if (chips.length === 0) return;
+
+        const anchor = this.findAnchor();
+        if (!anchor) {
+            if (attempt < MAX_ATTEMPTS) {
+                this.retry = window.setTimeout(
+                    () => this.render(attempt + 1),
+                    RETRY_MS
+                );
+            }
+            return;
+        }
+
+        this.bar = this.buildBar(chips);
+        anchor.parentElement?.insertBefore(this.bar, anchor);
+    }
+
+    hide() {
+        if (this.retry !== null) clearTimeout(this.retry);
+        this.retry = null;
+        this.bar?.remove();
+        this.bar = null;
+        document.getElementById("ysp-result-chips")?.remove();
+    }
+
+    /** The results section the bar goes above. */
+    private findAnchor(): Element | null {
+        const first = document.querySelector(VIDEO_RENDERER);
+        return first?.closest("ytd-item-section-renderer") || first;
+    }
+
+    private buildBar(chips: ResultChip[]): HTMLDivElement {
+        const bar = document.createElement("div");
+        bar.id = "ysp-result-chips";
+
+        for (const chip of chips) {
+            const el = document.createElement("span");
+            el.className = "ysp-result-chip";
+
+            const label = document.createElement("span");
+            label.className = "ysp-result-chip-label";
+            label.textContent = chip.label;
+            el.appendChild(label);
+
+            if (chip.value) {
+                const value = document.createElement("span");
+                value.className = "ysp-result-chip-value";
+                value.textContent = chip.value;
+                el.appendChild(value);
+            }
+
+            const remove = document.createElement("button");
+            remove.type = "button";
+            remove.className = "ysp-result-chip-remove";
+            remove.title = "Search again without this filter";
+            remove.textContent = "×";
+            remove.addEventListener("click", (e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                window.location.href = new URL(
+                    chip.without,
+                    window.location.origin
+                ).toString();
+            });
+            el.appendChild(remove);
+
+            bar.appendChild(el);
+        }
+
+        return bar;
+    }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { buildResultChips, filterProvenance } from "./chips";
+
+const params = (url: string) => new URL(url, "https://www.youtube.com");
+
+// ── buildResultChips ─────────────────────────────────────────────────
+
+describe("buildResultChips", () => {
+    it("returns nothing for a plain query", () => {
+        expect(buildResultChips({ query: "cats" })).toEqual([]);
+    });
+
+    it("makes a chip per operator, each removable", () => {
+        const chips = buildResultChips({
+            query: 'phone intitle:review -live "hands on"',
+        });
+        expect(chips.map((c) => [c.label, c.value])).toEqual([
+            ["In Title", "review"],
+            ["Exclude", "live"],
+            ["Exact", '"hands on"'],
+        ]);
+        expect(params(chips[1].without).searchParams.get("search_query")).toBe(
+            'phone intitle:review "hands on"'
+        );
+        expect(params(chips[1].without).pathname).toBe("/results");
+    });
+
+    it("keeps sp= when removing an operator", () => {
+        const [chip] = buildResultChips(
+            { query: "phone intitle:review" },
+            "EgIQAQ=="
+        );
+        expect(params(chip.without).searchParams.get("sp")).toBe("EgIQAQ==");
+    });
+
+    it("makes a chip per native filter and drops it from sp=", () => {
+        const chips = buildResultChips({ query: "phone" }, "CAISAhAB");
+        expect(chips.map((c) => [c.label, c.value])).toEqual([
+            ["Sort", "Upload date"],
+            ["Type", "Video"],
+        ]);
+        expect(params(chips[0].without).searchParams.get("sp")).toBe("EgIQAQ==");
+        expect(params(chips[1].without).searchParams.get("sp")).toBe("CAI=");
+    });
+
+    it("removes the sp parameter with its last filter", () => {
+        const [chip] = buildResultChips({ query: "phone" }, "EgIQAQ==");
+        expect(params(chip.without).searchParams.has("sp")).toBe(false);
+    });
+
+    it("ignores an sp= value it can't decode", () => {
+        expect(buildResultChips({ query: "phone" }, "!!!")).toEqual([]);
+    });
+
+    it("shows channel search pages as an Only channel chip", () => {
+        const chips = buildResultChips({
+            query: "iphone intitle:review",
+            channel: "/@mkbhd",
+        });
+        expect(chips.map((c) => [c.label, c.value])).toEqual([
+            ["Only channel", "@mkbhd"],
+            ["In Title", "review"],
+        ]);
+        expect(chips[0].without).toBe(
+            "/results?search_query=iphone+intitle%3Areview"
+        );
+        expect(chips[1].without).toBe("/@mkbhd/search?query=iphone");
+    });
+});
+
+// ── filterProvenance ─────────────────────────────────────────────────
+
+describe("filterProvenance", () => {
+    it("formats chips as label: value", () => {
+        expect(
+            filterProvenance(buildResultChips({ query: "a #tech b | c" }, "EgIQAQ=="))
+        ).toEqual(["Hashtag: #tech", "Any Of: b | c", "Type: Video"]);
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * YouTube Search Plus — Active Filter Chips
+ *
+ * Describes every filter that produced a results page — query operators,
+ * native sp= filters and strict channel routing — as chips, each with
+ * the URL of the same search without it. The chip bar (chipbar.ts)
+ * renders these, and the exporters use them as filter provenance.
+ */
+
+import { describeQueryOperators } from "./filters";
+import {
+    type NativeFilters,
+    decodeSearchParams,
+    describeNativeFilters,
+    encodeSearchParams,
+} from "./sp";
+import { type SearchPage, channelLabel, channelSearchUrl } from "./channel";
+
+export interface ResultChip {
+    label: string;
+    value: string;
+    /** URL (path + query string) of the same search without this chip */
+    without: string;
+}
+
+/** Global results URL for a query and sp= value. */
+function resultsUrl(query: string, sp: string): string {
+    const params = new URLSearchParams({ search_query: query });
+    if (sp) params.set("sp", sp);
+    return `/results?${params}`;
+}
+
+/** Each native filter on its own, with what's left when it's removed. */
+function splitNativeFilters(
+    native: NativeFilters
+): { label: string; value: string; rest: NativeFilters }[] {
+    const out: { label: string; value: string; rest: NativeFilters }[] = [];
+    const keys = ["sort", "uploadDate", "type", "duration"] as const;
+
+    for (const key of keys) {
+        if (!native[key]) continue;
+        const [described] = describeNativeFilters({ [key]: native[key] });
+        if (described) out.push({ ...described, rest: { ...native, [key]: undefined } });
+    }
+    for (const feature of native.features || []) {
+        const [described] = describeNativeFilters({ features: [feature] });
+        const features = native.features!.filter((f) => f !== feature);
+        if (described) out.push({ ...described, rest: { ...native, features } });
+    }
+
+    return out;
+}
+
+/** Chips for a search page; `sp` is the page's sp= parameter, if any. */
+export function buildResultChips(
+    page: SearchPage,
+    sp: string | null = null
+): ResultChip[] {
+    const chips: ResultChip[] = [];
+    const native = (!page.channel && sp && decodeSearchParams(sp)) || {};
+    const searchUrl = (query: string) =>
+        page.channel
+            ? channelSearchUrl(page.channel, query)
+            : resultsUrl(query, encodeSearchParams(native));
+
+    if (page.channel) {
+        chips.push({
+            label: "Only channel",
+            value: channelLabel(page.channel),
+            without: resultsUrl(page.query, ""),
+        });
+    }
+
+    for (const op of describeQueryOperators(page.query)) {
+        chips.push({
+            label: op.label,
+            value: op.value,
+            without: searchUrl(op.without),
+        });
+    }
+
+    for (const n of splitNativeFilters(native)) {
+        chips.push({
+            label: n.label,
+            value: n.value,
+            without: resultsUrl(page.query, encodeSearchParams(n.rest)),
+        });
+    }
+
+    return chips;
+}
+
+/** "Label: value" lines for exports. */
+export function filterProvenance(chips: ResultChip[]): string[] {
+    return chips.map((c) => (c.value ? `${c.label}: ${c.value}` : c.label));
+}
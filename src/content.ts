@@ -1,17 +1,23 @@
 import "./styles/content.css";
 import { FilterPanel, type FilterState } from "./panel";
 import { ExportButton } from "./export";
+import { MultiChannelSearch } from "./multichannel";
+import { ResultPostFilter } from "./results";
+import { ResultChipBar } from "./chipbar";
+import { type PostFilterRules } from "./postfilter";
 import { Onboarding } from "./onboarding";
 import {
     initProStatusFromCache,
     initProStatus,
     listenForProChanges,
 } from "./paygate";
-import {
-    type ActiveTextFilter,
-    buildQueryString,
-    stripOperators,
-} from "./filters";
+import { type ActiveTextFilter } from "./filters";
+import { type NativeFilters, decodeSearchParams } from "./sp";
+import { readSearchPage } from "./channel";
+import { expandMacros } from "./macros";
+import { describeRule, withTemplate } from "./rules";
+import { readShareParam } from "./share";
+import { planSearch, searchTargetUrl, readPostFilterParam } from "./search";
 
 /**
  * YouTube Search Plus — Content Script
@@ -20,21 +26,45 @@ import {
  *   1. User opens filter panel, configures text operators, clicks "Save Filters"
  *   2. Filters saved to chrome.storage
  *   3. User types query in YouTube's search bar and hits Enter/Search
- *   4. Text operators auto-appended to the query at submission time
+ *   4. Text operators merged into the query at submission time — anything
+ *      the user typed is kept and wins over a conflicting saved filter
  *   5. After results load → saved filters cleared (free tier)
  *
- * Text operators (after:, before:, intitle:, "exact", -exclude,
- * channel:, #hashtag) are appended to the query string.
- * Native filters (Exclude Shorts) use YouTube's sp= URL parameter.
+ * Text operators (after:, before:, intitle:, allintitle:, "exact", a | b,
+ * -exclude, channel:, #hashtag) are appended to the query string; In Title,
+ * Channel and Hashtag take several values, one operator each.
+ * Native filters (sort, upload date, type, duration, features — and
+ * Exclude Shorts, which is Type: Video) use YouTube's sp= URL parameter.
+ * Result filters (strict title, views, length, channels) are checked
+ * against the loaded results themselves, see results.ts.
+ * Strict channel mode searches on the channel's own /@handle/search page
+ * instead of /results, see channel.ts. Multi-channel search runs one query
+ * across a channel list and exports the merged results, see multichannel.ts.
+ * @macros in the query expand into their saved text, see macros.ts.
+ * Auto-apply rules add a template's filters to matching searches, see rules.ts.
+ * Share links carry a template in a `ysp` parameter, see share.ts.
+ * Saved searches (templates with a base query) launch from the panel and
+ * popup, see search.ts. Template {{placeholders}} are filled in when a
+ * template is applied, see variables.ts.
  */
 
 const exportBtn = new ExportButton();
 const onboarding = new Onboarding();
+const postFilter = new ResultPostFilter();
+const chipBar = new ResultChipBar();
+const multiChannel = new MultiChannelSearch((results, query) =>
+    exportBtn.exportResults(results, query)
+);
 let panel: FilterPanel;
 
 let savedFilters: ActiveTextFilter[] = [];
 let excludeShorts = false;
+let nativeFilters: NativeFilters = {};
+let strictChannel = false;
 let keepAfterSearch = false;
+let postFilterRules: PostFilterRules = { action: "hide" };
+/** Post-filters on this page came from a saved search's URL, not the panel */
+let usingLaunchedRules = false;
 let filtersAppliedThisSearch = false;
 
 // ── Search input helpers ──
@@ -56,7 +86,12 @@ function findSearchInput(): HTMLInputElement | null {
 function handleSave(state: FilterState) {
     savedFilters = state.text;
     excludeShorts = state.excludeShorts;
+    nativeFilters = state.native;
+    strictChannel = state.strictChannel;
     keepAfterSearch = state.keepAfterSearch;
+    postFilterRules = state.postFilter;
+    usingLaunchedRules = false;
+    postFilter.setRules(state.postFilter);
 }
 
 // ── Search interception ──
@@ -113,34 +148,56 @@ function isSearchInput(el: HTMLElement): boolean {
     );
 }
 
-/** YouTube sp= parameter value for Type: Video (excludes Shorts) */
-const SP_TYPE_VIDEO = "EgIQAQ==";
-
 function handleSearchTrigger(e?: Event) {
-    const hasTextFilters = savedFilters.length > 0;
-
-    if (!hasTextFilters && !excludeShorts) return;
-
     const input = findSearchInput();
     if (!input) return;
 
-    const rawQuery = stripOperators(input.value);
-    const filterString = hasTextFilters ? buildQueryString(savedFilters) : "";
-    const fullQuery = [rawQuery, filterString].filter(Boolean).join(" ");
-
+    // Auto-apply: the first matching rule's template fills in whatever
+    // the saved filters leave unset, for this search only
+    const saved = {
+        text: savedFilters,
+        native: nativeFilters,
+        excludeShorts,
+        strictChannel,
+    };
+    const auto = panel.findAutoApply(input.value);
+    const applied = auto ? withTemplate(saved, auto.template) : saved;
+
+    const hasTextFilters = applied.text.length > 0;
+    const hasMacros = expandMacros(input.value).used.length > 0;
+    const target = planSearch(input.value, applied);
+    if (!hasTextFilters && !target.sp && !hasMacros) return;
+
+    const fullQuery = target.query;
     if (!fullQuery.trim()) return;
 
-    if (excludeShorts) {
-        // Prevent YouTube's default navigation — we build the URL ourselves
-        // to include the sp= parameter for native filtering
+    // Remembered across the navigation for the panel's rule indicator
+    if (auto) {
+        panel.markTemplateUsed(auto.template.name);
+        sessionStorage.setItem(
+            "ysp_rule_fired",
+            JSON.stringify({
+                query: fullQuery,
+                rule: describeRule(auto.rule),
+                template: auto.template.name,
+            })
+        );
+    } else {
+        sessionStorage.removeItem("ysp_rule_fired");
+    }
+
+    if (target.channelPath || target.sp) {
+        // Prevent YouTube's default navigation — we build the URL ourselves,
+        // for the channel's own search page or to include the sp= parameter
+        // for native filtering
         e?.preventDefault();
         e?.stopPropagation();
         // Flag survives the full page reload so clearFiltersAfterSearch() fires
         sessionStorage.setItem("ysp_applied", "1");
-        const url = new URL("/results", window.location.origin);
-        url.searchParams.set("search_query", fullQuery);
-        url.searchParams.set("sp", SP_TYPE_VIDEO);
-        window.location.href = url.toString();
+        window.location.href = new URL(
+            searchTargetUrl(target),
+            window.location.origin
+        ).toString();
     } else {
         // Text-only filters: modify input and let YouTube handle navigation
         input.value = fullQuery;
@@ -166,6 +223,8 @@ function clearFiltersAfterSearch() {
 
     savedFilters = [];
     excludeShorts = false;
+    nativeFilters = {};
+    strictChannel = false;
     panel.clearAfterSearch();
 }
 
@@ -182,6 +241,9 @@ async function init() {
     exportBtn.onOpen(() => panel.close());
     panel.onOpen(() => exportBtn.close());
     panel.setExternalContainsCheck((node) => exportBtn.containsNode(node));
+    panel.onMultiChannel((channel) =>
+        multiChannel.open(findSearchInput()?.value.trim() || "", channel)
+    );
 
     if (!panel.inject()) {
         const observer = new MutationObserver((_mutations, obs) => {
@@ -197,11 +259,24 @@ async function init() {
 
     // Load saved filters + preferences from storage
     chrome.storage.local.get(
-        ["ysp_filters", "ysp_keep", "ysp_exclude_shorts"],
+        [
+            "ysp_filters",
+            "ysp_keep",
+            "ysp_exclude_shorts",
+            "ysp_native",
+            "ysp_postfilter",
+            "ysp_strict_channel",
+        ],
         (result) => {
             savedFilters = result.ysp_filters || [];
             excludeShorts = result.ysp_exclude_shorts || false;
+            nativeFilters = result.ysp_native || {};
+            if (result.ysp_postfilter) {
+                postFilterRules = result.ysp_postfilter as PostFilterRules;
+                if (!usingLaunchedRules) postFilter.setRules(postFilterRules);
+            }
             keepAfterSearch = result.ysp_keep || false;
+            strictChannel = result.ysp_strict_channel === true;
         },
     );
 
@@ -220,21 +295,73 @@ async function init() {
 
 function showExportIfOnResults() {
     const params = new URLSearchParams(window.location.search);
-    const isResults = params.has("search_query");
+    // Global results or a channel's own search page
+    const page = readSearchPage(window.location);
+    const isResults = page !== null;
 
     // Inject export button (needs filter button to exist first)
     exportBtn.inject();
 
+    // Result post-filters only run on results pages
+    refreshPostFilter();
+
     if (isResults) {
         setTimeout(() => {
             exportBtn.show();
             clearFiltersAfterSearch();
 
+            // Reflect YouTube filters already active on this page
+            const sp = params.get("sp");
+            const native = sp ? decodeSearchParams(sp) : null;
+            if (native) panel.reflectNativeFilters(native);
+
+            // ...and the operators in the query, which the search box shows
+            if (!page.channel) panel.reflectSearchQuery(page.query);
+
+            panel.showAutoApplied(firedRuleFor(page.query));
+
+            // Opened from a share link: offer its filters
+            const shared = readShareParam(window.location.search);
+            if (shared) panel.showSharedTemplate(shared);
+
+            // Chips for every filter behind this page, removable one by one
+            chipBar.render();
+
             // Try onboarding (no-op if already completed)
             onboarding.tryStart();
         }, 500);
     } else {
         exportBtn.hide();
+        chipBar.hide();
+        panel.showAutoApplied(null);
+    }
+}
+
+/**
+ * A saved search launched with its own result filters (`ysp_pf`) uses
+ * them for that page; the panel's filters come back on the next page.
+ */
+function refreshPostFilter() {
+    const launched = readPostFilterParam(window.location.search);
+    if (launched) {
+        postFilter.setRules(launched);
+        usingLaunchedRules = true;
+    } else if (usingLaunchedRules) {
+        postFilter.setRules(postFilterRules);
+        usingLaunchedRules = false;
+    } else {
+        postFilter.refresh();
+    }
+}
+
+/** The auto-apply rule behind this results page, if one fired for it. */
+function firedRuleFor(query: string): { rule: string; template: string } | null {
+    try {
+        const fired = JSON.parse(sessionStorage.getItem("ysp_rule_fired") || "null");
+        const norm = (q: string) => q.trim().replace(/\s+/g, " ");
+        return fired && norm(fired.query) === norm(query) ? fired : null;
+    } catch {
+        return null;
     }
 }
 
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { resolveRelativeDate, resolveDateOffset, formatISODate } from "./dates";
+
+// Wednesday, 21 October 2026 (local time)
+const NOW = new Date(2026, 9, 21, 15, 30);
+
+// ── formatISODate ────────────────────────────────────────────────────
+
+describe("formatISODate", () => {
+    it("formats the local calendar day with zero padding", () => {
+        expect(formatISODate(new Date(2024, 0, 5, 23, 59))).toBe("2024-01-05");
+    });
+});
+
+// ── resolveRelativeDate ──────────────────────────────────────────────
+
+describe("resolveRelativeDate", () => {
+    it("resolves today and yesterday", () => {
+        expect(resolveRelativeDate("today", NOW)).toEqual({
+            after: "2026-10-21",
+        });
+        expect(resolveRelativeDate("yesterday", NOW)).toEqual({
+            after: "2026-10-20",
+            before: "2026-10-21",
+        });
+    });
+
+    it("resolves rolling windows", () => {
+        expect(resolveRelativeDate("last 30 days", NOW)).toEqual({
+            after: "2026-09-21",
+        });
+        expect(resolveRelativeDate("last 2 weeks", NOW)).toEqual({
+            after: "2026-10-07",
+        });
+        expect(resolveRelativeDate("past 6 months", NOW)).toEqual({
+            after: "2026-04-21",
+        });
+        expect(resolveRelativeDate("last 1 year", NOW)).toEqual({
+            after: "2025-10-21",
+        });
+    });
+
+    it("clamps month arithmetic to the end of shorter months", () => {
+        const endOfMarch = new Date(2026, 2, 31);
+        expect(resolveRelativeDate("last 1 month", endOfMarch)).toEqual({
+            after: "2026-02-28",
+        });
+    });
+
+    it("resolves the current period to date", () => {
+        expect(resolveRelativeDate("this week", NOW)).toEqual({
+            after: "2026-10-19",
+        });
+        expect(resolveRelativeDate("this month", NOW)).toEqual({
+            after: "2026-10-01",
+        });
+        expect(resolveRelativeDate("this quarter", NOW)).toEqual({
+            after: "2026-10-01",
+        });
+        expect(resolveRelativeDate("this year", NOW)).toEqual({
+            after: "2026-01-01",
+        });
+    });
+
+    it("resolves whole previous periods", () => {
+        expect(resolveRelativeDate("previous week", NOW)).toEqual({
+            after: "2026-10-12",
+            before: "2026-10-19",
+        });
+        expect(resolveRelativeDate("last month", NOW)).toEqual({
+            after: "2026-09-01",
+            before: "2026-10-01",
+        });
+        expect(resolveRelativeDate("previous quarter", NOW)).toEqual({
+            after: "2026-07-01",
+            before: "2026-10-01",
+        });
+        expect(resolveRelativeDate("previous year", NOW)).toEqual({
+            after: "2025-01-01",
+            before: "2026-01-01",
+        });
+    });
+
+    it("resolves since <weekday> to the most recent one", () => {
+        expect(resolveRelativeDate("since monday", NOW)).toEqual({
+            after: "2026-10-19",
+        });
+        expect(resolveRelativeDate("since wednesday", NOW)).toEqual({
+            after: "2026-10-21",
+        });
+        expect(resolveRelativeDate("since thursday", NOW)).toEqual({
+            after: "2026-10-15",
+        });
+    });
+
+    it("ignores case and extra whitespace", () => {
+        expect(resolveRelativeDate("  Last   7  Days ", NOW)).toEqual({
+            after: "2026-10-14",
+        });
+    });
+
+    it("returns null for unrecognised expressions", () => {
+        expect(resolveRelativeDate("next week", NOW)).toBeNull();
+        expect(resolveRelativeDate("last 0 days", NOW)).toBeNull();
+        expect(resolveRelativeDate("this day", NOW)).toBeNull();
+        expect(resolveRelativeDate("since someday", NOW)).toBeNull();
+        expect(resolveRelativeDate("", NOW)).toBeNull();
+    });
+});
+
+describe("resolveDateOffset", () => {
+    it("shifts today by days, weeks, months and years", () => {
+        expect(resolveDateOffset("-7d", NOW)).toBe("2026-10-14");
+        expect(resolveDateOffset("+2w", NOW)).toBe("2026-11-04");
+        expect(resolveDateOffset("-1m", NOW)).toBe("2026-09-21");
+        expect(resolveDateOffset("-1y", NOW)).toBe("2025-10-21");
+        expect(resolveDateOffset("", NOW)).toBe("2026-10-21");
+        expect(resolveDateOffset("today", NOW)).toBe("2026-10-21");
+    });
+
+    it("returns null for anything else", () => {
+        expect(resolveDateOffset("7d", NOW)).toBeNull();
+        expect(resolveDateOffset("-7 days", NOW)).toBeNull();
+    });
+});
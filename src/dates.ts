@@ -0,0 +1,204 @@
+/**
+ * YouTube Search Plus — Relative Dates
+ *
+ * Resolves human date expressions ("last 30 days", "previous quarter",
+ * "since monday") to concrete `after:` / `before:` bounds. Templates
+ * store the expression; it's only turned into dates at search time so
+ * a saved "recent reviews" template never goes stale.
+ *
+ * Ranges follow the same convention as the After/Before fields:
+ * `after` is the first included day, `before` is the first excluded day.
+ * Calendar math uses the user's local date; weeks start on Monday.
+ */
+
+export interface ResolvedDateRange {
+    after?: string;
+    before?: string;
+}
+
+type Unit = "day" | "week" | "month" | "quarter" | "year";
+
+/** Suggestions offered in the panel's relative date field. */
+export const RELATIVE_DATE_EXAMPLES = [
+    "today",
+    "yesterday",
+    "last 7 days",
+    "last 30 days",
+    "last 6 months",
+    "this week",
+    "this month",
+    "this quarter",
+    "this year",
+    "previous month",
+    "previous quarter",
+    "previous year",
+    "since monday",
+];
+
+const WEEKDAYS = [
+    "sunday",
+    "monday",
+    "tuesday",
+    "wednesday",
+    "thursday",
+    "friday",
+    "saturday",
+];
+
+// ─── Date helpers ────────────────────────────────────────────────────
+
+/** Format a date as YYYY-MM-DD using its local calendar day. */
+export function formatISODate(d: Date): string {
+    const y = d.getFullYear();
+    const m = String(d.getMonth() + 1).padStart(2, "0");
+    const day = String(d.getDate()).padStart(2, "0");
+    return `${y}-${m}-${day}`;
+}
+
+function startOfDay(d: Date): Date {
+    return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+function addDays(d: Date, n: number): Date {
+    return new Date(d.getFullYear(), d.getMonth(), d.getDate() + n);
+}
+
+function addMonths(d: Date, n: number): Date {
+    // Clamp to the last day of the target month (Mar 31 - 1 month → Feb 28)
+    const target = new Date(d.getFullYear(), d.getMonth() + n, 1);
+    const lastDay = new Date(
+        target.getFullYear(),
+        target.getMonth() + 1,
+        0
+    ).getDate();
+    target.setDate(Math.min(d.getDate(), lastDay));
+    return target;
+}
+
+function shift(d: Date, unit: Unit, n: number): Date {
+    switch (unit) {
+        case "day":
+            return addDays(d, n);
+        case "week":
+            return addDays(d, n * 7);
+        case "month":
+            return addMonths(d, n);
+        case "quarter":
+            return addMonths(d, n * 3);
+        case "year":
+            return addMonths(d, n * 12);
+    }
+}
+
+/** First day of the calendar period containing `d`. */
+function startOf(d: Date, unit: Unit): Date {
+    switch (unit) {
+        case "day":
+            return startOfDay(d);
+        case "week":
+            // Monday-based: Sunday (0) goes back 6 days
+            return addDays(startOfDay(d), -((d.getDay() + 6) % 7));
+        case "month":
+            return new Date(d.getFullYear(), d.getMonth(), 1);
+        case "quarter":
+            return new Date(d.getFullYear(), d.getMonth() - (d.getMonth() % 3), 1);
+        case "year":
+            return new Date(d.getFullYear(), 0, 1);
+    }
+}
+
+function toUnit(word: string): Unit | null {
+    const singular = word.replace(/s$/, "");
+    return ["day", "week", "month", "quarter", "year"].includes(singular)
+        ? (singular as Unit)
+        : null;
+}
+
+// ─── Resolver ────────────────────────────────────────────────────────
+
+/**
+ * Resolve an expression against `now`. Returns null when the
+ * expression isn't recognised.
+ *
+ *   today · yesterday
+ *   last|past N days|weeks|months|quarters|years   (rolling window)
+ *   this week|month|quarter|year                   (period to date)
+ *   previous|last week|month|quarter|year          (whole previous period)
+ *   since <weekday>                                (most recent, incl. today)
+ */
+export function resolveRelativeDate(
+    expression: string,
+    now: Date = new Date()
+): ResolvedDateRange | null {
+    const expr = expression.trim().toLowerCase().replace(/\s+/g, " ");
+    const today = startOfDay(now);
+
+    if (expr === "today") return { after: formatISODate(today) };
+    if (expr === "yesterday") {
+        return {
+            after: formatISODate(addDays(today, -1)),
+            before: formatISODate(today),
+        };
+    }
+
+    let m = expr.match(/^(?:last|past) (\d+) (\w+)$/);
+    if (m) {
+        const unit = toUnit(m[2]);
+        const n = parseInt(m[1], 10);
+        if (!unit || n <= 0) return null;
+        return { after: formatISODate(shift(today, unit, -n)) };
+    }
+
+    m = expr.match(/^this (\w+)$/);
+    if (m) {
+        const unit = toUnit(m[1]);
+        if (!unit || unit === "day") return null;
+        return { after: formatISODate(startOf(today, unit)) };
+    }
+
+    m = expr.match(/^(?:previous|last) (\w+)$/);
+    if (m) {
+        const unit = toUnit(m[1]);
+        if (!unit || unit === "day" || m[1] !== unit) return null;
+        const current = startOf(today, unit);
+        return {
+            after: formatISODate(shift(current, unit, -1)),
+            before: formatISODate(current),
+        };
+    }
+
+    m = expr.match(/^since (\w+)$/);
+    if (m) {
+        const target = WEEKDAYS.indexOf(m[1]);
+        if (target < 0) return null;
+        const back = (today.getDay() - target + 7) % 7;
+        return { after: formatISODate(addDays(today, -back)) };
+    }
+
+    return null;
+}
+
+/**
+ * A single date offset from today, as YYYY-MM-DD: `-7d`, `+2w`, `-1m`,
+ * `-1q`, `-1y`, or `` / `0` / `today` for today. Null when unrecognised.
+ */
+export function resolveDateOffset(
+    offset: string,
+    now: Date = new Date()
+): string | null {
+    const expr = offset.trim().toLowerCase();
+    const today = startOfDay(now);
+    if (!expr || expr === "0" || expr === "today") return formatISODate(today);
+
+    const m = expr.match(/^([+-])\s*(\d+)\s*([dwmqy])$/);
+    if (!m) return null;
+    const units: Record<string, Unit> = {
+        d: "day",
+        w: "week",
+        m: "month",
+        q: "quarter",
+        y: "year",
+    };
+    const n = parseInt(m[2], 10) * (m[1] === "-" ? -1 : 1);
+    return formatISODate(shift(today, units[m[3]], n));
+}
@@ -2,40 +2,90 @@
  * YouTube Search Plus — Export
  *
  * Export button + panel (anchored to export button, same pattern as filter panel)
- * with format selection, result count config, auto-scroll scraping, and CSV download.
+ * with format selection, result count config, result types to include,
+ * auto-scroll scraping, and CSV, XLSX (xlsx.ts) or JSON (schema in
+ * jsonexport.ts) download.
+ * Results collected elsewhere (multi-channel search) can be handed in with
+ * exportResults(), which skips the scroll/scrape step.
  */
 
 import { isPro, showPaygate, onResetToFree } from "./paygate";
 import { csvEscape } from "./filters";
+import {
+    type VideoResult,
+    type ResultKind,
+    RESULT_KINDS,
+    countResults,
+    scrapeResults,
+} from "./scrape";
+import { readSearchPage } from "./channel";
+import { buildResultChips, filterProvenance } from "./chips";
+import { type JSONExportFormat, formatResults } from "./jsonexport";
+import { XLSX_MIME, resultsWorkbook } from "./xlsx";
 
 // ── Types ──
 
-interface VideoResult {
-    title: string;
-    url: string;
-    channel: string;
-    views: string;
-    published: string;
-    duration: string;
-}
+type ExportFormat = "csv" | "xlsx" | JSONExportFormat | "notic";
 
-type ExportFormat = "csv" | "notic";
+/** Start button label per format */
+const EXPORT_ACTIONS: Record<ExportFormat, string> = {
+    csv: "Export CSV",
+    xlsx: "Export XLSX",
+    json: "Export JSON",
+    jsonl: "Export JSON Lines",
+    notic: "Export to Notic",
+};
 
 interface ExportField {
     key: keyof VideoResult;
     label: string;
     defaultOn: boolean;
+    /** Only offered for multi-channel results */
+    multiChannel?: boolean;
 }
 
 const EXPORT_FIELDS: ExportField[] = [
+    { key: "rank", label: "Rank", defaultOn: false },
+    { key: "resultType", label: "Result Type", defaultOn: false },
     { key: "title", label: "Title", defaultOn: true },
     { key: "url", label: "URL", defaultOn: true },
+    { key: "videoId", label: "Video ID", defaultOn: false },
     { key: "channel", label: "Channel", defaultOn: true },
+    { key: "channelHandle", label: "Channel Handle", defaultOn: false },
+    { key: "channelUrl", label: "Channel URL", defaultOn: false },
+    { key: "verified", label: "Verified", defaultOn: false },
     { key: "views", label: "Views", defaultOn: false },
+    { key: "viewCount", label: "View Count", defaultOn: false },
     { key: "published", label: "Published", defaultOn: false },
+    { key: "uploadDate", label: "Upload Date", defaultOn: false },
+    { key: "uploadDateEarliest", label: "Uploaded After", defaultOn: false },
+    { key: "uploadDateLatest", label: "Uploaded Before", defaultOn: false },
     { key: "duration", label: "Duration", defaultOn: false },
+    { key: "durationSeconds", label: "Duration (s)", defaultOn: false },
+    { key: "thumbnail", label: "Thumbnail", defaultOn: false },
+    { key: "description", label: "Description", defaultOn: false },
+    { key: "badges", label: "Badges", defaultOn: false },
+    { key: "isShort", label: "Short", defaultOn: false },
+    {
+        key: "sourceChannel",
+        label: "Source Channel",
+        defaultOn: true,
+        multiChannel: true,
+    },
 ];
 
+/** A field's value as text: lists comma-separated, flags as Yes / No. */
+function fieldText(value: VideoResult[keyof VideoResult]): string {
+    if (Array.isArray(value)) return value.join(", ");
+    if (typeof value === "boolean") return value ? "Yes" : "No";
+    return String(value ?? "");
+}
+
+/** Fields offered for the current export (default-on ones preselected). */
+function fieldsFor(multiChannel: boolean): ExportField[] {
+    return EXPORT_FIELDS.filter((f) => multiChannel || !f.multiChannel);
+}
+
 // ── Icons ──
 
 const EXPORT_ICON = `
@@ -54,6 +104,20 @@ const CSV_ICON = `
   <polyline points="10 9 9 9 8 9"/>
 </svg>`;
 
+const XLSX_ICON = `
+<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+  <rect x="3" y="3" width="18" height="18" rx="2" ry="2"/>
+  <line x1="3" y1="9" x2="21" y2="9"/>
+  <line x1="3" y1="15" x2="21" y2="15"/>
+  <line x1="9" y1="3" x2="9" y2="21"/>
+</svg>`;
+
+const JSON_ICON = `
+<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+  <path d="M8 3H7a2 2 0 0 0-2 2v5a2 2 0 0 1-2 2 2 2 0 0 1 2 2v5a2 2 0 0 0 2 2h1"/>
+  <path d="M16 21h1a2 2 0 0 0 2-2v-5a2 2 0 0 1 2-2 2 2 0 0 1-2-2V5a2 2 0 0 0-2-2h-1"/>
+</svg>`;
+
 const NOTIC_ICON = `
 <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
   <path d="M12 20h9"/>
@@ -67,9 +131,16 @@ export class ExportButton {
     private panel: HTMLDivElement | null = null;
     private selectedFormat: ExportFormat = "csv";
     private selectedCount = 50;
+    private selectedKinds: Set<ResultKind> = new Set(
+        RESULT_KINDS.map((k) => k.kind)
+    );
     private selectedFields: Set<keyof VideoResult> = new Set(
-        EXPORT_FIELDS.filter((f) => f.defaultOn).map((f) => f.key)
+        fieldsFor(false)
+            .filter((f) => f.defaultOn)
+            .map((f) => f.key)
     );
+    /** Results handed in by exportResults(), exported instead of the page */
+    private preloaded: { results: VideoResult[]; query: string } | null = null;
     private isExporting = false;
     private abortController: AbortController | null = null;
     private onOpenCallback: (() => void) | null = null;
@@ -143,10 +214,9 @@ export class ExportButton {
     }
 
     syncVisibility() {
-        const params = new URLSearchParams(window.location.search);
         const isResults =
             window.location.pathname.includes("/results") ||
-            params.has("search_query");
+            readSearchPage(window.location) !== null;
         if (isResults) this.show();
         else this.hide();
     }
@@ -172,6 +242,18 @@ export class ExportButton {
                             ${CSV_ICON}
                             <span class="ysp-export-format-name">CSV</span>
                         </button>
+                        <button class="ysp-export-format" data-format="xlsx" type="button">
+                            ${XLSX_ICON}
+                            <span class="ysp-export-format-name">XLSX</span>
+                        </button>
+                        <button class="ysp-export-format" data-format="json" type="button">
+                            ${JSON_ICON}
+                            <span class="ysp-export-format-name">JSON</span>
+                        </button>
+                        <button class="ysp-export-format" data-format="jsonl" type="button">
+                            ${JSON_ICON}
+                            <span class="ysp-export-format-name">JSONL</span>
+                        </button>
                         <button class="ysp-export-format" data-format="notic" type="button">
                             ${NOTIC_ICON}
                             <span class="ysp-export-format-name">Notic</span>
@@ -190,13 +272,27 @@ export class ExportButton {
                     </div>
                 </div>
 
+                <!-- Result types -->
+                <div class="ysp-export-section">
+                    <div class="ysp-export-label">Include</div>
+                    <div class="ysp-export-fields">
+                        ${RESULT_KINDS.map(
+                            (k) => `
+                            <label class="ysp-export-field-check">
+                                <input type="checkbox" data-kind="${k.kind}" checked />
+                                <span>${k.label}</span>
+                            </label>`
+                        ).join("")}
+                    </div>
+                </div>
+
                 <!-- Fields -->
                 <div class="ysp-export-section" id="ysp-export-fields-section">
                     <div class="ysp-export-label">Fields</div>
                     <div class="ysp-export-fields">
                         ${EXPORT_FIELDS.map(
                             (f) => `
-                            <label class="ysp-export-field-check">
+                            <label class="ysp-export-field-check" data-field-label="${f.key}">
                                 <input type="checkbox" data-field="${f.key}" ${
                                 f.defaultOn ? "checked" : ""
                             } />
@@ -252,11 +348,25 @@ export class ExportButton {
                 });
             });
 
+        // Result type checkboxes
+        panel
+            .querySelectorAll<HTMLInputElement>("input[data-kind]")
+            .forEach((cb) => {
+                cb.addEventListener("change", () => {
+                    const kind = cb.dataset.kind as ResultKind;
+                    if (cb.checked) {
+                        this.selectedKinds.add(kind);
+                    } else if (this.selectedKinds.size > 1) {
+                        this.selectedKinds.delete(kind);
+                    } else {
+                        cb.checked = true;
+                    }
+                });
+            });
+
         // Field checkboxes
         panel
-            .querySelectorAll<HTMLInputElement>(
-                '.ysp-export-field-check input[type="checkbox"]'
-            )
+            .querySelectorAll<HTMLInputElement>("input[data-field]")
             .forEach((cb) => {
                 cb.addEventListener("change", () => {
                     const key = cb.dataset.field as keyof VideoResult;
@@ -294,8 +404,7 @@ export class ExportButton {
             "#ysp-export-start"
         ) as HTMLButtonElement;
 
-        startBtn.textContent =
-            format === "notic" ? "Export to Notic" : "Export CSV";
+        startBtn.textContent = EXPORT_ACTIONS[format];
         startBtn.disabled = false;
         startBtn.classList.remove("ysp-btn-disabled");
     }
@@ -315,9 +424,23 @@ export class ExportButton {
     }
 
     private toggle() {
-        this.panel?.classList.contains("ysp-open")
-            ? this.close()
-            : this.openPanel();
+        if (this.panel?.classList.contains("ysp-open")) {
+            this.close();
+        } else {
+            this.preloaded = null;
+            this.openPanel();
+        }
+    }
+
+    /**
+     * Open the export panel for results collected elsewhere (e.g. a
+     * multi-channel search) instead of the current page's results.
+     */
+    exportResults(results: VideoResult[], query: string) {
+        if (!this.panel) return;
+        this.close();
+        this.preloaded = { results, query };
+        this.openPanel();
     }
 
     private openPanel() {
@@ -331,23 +454,49 @@ export class ExportButton {
         this.selectCount(50);
         this.hideProgress();
 
+        // Preloaded results have a fixed count; show it instead of the picker
+        const countSection = this.panel.querySelector(
+            "#ysp-export-count-section"
+        ) as HTMLElement;
+        countSection.style.display = this.preloaded ? "none" : "";
+        if (this.preloaded) {
+            this.showProgress(
+                `${this.preloaded.results.length} results from multi-channel search`,
+                100
+            );
+        }
+
         // Reset field checkboxes to defaults
+        const fields = fieldsFor(!!this.preloaded);
         this.selectedFields = new Set(
-            EXPORT_FIELDS.filter((f) => f.defaultOn).map((f) => f.key)
+            fields.filter((f) => f.defaultOn).map((f) => f.key)
         );
         this.panel
-            .querySelectorAll<HTMLInputElement>(
-                '.ysp-export-field-check input[type="checkbox"]'
-            )
+            .querySelectorAll<HTMLElement>("[data-field-label]")
+            .forEach((label) => {
+                label.style.display = fields.some(
+                    (f) => f.key === label.dataset.fieldLabel
+                )
+                    ? ""
+                    : "none";
+            });
+        this.panel
+            .querySelectorAll<HTMLInputElement>("input[data-field]")
             .forEach((cb) => {
                 const key = cb.dataset.field as keyof VideoResult;
                 cb.checked = this.selectedFields.has(key);
             });
 
+        // Include every result type again
+        this.selectedKinds = new Set(RESULT_KINDS.map((k) => k.kind));
+        this.panel
+            .querySelectorAll<HTMLInputElement>("input[data-kind]")
+            .forEach((cb) => (cb.checked = true));
+
         const startBtn = this.panel.querySelector(
             "#ysp-export-start"
         ) as HTMLButtonElement;
-        startBtn.textContent = "Export CSV";
+        startBtn.textContent = EXPORT_ACTIONS.csv;
         startBtn.disabled = false;
         startBtn.classList.remove("ysp-btn-disabled");
 
@@ -356,8 +505,13 @@ export class ExportButton {
         ) as HTMLButtonElement;
         cancelBtn.textContent = "Cancel";
 
-        // Position anchored to export button (same as filter panel)
-        const rect = this.btn.getBoundingClientRect();
+        // Position anchored to export button (same as filter panel);
+        // fall back to the filter button when ours is hidden
+        const anchor =
+            this.btn.offsetParent !== null
+                ? this.btn
+                : document.getElementById("ysp-filter-btn") || this.btn;
+        const rect = anchor.getBoundingClientRect();
         this.panel.style.top = `${rect.bottom + 8}px`;
         this.panel.style.left = `${Math.max(8, rect.right - 400)}px`;
         this.panel.classList.add("ysp-open");
@@ -408,10 +562,10 @@ export class ExportButton {
             return;
         }
 
-        // CSV export is Pro only
+        // File exports are Pro only
         if (!isPro()) {
             this.close();
-            showPaygate("csv");
+            showPaygate(this.selectedFormat === "jsonl" ? "json" : this.selectedFormat);
             return;
         }
 
@@ -432,36 +586,54 @@ export class ExportButton {
         cancelBtn.textContent = "Stop";
 
         try {
-            // Auto-scroll to load results
-            await this.autoScroll(this.selectedCount, signal);
-
-            if (signal.aborted) {
+            // Auto-scroll + scrape (unless results were handed in)
+            const results = await this.collectResults(signal, 90);
+            if (!results) {
                 this.resetExportUI();
                 return;
             }
 
-            // Scrape results
-            this.showProgress("Scraping results...", 90);
-            const results = this.scrapeResults(this.selectedCount);
-
             if (results.length === 0) {
                 this.showProgress("No results found to export.", 0);
                 setTimeout(() => this.resetExportUI(), 2000);
                 return;
             }
 
-            // Generate & download CSV
+            // Generate & download the file
             this.showProgress(`Exporting ${results.length} results...`, 95);
 
-            const query =
-                new URLSearchParams(window.location.search).get(
-                    "search_query"
-                ) || "";
-            const csv = this.generateCSV(results, query);
+            const query = this.exportQuery();
             const safeName = query
                 .replace(/[^a-zA-Z0-9]+/g, "_")
                 .substring(0, 40);
-            this.downloadCSV(csv, `youtube-search_${safeName}.csv`);
+            const filename = `youtube-search_${safeName}.${this.selectedFormat}`;
+            const source = {
+                query,
+                ...this.exportPage(),
+                exportedAt: new Date(),
+                extensionVersion: chrome.runtime.getManifest().version,
+            };
+            if (this.selectedFormat === "csv") {
+                const csv = this.generateCSV(results, query);
+                this.download(csv, filename, "text/csv;charset=utf-8;");
+            } else if (this.selectedFormat === "xlsx") {
+                const workbook = resultsWorkbook(
+                    results,
+                    this.activeFields(),
+                    source,
+                    this.exportFilters()
+                );
+                this.download(workbook, filename, XLSX_MIME);
+            } else {
+                const format = this.selectedFormat as JSONExportFormat;
+                this.download(
+                    formatResults(format, results, this.activeFieldKeys(), source),
+                    filename,
+                    format === "json"
+                        ? "application/json;charset=utf-8;"
+                        : "application/x-ndjson;charset=utf-8;"
+                );
+            }
 
             this.showProgress(`Exported ${results.length} results!`, 100);
             setTimeout(() => this.close(), 1500);
@@ -476,6 +648,61 @@ export class ExportButton {
         }
     }
 
+    /**
+     * Results to export: the preloaded set, or the current page's results
+     * after auto-scrolling. Returns null when the user stopped the export.
+     */
+    private async collectResults(
+        signal: AbortSignal,
+        scrapePercent: number
+    ): Promise<VideoResult[] | null> {
+        const kinds = [...this.selectedKinds];
+        if (this.preloaded) {
+            return this.preloaded.results.filter((r) =>
+                kinds.includes(r.resultType ?? "video")
+            );
+        }
+
+        await this.autoScroll(this.selectedCount, kinds, signal);
+        if (signal.aborted) return null;
+
+        this.showProgress("Scraping results...", scrapePercent);
+        return scrapeResults(this.selectedCount, document, kinds);
+    }
+
+    /** Active filters behind the exported results, as "Label: value". */
+    private exportFilters(): string[] {
+        if (this.preloaded) {
+            return filterProvenance(
+                buildResultChips({ query: this.preloaded.query })
+            );
+        }
+        const page = readSearchPage(window.location);
+        if (!page) return [];
+        const sp = new URLSearchParams(window.location.search).get("sp");
+        return filterProvenance(buildResultChips(page, sp));
+    }
+
+    /** sp= and channel of the exported search page (none for preloaded results). */
+    private exportPage(): { sp: string | null; channel: string | null } {
+        const page = this.preloaded ? null : readSearchPage(window.location);
+        if (!page) return { sp: null, channel: null };
+        return {
+            sp: page.channel
+                ? null
+                : new URLSearchParams(window.location.search).get("sp"),
+            channel: page.channel ?? null,
+        };
+    }
+
+    private exportQuery(): string {
+        return (
+            this.preloaded?.query ||
+            readSearchPage(window.location)?.query ||
+            ""
+        );
+    }
+
     private resetExportUI() {
         this.isExporting = false;
         this.hideProgress();
@@ -488,10 +715,7 @@ export class ExportButton {
         ) as HTMLButtonElement;
 
         if (startBtn) {
-            startBtn.textContent =
-                this.selectedFormat === "notic"
-                    ? "Export to Notic"
-                    : "Export CSV";
+            startBtn.textContent = EXPORT_ACTIONS[this.selectedFormat];
             startBtn.disabled = false;
             startBtn.classList.remove("ysp-btn-disabled");
         }
@@ -502,12 +726,18 @@ export class ExportButton {
 
     // ── Auto-scroll ──
 
+    /**
+     * Scroll until `target` results of the included kinds have loaded.
+     * Progress is judged on results of every kind, so a stretch of
+     * Shorts or channels isn't mistaken for the end of the results.
+     */
     private async autoScroll(
         target: number,
+        kinds: ResultKind[],
         signal: AbortSignal
     ): Promise<void> {
-        const getCount = () =>
-            document.querySelectorAll("ytd-video-renderer").length;
+        const getCount = () => countResults(document, kinds);
+        const getLoaded = () => countResults(document);
 
         let current = getCount();
         this.showProgress(
@@ -521,7 +751,7 @@ export class ExportButton {
         const MAX_STALE = 3; // give up after 3 rounds with no new results
 
         while (current < target && !signal.aborted) {
-            const prevCount = current;
+            const prevLoaded = getLoaded();
 
             // Scroll to bottom
             window.scrollTo({
@@ -530,7 +760,7 @@ export class ExportButton {
             });
 
             // Wait for new results to load
-            await this.waitForNewResults(prevCount, 4000, signal);
+            await this.waitForNewResults(prevLoaded, 4000, signal);
 
             current = getCount();
             this.showProgress(
@@ -538,7 +768,7 @@ export class ExportButton {
                 (Math.min(current, target) / target) * 100
             );
 
-            if (current === prevCount) {
+            if (getLoaded() === prevLoaded) {
                 staleRounds++;
                 if (staleRounds >= MAX_STALE) {
                     // No more results available
@@ -554,8 +784,9 @@ export class ExportButton {
         }
     }
 
+    /** Wait until more results (of any kind) than `prevLoaded` have loaded. */
     private waitForNewResults(
-        prevCount: number,
+        prevLoaded: number,
         timeout: number,
         signal: AbortSignal
     ): Promise<void> {
@@ -569,9 +800,7 @@ export class ExportButton {
                     return;
                 }
 
-                const current =
-                    document.querySelectorAll("ytd-video-renderer").length;
-                if (current > prevCount || elapsed >= timeout) {
+                if (countResults(document) > prevLoaded || elapsed >= timeout) {
                     resolve();
                     return;
                 }
@@ -584,72 +813,25 @@ export class ExportButton {
         });
     }
 
-    // ── Scraper ──
-
-    private scrapeResults(maxCount: number): VideoResult[] {
-        const renderers = document.querySelectorAll("ytd-video-renderer");
-        const results: VideoResult[] = [];
-
-        const limit = Math.min(renderers.length, maxCount);
-        for (let i = 0; i < limit; i++) {
-            const el = renderers[i];
-
-            const titleEl = el.querySelector(
-                "#video-title"
-            ) as HTMLElement | null;
-            const channelEl = el.querySelector(
-                "ytd-channel-name a, #channel-name a"
-            ) as HTMLAnchorElement | null;
-            const metaSpans = el.querySelectorAll("#metadata-line span");
-            const durationEl = el.querySelector(
-                "ytd-thumbnail-overlay-time-status-renderer span"
-            ) as HTMLElement | null;
-            const linkEl = el.querySelector(
-                "a#video-title"
-            ) as HTMLAnchorElement | null;
-
-            const title = titleEl?.textContent?.trim() || "";
-            const url = linkEl?.href || "";
-            const channel = channelEl?.textContent?.trim() || "";
-            const views =
-                (metaSpans[0] as HTMLElement)?.textContent?.trim() || "";
-            const published =
-                (metaSpans[1] as HTMLElement)?.textContent?.trim() || "";
-            const duration = durationEl?.textContent?.trim() || "";
-
-            if (title || url) {
-                results.push({
-                    title,
-                    url,
-                    channel,
-                    views,
-                    published,
-                    duration,
-                });
-            }
-        }
-
-        return results;
-    }
-
-    // ── CSV generation ──
+    // ── File generation ──
 
     private generateCSV(results: VideoResult[], query: string): string {
         const exportDate = new Date().toISOString();
+        const filters = this.exportFilters().join(" · ");
 
         // Build headers and row mappers based on selected fields
-        const activeFields = EXPORT_FIELDS.filter((f) =>
-            this.selectedFields.has(f.key)
-        );
+        const activeFields = this.activeFields();
         const headers = [
             ...activeFields.map((f) => f.label),
             "Search Query",
+            "Filters",
             "Export Date",
         ];
 
         const rows = results.map((r) => [
-            ...activeFields.map((f) => csvEscape(r[f.key])),
+            ...activeFields.map((f) => csvEscape(fieldText(r[f.key]))),
             csvEscape(query),
+            csvEscape(filters),
             csvEscape(exportDate),
         ]);
 
@@ -662,8 +844,19 @@ export class ExportButton {
         return "\uFEFF" + csvContent;
     }
 
-    private downloadCSV(csv: string, filename: string) {
-        const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+    /** Selected fields offered for this export, in column order. */
+    private activeFields(): ExportField[] {
+        return fieldsFor(!!this.preloaded).filter((f) =>
+            this.selectedFields.has(f.key)
+        );
+    }
+
+    private activeFieldKeys(): (keyof VideoResult)[] {
+        return this.activeFields().map((f) => f.key);
+    }
+
+    private download(content: BlobPart, filename: string, type: string) {
+        const blob = new Blob([content], { type });
         const url = URL.createObjectURL(blob);
         const link = document.createElement("a");
         link.href = url;
@@ -701,18 +894,13 @@ export class ExportButton {
         cancelBtn.textContent = "Stop";
 
         try {
-            // 1. Auto-scroll to load requested number of results
-            await this.autoScroll(this.selectedCount, signal);
-
-            if (signal.aborted) {
+            // 1–2. Auto-scroll + scrape (respects selectedCount)
+            const results = await this.collectResults(signal, 70);
+            if (!results) {
                 this.resetExportUI();
                 return;
             }
 
-            // 2. Scrape results (respects selectedCount)
-            this.showProgress("Scraping results...", 70);
-            const results = this.scrapeResults(this.selectedCount);
-
             if (results.length === 0) {
                 this.showProgress("No results found to export.", 0);
                 setTimeout(() => this.resetExportUI(), 2000);
@@ -720,10 +908,7 @@ export class ExportButton {
             }
 
             // 3. Build markdown (respects selectedFields)
-            const query =
-                new URLSearchParams(window.location.search).get(
-                    "search_query"
-                ) || "";
+            const query = this.exportQuery();
             const markdown = this.buildNoticMarkdown(results, query);
 
             // 4. Send to background script → opens Notic app → injects clip
@@ -775,13 +960,8 @@ export class ExportButton {
             minute: "2-digit",
         });
 
-        // Get active filters from storage (sync read from inputs)
-        const filterChips = document.querySelectorAll(".ysp-result-chip");
-        const filters: string[] = [];
-        filterChips.forEach((chip) => {
-            const text = chip.textContent?.trim();
-            if (text) filters.push(text);
-        });
+        // Same filters the chip bar shows above the results
+        const filters = this.exportFilters();
 
         let md = `## YouTube Search: ${query}\n\n`;
         md += `*Exported on ${dateStr} at ${timeStr}*\n\n`;
@@ -809,17 +989,15 @@ export class ExportButton {
             }
 
             // Remaining selected fields as metadata line
-            const metaKeys: (keyof VideoResult)[] = [
-                "channel",
-                "views",
-                "published",
-                "duration",
-            ];
+            // Flags show by name when set ("Verified"), not as Yes / No
             const meta: string[] = [];
-            for (const key of metaKeys) {
-                if (this.selectedFields.has(key) && r[key]) {
-                    meta.push(r[key]);
-                }
+            for (const { key, label } of EXPORT_FIELDS) {
+                if (key === "title" || key === "url") continue;
+                if (!this.selectedFields.has(key)) continue;
+                const value = r[key];
+                const text =
+                    typeof value === "boolean" ? (value ? label : "") : fieldText(value);
+                if (text) meta.push(text);
             }
             if (meta.length > 0) {
                 md += `\n  *${meta.join(" · ")}*`;
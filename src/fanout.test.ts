@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { parseChannelList, mergeChannelResults } from "./fanout";
+import { type VideoResult } from "./scrape";
+
+const video = (id: string, title = `Video ${id}`): VideoResult => ({
+    title,
+    url: `https://www.youtube.com/watch?v=${id}`,
+    channel: "Some Channel",
+    views: "1K views",
+    published: "1 day ago",
+    duration: "10:00",
+});
+
+// ── parseChannelList ─────────────────────────────────────────────────
+
+describe("parseChannelList", () => {
+    it("splits on commas and newlines", () => {
+        expect(parseChannelList("@mkbhd, LinusTechTips\n\n@verge")).toEqual([
+            { input: "@mkbhd", path: "/@mkbhd" },
+            { input: "LinusTechTips", path: "/@LinusTechTips" },
+            { input: "@verge", path: "/@verge" },
+        ]);
+    });
+
+    it("drops entries that resolve to the same channel", () => {
+        expect(
+            parseChannelList("@mkbhd\nmkbhd\nhttps://www.youtube.com/@mkbhd/videos")
+        ).toEqual([{ input: "@mkbhd", path: "/@mkbhd" }]);
+    });
+
+    it("keeps unresolvable entries with a null path", () => {
+        expect(parseChannelList("Marques Brownlee, @mkbhd")).toEqual([
+            { input: "Marques Brownlee", path: null },
+            { input: "@mkbhd", path: "/@mkbhd" },
+        ]);
+    });
+});
+
+// ── mergeChannelResults ──────────────────────────────────────────────
+
+describe("mergeChannelResults", () => {
+    it("tags each result with its source channel, in batch order", () => {
+        const merged = mergeChannelResults([
+            { channel: "/@a", results: [video("aaaaaaaaaaa"), video("bbbbbbbbbbb")] },
+            { channel: "/@b", results: [video("ccccccccccc")] },
+        ]);
+        expect(merged.map((r) => [r.title, r.sourceChannel])).toEqual([
+            ["Video aaaaaaaaaaa", "@a"],
+            ["Video bbbbbbbbbbb", "@a"],
+            ["Video ccccccccccc", "@b"],
+        ]);
+    });
+
+    it("keeps a video found under several channels once", () => {
+        const collab = video("ccccccccccc");
+        const merged = mergeChannelResults([
+            { channel: "/@a", results: [collab] },
+            {
+                channel: "/@b",
+                results: [
+                    { ...collab, url: `${collab.url}&pp=xyz` },
+                    video("ddddddddddd"),
+                ],
+            },
+            { channel: "/@b", results: [collab] },
+        ]);
+        expect(merged).toHaveLength(2);
+        expect(merged[0].sourceChannel).toBe("@a, @b");
+    });
+
+    it("does not modify the input results", () => {
+        const original = video("aaaaaaaaaaa");
+        mergeChannelResults([{ channel: "/@a", results: [original] }]);
+        expect(original.sourceChannel).toBeUndefined();
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * YouTube Search Plus — Multi-Channel Search (merging)
+ *
+ * Runs one query against several channels' own search pages and merges
+ * what comes back. This module is the pure part: parsing the channel
+ * list and merging per-channel batches. Loading the pages lives in
+ * multichannel.ts.
+ */
+
+import { type VideoResult, videoIdFromUrl } from "./scrape";
+import { resolveChannelPath, channelLabel } from "./channel";
+
+// ─── Channel lists ───────────────────────────────────────────────────
+
+/** A named, reusable list of channels. */
+export interface ChannelSet {
+    name: string;
+    channels: string[];
+}
+
+export interface ChannelListEntry {
+    /** As the user typed it */
+    input: string;
+    /** Resolved channel path, or null when it can't be searched */
+    path: string | null;
+}
+
+/**
+ * Split a comma- or newline-separated channel list. Entries that resolve
+ * to the same channel are kept once; unresolvable ones are kept (with a
+ * null path) so the UI can point them out.
+ */
+export function parseChannelList(text: string): ChannelListEntry[] {
+    const seen = new Set<string>();
+    const entries: ChannelListEntry[] = [];
+    for (const raw of text.split(/[,\n]/)) {
+        const input = raw.trim();
+        if (!input) continue;
+        const path = resolveChannelPath(input);
+        const key = (path || input).toLowerCase();
+        if (seen.has(key)) continue;
+        seen.add(key);
+        entries.push({ input, path });
+    }
+    return entries;
+}
+
+// ─── Merging ─────────────────────────────────────────────────────────
+
+/** Results from one channel's search page. */
+export interface ChannelBatch {
+    /** Channel path the results came from */
+    channel: string;
+    results: VideoResult[];
+}
+
+/**
+ * Merge per-channel batches in order, de-duplicating by video ID (or
+ * URL when there's no ID). A video found under several channels (e.g.
+ * a collab) is kept once, with every source channel listed.
+ */
+export function mergeChannelResults(batches: ChannelBatch[]): VideoResult[] {
+    const merged: VideoResult[] = [];
+    const byKey = new Map<string, VideoResult>();
+
+    for (const batch of batches) {
+        const source = channelLabel(batch.channel);
+        for (const result of batch.results) {
+            const key = videoIdFromUrl(result.url) || result.url || result.title;
+            const existing = byKey.get(key);
+            if (existing) {
+                const sources = existing.sourceChannel?.split(", ") || [];
+                if (!sources.includes(source))
+                    existing.sourceChannel = [...sources, source].join(", ");
+                continue;
+            }
+            const entry = { ...result, sourceChannel: source };
+            byKey.set(key, entry);
+            merged.push(entry);
+        }
+    }
+
+    return merged;
+}
@@ -4,9 +4,19 @@ import {
     parseQueryFilters,
     buildPreviewLines,
     stripOperators,
+    mergeQuery,
+    stripChannelOperator,
+    queryFieldValues,
+    changedFieldValues,
+    applyFiltersToQuery,
+    resolveRelativeDates,
     csvEscape,
+    registerTextFilter,
+    TEXT_FILTERS,
     type ActiveTextFilter,
 } from "./filters";
+import { lintFilters } from "./lint";
+import { parseQuery } from "./query";
 
 // ── buildQueryString ─────────────────────────────────────────────────
 
@@ -55,6 +65,51 @@ describe("buildQueryString", () => {
         expect(buildQueryString(filters)).toBe("channel:mkbhd");
     });
 
+    it("quotes operator values containing spaces", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "intitle", value: '"first look"' },
+        ];
+        expect(buildQueryString(filters)).toBe('intitle:"first look"');
+    });
+
+    it("writes one operator per value of a multi-value filter", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "intitle", value: 'review "first look"' },
+            { id: "channel", value: "mkbhd @verge" },
+            { id: "hashtag", value: "#tech gadgets" },
+        ];
+        expect(buildQueryString(filters)).toBe(
+            'intitle:review intitle:"first look" channel:mkbhd channel:@verge #tech #gadgets'
+        );
+    });
+
+    it("writes all-in-title words unquoted, at the end", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "allintitle", value: 'review "2025"' },
+            { id: "intitle", value: "pixel" },
+            { id: "exclude", value: "live" },
+        ];
+        expect(buildQueryString(filters)).toBe(
+            "intitle:pixel -live allintitle:review 2025"
+        );
+    });
+
+    it("joins any-of alternatives with |", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "anyof", value: '"react hooks" "vue composables"' },
+        ];
+        expect(buildQueryString(filters)).toBe(
+            '"react hooks" | "vue composables"'
+        );
+    });
+
+    it("accepts | already typed in an any-of value", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "anyof", value: "python | rust OR go" },
+        ];
+        expect(buildQueryString(filters)).toBe("python | rust | go");
+    });
+
     it("builds # hashtag operator", () => {
         const filters: ActiveTextFilter[] = [
             { id: "hashtag", value: "shorts" },
@@ -169,6 +224,68 @@ describe("parseQueryFilters", () => {
         expect(result).toContainEqual({ id: "channel", value: "fireship" });
         expect(result).toContainEqual({ id: "hashtag", value: "webdev" });
     });
+
+    it("does not treat a dash inside a quoted phrase as an exclusion", () => {
+        const result = parseQueryFilters('"how to -mass delete"');
+        expect(result).toEqual([{ id: "exact", value: "how to -mass delete" }]);
+    });
+
+    it("does not treat # inside a phrase or word as a hashtag", () => {
+        const result = parseQueryFilters('"c# tutorial" f#');
+        expect(result).toEqual([{ id: "exact", value: "c# tutorial" }]);
+    });
+
+    it("leaves hyphenated words alone", () => {
+        expect(parseQueryFilters("e-mail setup")).toEqual([]);
+    });
+
+    it("combines repeated multi-value operators into one filter", () => {
+        const result = parseQueryFilters(
+            'intitle:review #a channel:mkbhd intitle:"first look" #b'
+        );
+        expect(result).toEqual([
+            { id: "intitle", value: 'review "first look"' },
+            { id: "hashtag", value: "a b" },
+            { id: "channel", value: "mkbhd" },
+        ]);
+    });
+
+    it("keeps repeated single-value operators separate", () => {
+        expect(parseQueryFilters("after:2024-01-01 after:2024-02-01")).toEqual([
+            { id: "after", value: "2024-01-01" },
+            { id: "after", value: "2024-02-01" },
+        ]);
+    });
+
+    it("parses allintitle: with the words after it", () => {
+        expect(parseQueryFilters("pixel allintitle:review 2025 -live")).toEqual([
+            { id: "allintitle", value: "review 2025" },
+            { id: "exclude", value: "live" },
+        ]);
+        expect(stripOperators("pixel allintitle:review 2025 -live")).toBe("pixel");
+    });
+
+    it("collects negated phrases and hashtags into exclude", () => {
+        const result = parseQueryFilters('music -"full album" -#shorts -live');
+        expect(result).toEqual([
+            { id: "exclude", value: '"full album" #shorts live' },
+        ]);
+    });
+
+    it("parses OR groups into any-of filters", () => {
+        const result = parseQueryFilters(
+            'tutorial "react hooks" | "vue composables" python OR rust'
+        );
+        expect(result).toEqual([
+            { id: "anyof", value: '"react hooks" "vue composables"' },
+            { id: "anyof", value: "python rust" },
+        ]);
+    });
+
+    it("parses quoted operator values", () => {
+        const result = parseQueryFilters('intitle:"first look"');
+        expect(result).toEqual([{ id: "intitle", value: '"first look"' }]);
+    });
 });
 
 // ── Roundtrip: build → parse ─────────────────────────────────────────
@@ -209,6 +326,76 @@ describe("buildQueryString ↔ parseQueryFilters roundtrip", () => {
         const parsed = parseQueryFilters(query);
         expect(parsed).toContainEqual(original[0]);
     });
+
+    it("roundtrips a full filter set losslessly", () => {
+        const original: ActiveTextFilter[] = [
+            { id: "after", value: "2024-01-01" },
+            { id: "intitle", value: 'review "first look"' },
+            { id: "exact", value: "c# tutorial" },
+            { id: "anyof", value: 'react "vue composables"' },
+            { id: "exclude", value: 'spam "full album" #shorts' },
+            { id: "channel", value: 'mkbhd "Linus Tech Tips"' },
+            { id: "hashtag", value: "tech gadgets" },
+        ];
+        const query = buildQueryString(original);
+        expect(parseQueryFilters(query)).toEqual(original);
+        expect(buildQueryString(parseQueryFilters(query))).toBe(query);
+    });
+});
+
+// ── resolveRelativeDates ─────────────────────────────────────────────
+
+describe("resolveRelativeDates", () => {
+    // Wednesday, 21 October 2026
+    const now = new Date(2026, 9, 21);
+
+    it("returns filters unchanged when there is no relative date", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "after", value: "2024-01-01" },
+        ];
+        expect(resolveRelativeDates(filters, now)).toEqual(filters);
+    });
+
+    it("replaces the expression with after:/before: filters", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "intitle", value: "review" },
+            { id: "relative", value: "previous quarter" },
+        ];
+        expect(resolveRelativeDates(filters, now)).toEqual([
+            { id: "after", value: "2026-07-01" },
+            { id: "before", value: "2026-10-01" },
+            { id: "intitle", value: "review" },
+        ]);
+    });
+
+    it("overrides only the fixed bound the expression sets", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "after", value: "2020-01-01" },
+            { id: "before", value: "2026-10-10" },
+            { id: "relative", value: "last 30 days" },
+        ];
+        expect(resolveRelativeDates(filters, now)).toEqual([
+            { id: "after", value: "2026-09-21" },
+            { id: "before", value: "2026-10-10" },
+        ]);
+    });
+
+    it("drops an unrecognised expression", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "relative", value: "sometime soon" },
+        ];
+        expect(resolveRelativeDates(filters, now)).toEqual([]);
+    });
+
+    it("is not emitted by buildQueryString until resolved", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "relative", value: "last 30 days" },
+        ];
+        expect(buildQueryString(filters)).toBe("");
+        expect(buildQueryString(resolveRelativeDates(filters, now))).toBe(
+            "after:2026-09-21"
+        );
+    });
 });
 
 // ── buildPreviewLines ────────────────────────────────────────────────
@@ -254,6 +441,50 @@ describe("buildPreviewLines", () => {
         expect(lines[0].value).toBe('"hello world"');
     });
 
+    it("shows quoted excluded phrases as NOT lines", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "exclude", value: 'live "full album"' },
+        ];
+        const lines = buildPreviewLines(filters);
+        expect(lines.map((l) => l.value)).toEqual(["live", '"full album"']);
+        expect(lines.every((l) => l.connector === "NOT")).toBe(true);
+    });
+
+    it("renders any-of alternatives with OR connectors", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "after", value: "2024-01-01" },
+            { id: "anyof", value: '"react hooks" "vue composables"' },
+        ];
+        const lines = buildPreviewLines(filters);
+        expect(lines.map((l) => [l.connector, l.value])).toEqual([
+            ["", "2024-01-01"],
+            ["AND", '"react hooks"'],
+            ["OR", '"vue composables"'],
+        ]);
+        expect(lines[1].label).toBe("Any Of");
+    });
+
+    it("shows a relative date with the dates it resolves to", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "intitle", value: "review" },
+            { id: "relative", value: "previous month" },
+        ];
+        const lines = buildPreviewLines(filters, {
+            now: new Date(2026, 9, 21),
+        });
+        expect(lines[0]).toEqual({
+            connector: "",
+            label: "Within",
+            value: "previous month → after:2026-09-01 before:2026-10-01",
+        });
+        expect(lines[1].connector).toBe("AND");
+    });
+
+    it("flags an unrecognised relative date", () => {
+        const lines = buildPreviewLines([{ id: "relative", value: "soonish" }]);
+        expect(lines[0].value).toBe("soonish → not recognised");
+    });
+
     it("prepends # to hashtag value", () => {
         const filters: ActiveTextFilter[] = [
             { id: "hashtag", value: "shorts" },
@@ -292,6 +523,69 @@ describe("buildPreviewLines", () => {
         expect(lines[0].value).toBe("");
     });
 
+    it("adds native sp= filters after the text operators", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "intitle", value: "review" },
+        ];
+        const lines = buildPreviewLines(filters, {
+            native: { sort: "date", features: ["4k"] },
+            excludeShorts: true,
+        });
+        expect(lines.map((l) => [l.connector, l.label, l.value])).toEqual([
+            ["", "In Title", "review"],
+            ["AND", "Sort", "Upload date"],
+            ["AND", "Feature", "4K"],
+            ["NOT", "Shorts", ""],
+        ]);
+    });
+
+    it("shows strict channel as Only channel and drops native filters", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "intitle", value: "review" },
+            { id: "channel", value: "mkbhd" },
+        ];
+        const lines = buildPreviewLines(filters, {
+            native: { sort: "date" },
+            excludeShorts: true,
+            strictChannel: true,
+        });
+        expect(lines.map((l) => [l.connector, l.label, l.value])).toEqual([
+            ["", "Only channel", "@mkbhd"],
+            ["AND", "In Title", "review"],
+        ]);
+    });
+
+    it("keeps the boost when a strict channel can't be resolved", () => {
+        const lines = buildPreviewLines(
+            [{ id: "channel", value: '"Marques Brownlee"' }],
+            { strictChannel: true, native: { sort: "date" } }
+        );
+        expect(lines.map((l) => l.label)).toEqual(["Boost Channel", "Sort"]);
+    });
+
+    it("keeps several strict channels as boosts", () => {
+        const lines = buildPreviewLines(
+            [{ id: "channel", value: "@mkbhd @verge" }],
+            { strictChannel: true }
+        );
+        expect(lines.map((l) => [l.label, l.value])).toEqual([
+            ["Boost Channel", "@mkbhd"],
+            ["Boost Channel", "@verge"],
+        ]);
+    });
+
+    it("shows one line per value and all-in-title words as written", () => {
+        const lines = buildPreviewLines([
+            { id: "intitle", value: 'review "first look"' },
+            { id: "allintitle", value: "pixel 9" },
+        ]);
+        expect(lines.map((l) => [l.connector, l.label, l.value])).toEqual([
+            ["", "In Title", "review"],
+            ["AND", "In Title", '"first look"'],
+            ["AND", "Title has all", "pixel 9"],
+        ]);
+    });
+
     it("does not append Exclude Shorts when option is false", () => {
         const filters: ActiveTextFilter[] = [
             { id: "after", value: "2024-01-01" },
@@ -346,6 +640,18 @@ describe("stripOperators", () => {
         expect(stripOperators("after:2024-01-01 before:2024-12-31")).toBe("");
     });
 
+    it("keeps hyphenated words and # inside words", () => {
+        expect(stripOperators("e-mail c# -spam")).toBe("e-mail c#");
+    });
+
+    it("strips OR groups", () => {
+        expect(stripOperators("tutorial react | vue")).toBe("tutorial");
+    });
+
+    it("keeps unknown name:value tokens", () => {
+        expect(stripOperators("Re:Zero intitle:review")).toBe("Re:Zero");
+    });
+
     it("normalises extra whitespace", () => {
         expect(stripOperators("python   after:2024-01-01   tutorial")).toBe(
             "python tutorial"
@@ -353,6 +659,248 @@ describe("stripOperators", () => {
     });
 });
 
+// ── Search box sync ──────────────────────────────────────────────────
+
+describe("queryFieldValues", () => {
+    it("maps operators to field values", () => {
+        expect(
+            queryFieldValues('phone intitle:review -live -ads "hands on" #tech')
+        ).toEqual({
+            intitle: "review",
+            exclude: "live ads",
+            exact: "hands on",
+            hashtag: "tech",
+        });
+    });
+
+    it("keeps the last value of a repeated single-value operator", () => {
+        expect(queryFieldValues("after:2024-01-01 after:2024-02-01")).toEqual({
+            after: "2024-02-01",
+        });
+    });
+
+    it("combines repeated multi-value operators", () => {
+        expect(queryFieldValues("intitle:a intitle:b")).toEqual({ intitle: "a b" });
+    });
+});
+
+describe("changedFieldValues", () => {
+    it("reports only fields whose operator changed", () => {
+        expect(
+            changedFieldValues("phone intitle:review", "phone intitle:review -live")
+        ).toEqual({ exclude: "live" });
+    });
+
+    it("clears fields whose operator was removed", () => {
+        expect(changedFieldValues("phone after:2024-01-01", "phone")).toEqual({
+            after: "",
+        });
+    });
+
+    it("ignores plain-word edits", () => {
+        expect(changedFieldValues("phone intitle:x", "phones intitle:x")).toEqual({});
+    });
+});
+
+describe("applyFiltersToQuery", () => {
+    it("replaces the operators and keeps plain terms", () => {
+        expect(
+            applyFiltersToQuery("phone intitle:old -live", [
+                { id: "intitle", value: "review" },
+                { id: "relative", value: "last week" },
+            ])
+        ).toBe("phone intitle:review");
+    });
+
+    it("round-trips with queryFieldValues", () => {
+        const query = applyFiltersToQuery("phone", [
+            { id: "channel", value: "mkbhd" },
+            { id: "exclude", value: "live" },
+        ]);
+        expect(query).toBe("phone channel:mkbhd -live");
+        expect(queryFieldValues(query)).toEqual({ channel: "mkbhd", exclude: "live" });
+    });
+});
+
+// ── mergeQuery ───────────────────────────────────────────────────────
+
+describe("mergeQuery", () => {
+    it("keeps typed operators and appends saved filters", () => {
+        const saved: ActiveTextFilter[] = [
+            { id: "intitle", value: "review" },
+            { id: "exclude", value: "sponsored" },
+        ];
+        expect(mergeQuery('phone -live "exact phrase" #tech', saved)).toEqual({
+            query: 'phone -live "exact phrase" #tech intitle:review -sponsored',
+            duplicates: 0,
+            conflicts: [],
+        });
+    });
+
+    it("keeps the typed text as written", () => {
+        expect(mergeQuery("  react OR vue  ", [{ id: "intitle", value: "hooks" }]).query).toBe(
+            "react OR vue intitle:hooks"
+        );
+    });
+
+    it("skips saved filters already typed", () => {
+        const saved: ActiveTextFilter[] = [
+            { id: "exclude", value: "live shorts" },
+            { id: "hashtag", value: "Tech" },
+            { id: "exact", value: "exact phrase" },
+        ];
+        const merged = mergeQuery('phone -live "exact phrase" #tech', saved);
+        expect(merged.query).toBe('phone -live "exact phrase" #tech -shorts');
+        expect(merged.duplicates).toBe(3);
+    });
+
+    it("lets a typed single-value operator win over the saved one", () => {
+        const saved: ActiveTextFilter[] = [
+            { id: "after", value: "2023-06-01" },
+            { id: "before", value: "2024-01-01" },
+            { id: "intitle", value: "review" },
+        ];
+        const merged = mergeQuery("phone after:2024-03-01 intitle:unboxing", saved);
+        expect(merged.query).toBe(
+            "phone after:2024-03-01 intitle:unboxing before:2024-01-01 intitle:review"
+        );
+        expect(merged.conflicts).toEqual([
+            { filterId: "after", typed: "2024-03-01", saved: "2023-06-01" },
+        ]);
+    });
+
+    it("returns just the saved filters when nothing is typed", () => {
+        expect(mergeQuery("", [{ id: "channel", value: "mkbhd" }]).query).toBe(
+            "channel:mkbhd"
+        );
+    });
+});
+
+// ── stripChannelOperator ─────────────────────────────────────────────
+
+describe("stripChannelOperator", () => {
+    it("drops channel: operators for the searched channel only", () => {
+        expect(
+            stripChannelOperator("phones channel:@mkbhd channel:@verge 2024", "/@mkbhd")
+        ).toBe("phones channel:@verge 2024");
+        expect(stripChannelOperator("channel:mkbhd", "/@mkbhd")).toBe("");
+    });
+
+    it("keeps negated operators and the rest of the text as written", () => {
+        expect(stripChannelOperator('"a  b" -channel:@mkbhd', "/@mkbhd")).toBe(
+            '"a  b" -channel:@mkbhd'
+        );
+    });
+});
+
+// ── buildPreviewLines with a typed query ─────────────────────────────
+
+describe("buildPreviewLines (typed query)", () => {
+    it("explains conflicts in place of the overridden filter", () => {
+        const filters: ActiveTextFilter[] = [
+            { id: "after", value: "2023-06-01" },
+            { id: "exclude", value: "live" },
+            { id: "intitle", value: "review" },
+        ];
+        const lines = buildPreviewLines(filters, {
+            typed: "phone -live after:2024-03-01",
+        });
+        expect(lines.map((l) => [l.connector, l.label, l.value, !!l.conflict])).toEqual([
+            ["NOT", "Exclude", "live", false],
+            ["AND", "In Title", "review", false],
+            ["", "After", "typed 2024-03-01 replaces saved 2023-06-01", true],
+        ]);
+    });
+
+    it("notes when a typed date overrides a relative bound", () => {
+        const lines = buildPreviewLines([{ id: "relative", value: "last 7 days" }], {
+            typed: "news after:2024-01-01",
+            now: new Date(2024, 5, 15),
+        });
+        expect(lines[0].value).toBe(
+            "last 7 days → after:2024-06-08 (typed after: wins)"
+        );
+    });
+});
+
+// ── registerTextFilter ───────────────────────────────────────────────
+
+describe("registerTextFilter", () => {
+    const unregister = (id: string) => {
+        const i = TEXT_FILTERS.findIndex((c) => c.id === id);
+        if (i >= 0) TEXT_FILTERS.splice(i, 1);
+    };
+
+    it("makes a plain name: operator work from its config alone", () => {
+        const added = registerTextFilter({
+            id: "test-lang",
+            label: "Language",
+            type: "text",
+            operator: "lang:",
+            multiple: true,
+            info: { what: "", example: "", without: "", with: "" },
+        });
+        try {
+            expect(added).toBe(true);
+            const filters = [{ id: "test-lang", value: 'en "pt br"' }];
+            const query = buildQueryString(filters);
+            expect(query).toBe('lang:en lang:"pt br"');
+            expect(parseQueryFilters(`cats ${query}`)).toEqual(filters);
+            expect(stripOperators(`cats ${query}`)).toBe("cats");
+            expect(buildPreviewLines(filters).map((l) => l.value)).toEqual([
+                "en",
+                '"pt br"',
+            ]);
+        } finally {
+            unregister("test-lang");
+        }
+    });
+
+    it("uses a filter's own hooks", () => {
+        registerTextFilter({
+            id: "test-year",
+            label: "Year",
+            type: "text",
+            operator: "",
+            build: (value) => parseQuery(`y${value}`).nodes,
+            parse: (node) =>
+                node.kind === "term" && /^y\d{4}$/.test(node.text)
+                    ? node.text.slice(1)
+                    : null,
+            preview: (node) => [node.kind === "term" ? node.text.slice(1) : ""],
+            validate: (value) =>
+                value && !/^\d{4}$/.test(value)
+                    ? [
+                          {
+                              filterId: "test-year",
+                              severity: "error",
+                              message: "Not a year",
+                          },
+                      ]
+                    : [],
+            info: { what: "", example: "", without: "", with: "" },
+        });
+        try {
+            expect(buildQueryString([{ id: "test-year", value: "2024" }])).toBe("y2024");
+            expect(parseQueryFilters("cats y2024")).toEqual([
+                { id: "test-year", value: "2024" },
+            ]);
+            expect(buildPreviewLines([{ id: "test-year", value: "2024" }])).toEqual([
+                { connector: "", label: "Year", value: "2024" },
+            ]);
+            expect(lintFilters([{ id: "test-year", value: "24" }])).toEqual([
+                { filterId: "test-year", severity: "error", message: "Not a year" },
+            ]);
+        } finally {
+            unregister("test-year");
+        }
+    });
+
+    it("refuses an id that's already registered", () => {
+        expect(registerTextFilter({ ...TEXT_FILTERS[0] })).toBe(false);
+    });
+});
+
 // ── csvEscape ────────────────────────────────────────────────────────
 
 describe("csvEscape", () => {
@@ -9,15 +9,61 @@
  * YouTube's native "Search filters" panel on the results page.
  */
 
+import {
+    type QueryNode,
+    type OperatorNode,
+    parseQuery,
+    formatQuery,
+    formatNode,
+    formatNodeBody,
+    formatOperatorValue,
+    formatOperatorNodeValue,
+    termNode,
+    phraseNode,
+    operatorNode,
+    hashtagNode,
+    orNode,
+} from "./query";
+import { resolveRelativeDate } from "./dates";
+import { type NativeFilters, describeNativeFilters } from "./sp";
+import { resolveChannelPath, channelLabel } from "./channel";
+import type { LintContext, LintIssue } from "./lint";
+import { findMacro, macroRef, expandMacros } from "./macros";
+
 // ─── Text Filter Config ─────────────────────────────────────────────
 
+/**
+ * A text filter owns everything about its operator: how a field value
+ * becomes query nodes and back, how it previews and what makes it
+ * invalid. Hooks are optional — a plain `name:` operator works from
+ * `operator` alone, see the defaults under "Filter Hooks".
+ */
 export interface TextFilterConfig {
     id: string;
     label: string;
-    type: "date" | "text";
+    type: "date" | "relative" | "text";
     operator: string;
     placeholder?: string;
     description?: string;
+    /** Shorter label for query preview lines (defaults to `label`) */
+    previewLabel?: string;
+    /**
+     * Takes several space-separated values (quote one with spaces),
+     * each written as its own operator
+     */
+    multiple?: boolean;
+    /** Written after every other operator (it takes the plain words after it) */
+    last?: boolean;
+    /** Serializer: query nodes for a field value */
+    build?: (value: string) => QueryNode[];
+    /** Parser: field text for a node this filter owns, null for any other node */
+    parse?: (node: QueryNode) => string | null;
+    /** Stripper: whether stripOperators removes a node (defaults to owned nodes) */
+    strip?: (node: QueryNode) => boolean;
+    /** Preview values for one of this filter's nodes; several are alternatives */
+    preview?: (node: QueryNode) => string[];
+    /** Validator: problems with this filter's value given the rest of the search */
+    validate?: (value: string, context: LintContext) => LintIssue[];
     /** Education content for the info modal */
     info: {
         what: string;
@@ -47,6 +93,7 @@ export const TEXT_FILTERS: TextFilterConfig[] = [
         type: "date",
         operator: "before:",
         description: "Videos uploaded before this date",
+        validate: (_value, context) => validateDateRange(context),
         info: {
             what: 'Only show videos uploaded before a specific date. Great for finding older content or narrowing a time window when combined with "After".',
             example: "before:2024-01-01",
@@ -54,25 +101,82 @@ export const TEXT_FILTERS: TextFilterConfig[] = [
             with: "javascript frameworks before:2024-01-01 → only videos before 2024",
         },
     },
+    {
+        id: "relative",
+        label: "Relative Date",
+        previewLabel: "Within",
+        type: "relative",
+        operator: "",
+        placeholder: "e.g. last 30 days, this quarter",
+        description: "A date window resolved when you search",
+        // Resolved into after:/before: by resolveRelativeDates()
+        build: () => [],
+        validate: (value, context) =>
+            value && !resolveRelativeDate(value, context.now)
+                ? [
+                      {
+                          filterId: "relative",
+                          severity: "warning",
+                          message: `"${value}" isn't a date window we recognise — it will be ignored`,
+                      },
+                  ]
+                : [],
+        info: {
+            what: 'Describe a date window instead of fixed dates — "last 30 days", "this quarter", "previous month", "since monday". It is turned into after:/before: dates each time you search, so saved templates never go stale. Overrides the fixed After/Before dates it sets.',
+            example: "last 30 days → after:2024-05-16",
+            without: "laptop review after:2024-01-01 → a fixed date that ages",
+            with: "laptop review + last 30 days → always the most recent month",
+        },
+    },
     {
         id: "intitle",
         label: "In Title",
         type: "text",
         operator: "intitle:",
-        placeholder: "Word must appear in title",
-        description: "Require a word in the video title",
+        multiple: true,
+        placeholder: 'Words that must appear in title, e.g. review "first look"',
+        description: "Require words in the video title",
         info: {
-            what: "The word MUST appear in the video title, not just the description or tags. Useful when a normal search returns loosely related videos.",
-            example: "intitle:review",
+            what: "The word MUST appear in the video title, not just the description or tags. Useful when a normal search returns loosely related videos. Add several words separated by spaces to require each of them; wrap a multi-word phrase in quotes.",
+            example: "intitle:review intitle:2025",
             without: "iphone 16 review → may show unboxings, comparisons, etc.",
             with: 'iphone 16 intitle:review → only videos with "review" in the title',
         },
     },
+    {
+        id: "allintitle",
+        label: "All In Title",
+        previewLabel: "Title has all",
+        type: "text",
+        operator: "allintitle:",
+        last: true,
+        // Plain words only — anything else would end the operator
+        build: (value) => {
+            const words = filterValues(value).join(" ");
+            const node = operatorNode("allintitle", words.replace(/\s+/g, " "));
+            return node.value ? [node] : [];
+        },
+        placeholder: "Every one of these words in the title",
+        description: "Require all of these words in the video title",
+        info: {
+            what: "Every word listed must appear in the video title, in any order. One allintitle: covers all the words, so it's shorter than repeating In Title — it always goes at the end of the query, since it takes every plain word after it.",
+            example: "allintitle:review 2025",
+            without: "pixel review 2025 → words may only be in the description",
+            with: "pixel allintitle:review 2025 → titles containing both \"review\" and \"2025\"",
+        },
+    },
     {
         id: "exact",
         label: "Exact Phrase",
+        previewLabel: "Exact",
         type: "text",
         operator: '"',
+        build: (value) => {
+            const node = phraseNode(value);
+            return node.text ? [node] : [];
+        },
+        parse: (node) =>
+            node.kind === "phrase" && !node.negated ? node.text : null,
         placeholder: "Exact phrase to match",
         description: "Search for an exact phrase",
         info: {
@@ -83,11 +187,48 @@ export const TEXT_FILTERS: TextFilterConfig[] = [
             with: '"how to mass delete" → only results with that exact phrase',
         },
     },
+    {
+        id: "anyof",
+        label: "Any Of",
+        type: "text",
+        operator: "|",
+        build: (value) => {
+            // Accept both `a b` and `a | b`; nested groups are flattened
+            const operands = parseQuery(value).nodes.flatMap((n) =>
+                n.kind === "or" ? n.operands : [n]
+            );
+            return operands.length > 1 ? [orNode(operands)] : operands;
+        },
+        parse: (node) =>
+            node.kind === "or" && !node.negated
+                ? node.operands.map(formatNode).join(" ")
+                : null,
+        preview: (node) =>
+            node.kind === "or" ? node.operands.map(formatNode) : [formatNode(node)],
+        placeholder: 'Alternatives, e.g. "react hooks" "vue composables"',
+        description: "Match videos containing any of these words or phrases",
+        info: {
+            what: "Match videos that contain at least one of several words or phrases. Separate alternatives with spaces and wrap multi-word alternatives in quotes. YouTube reads | (or OR) between terms as \"either one\".",
+            example: '"react hooks" | "vue composables"',
+            without:
+                "react hooks vue composables → videos must match all four words",
+            with: '"react hooks" | "vue composables" → videos about either topic',
+        },
+    },
     {
         id: "exclude",
         label: "Exclude",
         type: "text",
         operator: "-",
+        multiple: true,
+        // Values are themselves tokenized: `tutorial "for kids"`
+        // becomes `-tutorial -"for kids"`
+        build: (value) =>
+            parseQuery(value).nodes.map((node) => ({ ...node, negated: true })),
+        // Any negated token, whatever its kind
+        parse: (node) => (node.negated ? formatNodeBody(node) : null),
+        preview: (node) => [formatNodeBody(node)],
+        validate: (value, context) => validateExclusions(value, context),
         placeholder: "Words to exclude (space-separated)",
         description: "Exclude videos containing these words",
         info: {
@@ -102,10 +243,11 @@ export const TEXT_FILTERS: TextFilterConfig[] = [
         label: "Boost Channel",
         type: "text",
         operator: "channel:",
-        placeholder: "Channel name or handle",
-        description: "Prioritize results from a specific channel",
+        multiple: true,
+        placeholder: 'Channel names or handles, e.g. mkbhd "Linus Tech Tips"',
+        description: "Prioritize results from specific channels",
         info: {
-            what: "Prioritizes results from a specific YouTube channel. This is a boost, not a strict filter — videos from the target channel appear first, but other results may still show below.",
+            what: "Prioritizes results from a specific YouTube channel. This is a boost, not a strict filter — videos from the target channel appear first, but other results may still show below. List several channels separated by spaces (quote names with spaces) to boost each. Tick \"Only this channel\" to search the channel's own page instead, which returns nothing else (needs a single @handle, channel URL or channel ID).",
             example: "channel:mkbhd",
             without: "best headphones 2025 → results from all channels equally",
             with: "best headphones 2025 channel:mkbhd → MKBHD's videos prioritized at top",
@@ -116,107 +258,616 @@ export const TEXT_FILTERS: TextFilterConfig[] = [
         label: "Hashtag",
         type: "text",
         operator: "#",
-        placeholder: "Tag (without #)",
+        multiple: true,
+        build: (value) =>
+            filterValues(value)
+                .map((tag) => hashtagNode(tag.replace(/^#|\s+/g, "")))
+                .filter((node) => node.tag),
+        parse: (node) =>
+            node.kind === "hashtag" && !node.negated ? node.tag : null,
+        validate: (value) => validateHashtags(value),
+        placeholder: "Tags, space-separated (# optional)",
         description: "Search by hashtag",
         info: {
-            what: "Search for videos tagged with a specific hashtag. Creators add hashtags to categorize their videos.",
-            example: "#shorts",
+            what: "Search for videos tagged with a specific hashtag. Creators add hashtags to categorize their videos. Add several tags separated by spaces to require each of them.",
+            example: "#shorts #cooking",
             without: "cooking → all cooking videos",
             with: "cooking #shorts → only short-form cooking videos",
         },
     },
+    {
+        id: "macros",
+        label: "Macros",
+        previewLabel: "Macro",
+        type: "text",
+        operator: "@",
+        multiple: true,
+        // Written as `@name` and expanded at search time (expandMacros),
+        // so editing a macro updates every template that uses it
+        build: (value) =>
+            filterValues(value).map((v) => termNode(`@${v.replace(/^@/, "")}`)),
+        parse: (node) =>
+            node.kind === "term" &&
+            !node.negated &&
+            findMacro(macroRef(node.text) || "")
+                ? node.text
+                : null,
+        preview: (node) => {
+            const ref = formatNode(node);
+            if (!findMacro(macroRef(ref) || "")) return [`${ref} (not defined)`];
+            const { query, cycles } = expandMacros(ref);
+            return [cycles.length ? `${ref} (refers to itself)` : `${ref} → ${query}`];
+        },
+        validate: (value) => validateMacros(value),
+        placeholder: "@name of saved macros, e.g. @noreacts",
+        description: "Insert saved bundles of search text",
+        info: {
+            what: 'A macro is a name for search text you use again and again, like "@noreacts" for -reaction -react -shorts -meme. Define macros with "Manage macros…", then type @name in the search box or add it here — it is expanded when you search. Macros can use other macros.',
+            example: "@noreacts",
+            without: "minecraft -reaction -react -shorts -meme → typed out every time",
+            with: "minecraft @noreacts → the same search",
+        },
+    },
 ];
 
 // ─── Active Filter State ─────────────────────────────────────────────
 
 export interface ActiveTextFilter {
     id: string;
+    /**
+     * Field text. `multiple` filters hold space-separated values,
+     * quoted when they contain spaces (see filterValues)
+     */
     value: string;
 }
 
-// ─── Query String Builder ────────────────────────────────────────────
+/**
+ * The separate values in a multi-value field: `review "first look"`
+ * gives ["review", "first look"]. Hashtags lose their leading #.
+ */
+export function filterValues(value: string): string[] {
+    return parseQuery(value)
+        .nodes.map((node) => {
+            switch (node.kind) {
+                case "term":
+                case "phrase":
+                    return node.text;
+                case "hashtag":
+                    return node.tag;
+                default:
+                    return formatNode(node);
+            }
+        })
+        .filter(Boolean);
+}
 
-export function buildQueryString(filters: ActiveTextFilter[]): string {
-    const parts: string[] = [];
+// ─── Filter Hooks ────────────────────────────────────────────────────
+
+/** `operator` without its trailing colon, for `name:value` filters. */
+function operatorName(config: TextFilterConfig): string {
+    return config.operator.replace(/:$/, "");
+}
+
+/** Default serializer: one `name:value` operator per value. */
+function defaultBuild(config: TextFilterConfig, value: string): QueryNode[] {
+    const values = config.multiple ? filterValues(value) : [value];
+    return values
+        .map((v) => operatorNode(operatorName(config), v))
+        .filter((node) => node.value);
+}
+
+/** Default parser: a non-negated operator with this filter's name. */
+function defaultParse(config: TextFilterConfig, node: QueryNode): string | null {
+    if (
+        node.kind !== "operator" ||
+        node.negated ||
+        `${node.name.toLowerCase()}:` !== config.operator
+    )
+        return null;
+    return config.multiple ? formatOperatorValue(node.value) : node.value;
+}
+
+/** Default preview: operators show just their value, the rest as written. */
+function defaultPreview(node: QueryNode): string[] {
+    return [
+        node.kind === "operator" && !node.negated
+            ? formatOperatorNodeValue(node)
+            : formatNodeBody(node),
+    ];
+}
+
+function buildNodes(config: TextFilterConfig, value: string): QueryNode[] {
+    return config.build ? config.build(value) : defaultBuild(config, value);
+}
+
+function parseNode(config: TextFilterConfig, node: QueryNode): string | null {
+    return config.parse ? config.parse(node) : defaultParse(config, node);
+}
+
+function previewValues(config: TextFilterConfig, node: QueryNode): string[] {
+    return config.preview ? config.preview(node) : defaultPreview(node);
+}
+
+/**
+ * Add a filter to the registry (after the built-in ones). Its field,
+ * operator, preview and validation then work like any other filter's.
+ * Returns false when the id is already taken.
+ */
+export function registerTextFilter(config: TextFilterConfig): boolean {
+    if (TEXT_FILTERS.some((c) => c.id === config.id)) return false;
+    TEXT_FILTERS.push(config);
+    return true;
+}
+
+// ─── Validators ──────────────────────────────────────────────────────
+
+const HASHTAG = /^[\p{L}\p{N}_]+$/u;
+
+/** Value of the first filter with this id ("" if none). */
+function fieldValue(filters: ActiveTextFilter[], id: string): string {
+    return filters.find((f) => f.id === id)?.value.trim() || "";
+}
+
+/** Lowercased text of a term or phrase node, or null for anything else. */
+function nodeText(node: QueryNode): string | null {
+    return node.kind === "term" || node.kind === "phrase"
+        ? node.text.toLowerCase()
+        : null;
+}
+
+/** True when `needle` appears as whole words in `haystack`. */
+function containsWords(haystack: string, needle: string): boolean {
+    const norm = (s: string) => ` ${s.toLowerCase().split(/\s+/).join(" ")} `;
+    return norm(haystack).includes(norm(needle));
+}
+
+/**
+ * After must not be later than Before — checked on the bounds the search
+ * will actually use, so a relative date is compared too.
+ */
+function validateDateRange({ filters, now }: LintContext): LintIssue[] {
+    const relative = fieldValue(filters, "relative");
+    const filterId =
+        relative && resolveRelativeDate(relative, now) ? "relative" : "before";
+    const resolved = resolveRelativeDates(filters, now);
+    const after = fieldValue(resolved, "after");
+    const before = fieldValue(resolved, "before");
+
+    if (after && before && after > before) {
+        return [
+            {
+                filterId,
+                severity: "error",
+                message: `After (${after}) is later than Before (${before}) — nothing can match`,
+            },
+        ];
+    }
+    if (after && after === before) {
+        return [
+            {
+                filterId,
+                severity: "warning",
+                message: "After and Before are the same day — this may return nothing",
+            },
+        ];
+    }
+    return [];
+}
+
+function validateHashtags(value: string): LintIssue[] {
+    const issues: LintIssue[] = [];
+    for (const tag of filterValues(value)) {
+        const bare = tag.replace(/^#/, "");
+        if (/\s/.test(bare)) {
+            issues.push({
+                filterId: "hashtag",
+                severity: "error",
+                message: `Hashtags can't contain spaces: "${bare}"`,
+            });
+        } else if (!HASHTAG.test(bare)) {
+            issues.push({
+                filterId: "hashtag",
+                severity: "error",
+                message: `#${bare} isn't a valid hashtag — use letters, numbers and _ only`,
+            });
+        }
+    }
+    return issues;
+}
+
+function validateMacros(value: string): LintIssue[] {
+    const issues: LintIssue[] = [];
+    for (const v of filterValues(value)) {
+        const ref = `@${v.replace(/^@/, "")}`;
+        const message = !findMacro(macroRef(ref) || "")
+            ? `${ref} isn't a defined macro`
+            : expandMacros(ref).cycles.length
+            ? `${ref} refers to itself, so it can't be expanded`
+            : null;
+        if (message) issues.push({ filterId: "macros", severity: "error", message });
+    }
+    return issues;
+}
+
+/** Exclusions that rule out something the same search asks for. */
+function validateExclusions(
+    value: string,
+    { filters, baseQuery }: LintContext
+): LintIssue[] {
+    const issues: LintIssue[] = [];
+    const excluded = parseQuery(value).nodes;
+    if (excluded.length === 0) return issues;
+
+    const exact = fieldValue(filters, "exact");
+    const titleWords = [
+        ...filterValues(fieldValue(filters, "intitle")),
+        fieldValue(filters, "allintitle"),
+    ].filter(Boolean);
+    const tags = filterValues(fieldValue(filters, "hashtag")).map((t) =>
+        t.replace(/^#/, "").toLowerCase()
+    );
+    const alternatives = filterValues(fieldValue(filters, "anyof")).map((a) =>
+        a.toLowerCase()
+    );
+    // Only the plain words: operators in the box are the filters themselves
+    const searched = parseQuery(stripOperators(baseQuery))
+        .nodes.filter((n) => !n.negated)
+        .map(nodeText)
+        .filter((t): t is string => t !== null);
+
+    const error = (message: string) =>
+        issues.push({ filterId: "exclude", severity: "error", message });
+
+    for (const node of excluded) {
+        const shown = formatNode({ ...node, negated: false });
+
+        if (node.kind === "hashtag") {
+            if (tags.includes(node.tag.toLowerCase()))
+                error(`${shown} is both required and excluded`);
+            continue;
+        }
+
+        const text = nodeText(node);
+        if (!text) continue;
+
+        if (searched.some((s) => containsWords(s, text))) {
+            error(`${shown} is in your search and excluded — it cancels the search`);
+        } else if (exact && containsWords(exact, text)) {
+            error(`${shown} is part of the exact phrase and excluded`);
+        } else if (titleWords.some((w) => containsWords(w, text))) {
+            error(`${shown} is required in the title and excluded`);
+        } else if (alternatives.includes(text)) {
+            issues.push({
+                filterId: "exclude",
+                severity:
+                    alternatives.every((a) =>
+                        excluded.some((n) => nodeText(n) === a)
+                    )
+                        ? "error"
+                        : "warning",
+                message: `${shown} rules out one of the Any Of alternatives`,
+            });
+        }
+    }
+
+    return issues;
+}
+
+// ─── Filters ↔ AST ───────────────────────────────────────────────────
+
+interface FilterNode {
+    config: TextFilterConfig;
+    node: QueryNode;
+}
+
+/**
+ * Expand active filters into query AST nodes, in filter order — except
+ * `last` filters, which go at the end.
+ */
+function filtersToNodes(filters: ActiveTextFilter[]): FilterNode[] {
+    const out: FilterNode[] = [];
 
     for (const f of filters) {
         const config = TEXT_FILTERS.find((c) => c.id === f.id);
         if (!config || !f.value.trim()) continue;
-
-        const val = f.value.trim();
-
-        switch (config.id) {
-            case "exact":
-                parts.push(`"${val}"`);
-                break;
-            case "exclude":
-                val.split(/\s+/).forEach((word) => parts.push(`-${word}`));
-                break;
-            case "hashtag":
-                parts.push(`#${val}`);
-                break;
-            default:
-                parts.push(`${config.operator}${val}`);
+        for (const node of buildNodes(config, f.value.trim())) {
+            out.push({ config, node });
         }
     }
 
-    return parts.join(" ");
+    return [
+        ...out.filter((p) => !p.config.last),
+        ...out.filter((p) => p.config.last),
+    ];
+}
+
+/**
+ * The filter that owns a parsed node and the field text it stands for,
+ * or null when the node is part of the user's plain search terms.
+ */
+function nodeOwner(
+    node: QueryNode
+): { config: TextFilterConfig; value: string } | null {
+    for (const config of TEXT_FILTERS) {
+        const value = parseNode(config, node);
+        if (value !== null) return { config, value };
+    }
+    return null;
+}
+
+// ─── Query String Builder ────────────────────────────────────────────
+
+export function buildQueryString(filters: ActiveTextFilter[]): string {
+    return formatQuery(filtersToNodes(filters).map(({ node }) => node));
 }
 
 // ─── Query String Parser ─────────────────────────────────────────────
 
+/**
+ * Read the managed operators in a query back into filters. Repeated
+ * operators of a `multiple` filter combine into one filter
+ * (`intitle:a intitle:b` → In Title "a b"); other repeats stay separate.
+ */
 export function parseQueryFilters(query: string): ActiveTextFilter[] {
     const filters: ActiveTextFilter[] = [];
+    const combined = new Map<string, ActiveTextFilter>();
+
+    for (const node of parseQuery(query).nodes) {
+        const owner = nodeOwner(node);
+        if (!owner) continue;
+        const { config, value } = owner;
+
+        const existing = combined.get(config.id);
+        if (existing) {
+            existing.value += ` ${value}`;
+            continue;
+        }
+        const filter = { id: config.id, value };
+        if (config.multiple) combined.set(config.id, filter);
+        filters.push(filter);
+    }
+
+    return filters;
+}
 
-    const afterMatch = query.match(/after:(\S+)/);
-    if (afterMatch) filters.push({ id: "after", value: afterMatch[1] });
+// ─── Relative Dates ──────────────────────────────────────────────────
+
+/**
+ * Replace a relative date filter with the concrete after:/before:
+ * filters it resolves to at `now`. The expression wins over a fixed
+ * date on the same bound; an unrecognised expression is dropped.
+ */
+export function resolveRelativeDates(
+    filters: ActiveTextFilter[],
+    now: Date = new Date()
+): ActiveTextFilter[] {
+    const relative = filters.find((f) => f.id === "relative" && f.value.trim());
+    const rest = filters.filter((f) => f.id !== "relative");
+    if (!relative) return rest;
+
+    const range = resolveRelativeDate(relative.value, now);
+    if (!range) return rest;
+
+    const resolved: ActiveTextFilter[] = [];
+    if (range.after) resolved.push({ id: "after", value: range.after });
+    if (range.before) resolved.push({ id: "before", value: range.before });
+
+    return [
+        ...resolved,
+        ...rest.filter(
+            (f) =>
+                !(f.id === "after" && range.after) &&
+                !(f.id === "before" && range.before)
+        ),
+    ];
+}
+
+// ─── Strip Operators ─────────────────────────────────────────────────
+
+/**
+ * Strip all YSP-managed operators from a query string,
+ * leaving only the user's "plain" search terms.
+ */
+export function stripOperators(query: string): string {
+    return formatQuery(
+        parseQuery(query).nodes.filter((node) => {
+            const owner = TEXT_FILTERS.find((config) =>
+                config.strip
+                    ? config.strip(node)
+                    : parseNode(config, node) !== null
+            );
+            return !owner;
+        })
+    );
+}
 
-    const beforeMatch = query.match(/before:(\S+)/);
-    if (beforeMatch) filters.push({ id: "before", value: beforeMatch[1] });
+// ─── Query Operators ─────────────────────────────────────────────────
 
-    const intitleMatch = query.match(/intitle:(\S+)/);
-    if (intitleMatch) filters.push({ id: "intitle", value: intitleMatch[1] });
+export interface QueryOperator {
+    filterId: string;
+    label: string;
+    value: string;
+    /** The query with this operator removed */
+    without: string;
+}
 
-    const exactMatches = query.match(/"([^"]+)"/g);
-    if (exactMatches) {
-        exactMatches.forEach((m) => {
-            filters.push({ id: "exact", value: m.replace(/"/g, "") });
+/**
+ * List the managed operators in a query (one per node, in order), each
+ * with the query it leaves behind when removed.
+ */
+export function describeQueryOperators(query: string): QueryOperator[] {
+    const nodes = parseQuery(query).nodes;
+    const out: QueryOperator[] = [];
+
+    nodes.forEach((node, i) => {
+        const config = nodeOwner(node)?.config;
+        if (!config) return;
+        out.push({
+            filterId: config.id,
+            label: config.previewLabel || config.label,
+            value: previewValues(config, node).join(" | "),
+            without: formatQuery(nodes.filter((_, j) => j !== i)),
         });
+    });
+
+    return out;
+}
+
+// ─── Search Box Sync ─────────────────────────────────────────────────
+
+/**
+ * Panel field values for the operators in a query, keyed by filter id.
+ * A repeated single-value operator keeps its last value (exclusions and
+ * multi-value operators are already combined by parseQueryFilters).
+ */
+export function queryFieldValues(query: string): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const f of parseQueryFilters(query)) values[f.id] = f.value;
+    return values;
+}
+
+/**
+ * Fields whose operator changed between two versions of the search box
+ * text, mapped to their new value ("" when the operator was removed).
+ * Fields neither version mentions are left out, so saved values that
+ * aren't in the box survive the user typing plain words.
+ */
+export function changedFieldValues(
+    prev: string,
+    next: string
+): Record<string, string> {
+    const before = queryFieldValues(prev);
+    const after = queryFieldValues(next);
+    const changed: Record<string, string> = {};
+    for (const id of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        if ((before[id] ?? "") !== (after[id] ?? "")) changed[id] = after[id] ?? "";
     }
+    return changed;
+}
+
+/**
+ * Search box text with its operators replaced by the given filters:
+ * plain terms stay, then the filters as operators. Relative dates
+ * aren't written (they resolve at search time).
+ */
+export function applyFiltersToQuery(
+    query: string,
+    filters: ActiveTextFilter[]
+): string {
+    return [stripOperators(query), buildQueryString(filters)]
+        .filter(Boolean)
+        .join(" ");
+}
 
-    const excludeMatches = query.match(/(?:^|\s)-(\S+)/g);
-    if (excludeMatches) {
-        const words = excludeMatches.map((m) => m.trim().replace(/^-/, ""));
-        if (words.length)
-            filters.push({ id: "exclude", value: words.join(" ") });
+// ─── Merging Typed + Saved ───────────────────────────────────────────
+
+/** Filters that take a single value: a second one conflicts instead of adding. */
+const SINGLE_VALUE_FILTERS = new Set(["after", "before"]);
+
+export interface QueryConflict {
+    filterId: string;
+    /** Value typed in the search box — this one is kept */
+    typed: string;
+    /** Saved filter value — dropped for this search */
+    saved: string;
+}
+
+export interface MergedQuery {
+    query: string;
+    /** Saved filter nodes skipped because the typed query already has them */
+    duplicates: number;
+    conflicts: QueryConflict[];
+}
+
+/**
+ * Decide which saved filter nodes still apply next to a typed query.
+ * Rule: what's typed in the search box wins. Saved nodes the user
+ * already typed are skipped, and a saved single-value operator
+ * (after:, before:) is dropped when one was typed.
+ */
+function mergeNodes(typed: QueryNode[], saved: ActiveTextFilter[]) {
+    const key = (node: QueryNode) => formatNode(node).toLowerCase();
+    const typedKeys = new Set(typed.map(key));
+    const typedSingles = new Map<string, OperatorNode>();
+    for (const node of typed) {
+        const id = nodeOwner(node)?.config.id;
+        if (id && SINGLE_VALUE_FILTERS.has(id) && !typedSingles.has(id))
+            typedSingles.set(id, node as OperatorNode);
     }
 
-    const channelMatch = query.match(/channel:(\S+)/);
-    if (channelMatch) filters.push({ id: "channel", value: channelMatch[1] });
+    const kept: { config: TextFilterConfig; node: QueryNode }[] = [];
+    const overridden = new Set<QueryNode>();
+    const conflicts: QueryConflict[] = [];
+    let duplicates = 0;
 
-    const hashtagMatch = query.match(/#(\S+)/);
-    if (hashtagMatch) filters.push({ id: "hashtag", value: hashtagMatch[1] });
+    const pairs = filtersToNodes(saved);
+    for (const pair of pairs) {
+        if (typedKeys.has(key(pair.node))) {
+            duplicates++;
+            continue;
+        }
+        const clash = typedSingles.get(pair.config.id);
+        if (clash && pair.node.kind === "operator") {
+            if (clash.value === pair.node.value) {
+                duplicates++;
+                continue;
+            }
+            conflicts.push({
+                filterId: pair.config.id,
+                typed: clash.value,
+                saved: pair.node.value,
+            });
+            overridden.add(pair.node);
+            continue;
+        }
+        kept.push(pair);
+    }
 
-    return filters;
+    return { pairs, kept, overridden, conflicts, duplicates, typedSingles };
 }
 
-// ─── Strip Operators ─────────────────────────────────────────────────
+/**
+ * Combine what the user typed with the saved filters. The typed text is
+ * kept as written (operators included); saved filters are appended
+ * unless they duplicate or conflict with it, see mergeNodes().
+ */
+export function mergeQuery(
+    typed: string,
+    saved: ActiveTextFilter[]
+): MergedQuery {
+    const { kept, conflicts, duplicates } = mergeNodes(
+        parseQuery(typed).nodes,
+        saved
+    );
+    const query = [typed.trim(), formatQuery(kept.map(({ node }) => node))]
+        .filter(Boolean)
+        .join(" ");
+    return { query, duplicates, conflicts };
+}
 
 /**
- * Strip all YSP-managed operators from a query string,
- * leaving only the user's "plain" search terms.
+ * Typed text without its `channel:` operators for `path`. On a strict
+ * channel search the channel is the page searched, not an operator.
  */
-export function stripOperators(query: string): string {
-    return query
-        .replace(/after:\S+/g, "")
-        .replace(/before:\S+/g, "")
-        .replace(/intitle:\S+/g, "")
-        .replace(/"[^"]+"/g, "")
-        .replace(/channel:\S+/g, "")
-        .replace(/#\S+/g, "")
-        .replace(/(?:^|\s)-\S+/g, "")
-        .replace(/\s+/g, " ")
-        .trim();
+export function stripChannelOperator(query: string, path: string): string {
+    const kept: string[] = [];
+    let pos = 0;
+    for (const node of parseQuery(query).nodes) {
+        if (
+            node.kind === "operator" &&
+            !node.negated &&
+            node.name.toLowerCase() === "channel" &&
+            resolveChannelPath(node.value) === path
+        ) {
+            kept.push(query.slice(pos, node.span.start));
+            pos = node.span.end;
+        }
+    }
+    kept.push(query.slice(pos));
+    return kept
+        .map((text) => text.trim())
+        .filter(Boolean)
+        .join(" ");
 }
 
 // ─── CSV Escape ──────────────────────────────────────────────────────
@@ -237,79 +888,123 @@ export function csvEscape(value: string): string {
     return value;
 }
 
+// ─── Strict Channel ──────────────────────────────────────────────────
+
+/**
+ * The channel page a strict channel filter searches on, or null when
+ * it can't be used there — a display name, or several channels (those
+ * stay as channel: boosts).
+ */
+export function strictChannelPath(channel: ActiveTextFilter): string | null {
+    const values = filterValues(channel.value);
+    return values.length === 1 ? resolveChannelPath(values[0]) : null;
+}
+
 // ─── Query Preview Builder ───────────────────────────────────────────
 
 export interface PreviewLine {
-    connector: "" | "AND" | "NOT";
+    connector: "" | "AND" | "OR" | "NOT";
     label: string;
     value: string;
+    /** Explains a typed-vs-saved conflict rather than adding a filter */
+    conflict?: boolean;
 }
 
 export function buildPreviewLines(
     filters: ActiveTextFilter[],
-    options?: { excludeShorts?: boolean },
+    options?: {
+        excludeShorts?: boolean;
+        native?: NativeFilters;
+        now?: Date;
+        strictChannel?: boolean;
+        /** Current search box text; saved filters are merged into it */
+        typed?: string;
+    },
 ): PreviewLine[] {
     const lines: PreviewLine[] = [];
 
-    for (const f of filters) {
-        const config = TEXT_FILTERS.find((c) => c.id === f.id);
-        if (!config || !f.value.trim()) continue;
+    // Strict channel mode searches on the channel's own page instead,
+    // so the channel isn't part of the query
+    const channel = filters.find((f) => f.id === "channel" && f.value.trim());
+    const channelPath =
+        options?.strictChannel && channel ? strictChannelPath(channel) : null;
+    const queryFilters = channelPath
+        ? filters.filter((f) => f !== channel)
+        : filters;
+    const merge = options?.typed?.trim()
+        ? mergeNodes(parseQuery(options.typed).nodes, queryFilters)
+        : null;
+
+    if (channelPath) {
+        lines.push({
+            connector: "",
+            label: "Only channel",
+            value: channelLabel(channelPath),
+        });
+    }
 
-        const val = f.value.trim();
-
-        switch (config.id) {
-            case "exact":
-                lines.push({
-                    connector: lines.length ? "AND" : "",
-                    label: "Exact",
-                    value: `"${val}"`,
-                });
-                break;
-            case "exclude":
-                val.split(/\s+/).forEach((word) => {
-                    lines.push({
-                        connector: "NOT",
-                        label: "Exclude",
-                        value: word,
-                    });
-                });
-                break;
-            case "after":
-                lines.push({
-                    connector: lines.length ? "AND" : "",
-                    label: "After",
-                    value: val,
-                });
-                break;
-            case "before":
-                lines.push({
-                    connector: lines.length ? "AND" : "",
-                    label: "Before",
-                    value: val,
-                });
-                break;
-            case "intitle":
-                lines.push({
-                    connector: lines.length ? "AND" : "",
-                    label: "In Title",
-                    value: val,
-                });
-                break;
-            case "channel":
-                lines.push({
-                    connector: lines.length ? "AND" : "",
-                    label: "Boost Channel",
-                    value: val,
-                });
-                break;
-            case "hashtag":
-                lines.push({
-                    connector: lines.length ? "AND" : "",
-                    label: "Hashtag",
-                    value: `#${val}`,
-                });
-                break;
-        }
+    // Relative dates: show the expression alongside what it resolves to today
+    const relative = filters.find((f) => f.id === "relative" && f.value.trim());
+    if (relative) {
+        const expr = relative.value.trim();
+        const range = resolveRelativeDate(expr, options?.now);
+        const resolved = range
+            ? [
+                  range.after && `after:${range.after}`,
+                  range.before && `before:${range.before}`,
+              ]
+                  .filter(Boolean)
+                  .join(" ")
+            : "not recognised";
+        // A typed after:/before: replaces that bound, same as fixed dates
+        const overridden = (["after", "before"] as const).filter(
+            (bound) => range?.[bound] && merge?.typedSingles.has(bound)
+        );
+        const note = overridden.length
+            ? ` (typed ${overridden.map((b) => `${b}:`).join(" ")} wins)`
+            : "";
+        const config = TEXT_FILTERS.find((c) => c.id === "relative")!;
+        lines.push({
+            connector: lines.length ? "AND" : "",
+            label: config.previewLabel || config.label,
+            value: `${expr} → ${resolved}${note}`,
+        });
+    }
+
+    // Saved filters already in the search box still show; ones a typed
+    // operator overrides are replaced by a conflict note below
+    for (const { config, node } of merge?.pairs ||
+        filtersToNodes(queryFilters)) {
+        if (merge?.overridden.has(node)) continue;
+
+        // Alternatives (OR groups) get one line each, chained with OR
+        previewValues(config, node).forEach((value, i) => {
+            lines.push({
+                connector:
+                    i > 0 ? "OR" : node.negated ? "NOT" : lines.length ? "AND" : "",
+                label: config.previewLabel || config.label,
+                value,
+            });
+        });
+    }
+
+    // Typed operators win over saved ones; say which saved value was dropped
+    for (const c of merge?.conflicts || []) {
+        const config = TEXT_FILTERS.find((f) => f.id === c.filterId)!;
+        lines.push({
+            connector: "",
+            label: config.previewLabel || config.label,
+            value: `typed ${c.typed} replaces saved ${c.saved}`,
+            conflict: true,
+        });
+    }
+
+    // Channel search pages don't take sp=, so native filters are dropped there
+    if (channelPath) return lines;
+
+    // Native sp= filters apply alongside the text operators
+    for (const { label, value } of describeNativeFilters(options?.native || {})) {
+        lines.push({ connector: lines.length ? "AND" : "", label, value });
     }
 
     if (options?.excludeShorts) {
@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { escapeHTML } from "./html";
+
+describe("escapeHTML", () => {
+    it("escapes markup and attribute quotes", () => {
+        expect(escapeHTML('<img src=x onerror="alert(1)">')).toBe(
+            "&lt;img src=x onerror=&quot;alert(1)&quot;&gt;"
+        );
+    });
+
+    it("escapes ampersands first, so entities aren't double-read", () => {
+        expect(escapeHTML("&lt; & >")).toBe("&amp;lt; &amp; &gt;");
+    });
+
+    it("leaves plain text alone", () => {
+        expect(escapeHTML("pixel 10 review")).toBe("pixel 10 review");
+    });
+});
@@ -0,0 +1,16 @@
+/**
+ * YouTube Search Plus — HTML Escaping
+ *
+ * The panels and modals build their markup from innerHTML templates.
+ * Anything that didn't come from the extension itself — filter values,
+ * template names, text read from a URL — goes through escapeHTML() first.
+ */
+
+/** Escape text for use in HTML content or a double-quoted attribute. */
+export function escapeHTML(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
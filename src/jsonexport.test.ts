@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import {
+    RESULTS_SCHEMA,
+    RESULTS_SCHEMA_VERSION,
+    buildEnvelope,
+    buildRecord,
+    formatResults,
+    type ExportSource,
+} from "./jsonexport";
+import { type VideoResult } from "./scrape";
+import { encodeSearchParams } from "./sp";
+
+const RESULTS: VideoResult[] = [
+    {
+        title: "Pixel 10 review",
+        url: "https://www.youtube.com/watch?v=aaaaaaaaaaa",
+        channel: "MKBHD",
+        views: "1.2M views",
+        published: "3 weeks ago",
+        duration: "12:34",
+    },
+    {
+        title: "Pixel 10 vs iPhone",
+        url: "https://www.youtube.com/watch?v=bbbbbbbbbbb",
+        channel: "The Verge",
+        views: "800K views",
+        published: "1 month ago",
+        duration: "",
+    },
+];
+
+const SOURCE: ExportSource = {
+    query: "pixel 10 intitle:review after:2026-01-01",
+    sp: encodeSearchParams({ sort: "date", features: ["4k"] }),
+    channel: null,
+    exportedAt: new Date("2026-10-19T12:00:00Z"),
+    extensionVersion: "1.1.1",
+};
+
+describe("buildEnvelope", () => {
+    it("describes the search: parsed filters and decoded sp=", () => {
+        expect(buildEnvelope(SOURCE, ["title", "url"], 2)).toEqual({
+            schema: RESULTS_SCHEMA,
+            version: RESULTS_SCHEMA_VERSION,
+            exportedAt: "2026-10-19T12:00:00.000Z",
+            extensionVersion: "1.1.1",
+            search: {
+                query: SOURCE.query,
+                filters: [
+                    { id: "intitle", value: "review" },
+                    { id: "after", value: "2026-01-01" },
+                ],
+                sp: SOURCE.sp,
+                native: { sort: "date", features: ["4k"] },
+                channel: null,
+            },
+            fields: ["title", "url"],
+            count: 2,
+        });
+    });
+
+    it("has no native filters without sp=", () => {
+        const envelope = buildEnvelope({ ...SOURCE, sp: null }, [], 0);
+        expect(envelope.search.sp).toBeNull();
+        expect(envelope.search.native).toEqual({});
+    });
+});
+
+describe("buildRecord", () => {
+    it("keeps numbers, flags and badge lists typed", () => {
+        const result: VideoResult = {
+            ...RESULTS[0],
+            rank: 3,
+            viewCount: 1200000,
+            verified: true,
+            badges: ["New", "4K"],
+        };
+        expect(
+            buildRecord(result, ["rank", "viewCount", "verified", "badges", "isShort"], 1)
+        ).toEqual({
+            position: 1,
+            rank: 3,
+            viewCount: 1200000,
+            verified: true,
+            badges: ["New", "4K"],
+            isShort: null,
+        });
+    });
+
+    it("records a channel result's type, with video-only fields null", () => {
+        const channel: VideoResult = {
+            title: "MKBHD",
+            url: "https://www.youtube.com/@mkbhd",
+            channel: "MKBHD",
+            views: "",
+            published: "",
+            duration: "",
+            channelHandle: "mkbhd",
+            resultType: "channel",
+        };
+        expect(
+            buildRecord(channel, ["resultType", "channelHandle", "viewCount"], 2)
+        ).toEqual({
+            position: 2,
+            resultType: "channel",
+            channelHandle: "mkbhd",
+            viewCount: null,
+        });
+    });
+});
+
+describe("formatResults", () => {
+    const fields: (keyof VideoResult)[] = ["title", "duration", "sourceChannel"];
+
+    it("writes one JSON document with every result", () => {
+        const file = JSON.parse(formatResults("json", RESULTS, fields, SOURCE));
+        expect(file.schema).toBe(RESULTS_SCHEMA);
+        expect(file.results).toHaveLength(2);
+        expect(file.results[0]).toEqual({
+            position: 1,
+            title: "Pixel 10 review",
+            duration: "12:34",
+            sourceChannel: null,
+        });
+    });
+
+    it("writes JSON Lines: the envelope, then one result per line", () => {
+        const text = formatResults("jsonl", RESULTS, fields, SOURCE);
+        expect(text.endsWith("\n")).toBe(true);
+        const lines = text.trimEnd().split("\n").map((l) => JSON.parse(l));
+        expect(lines.map((l) => l.record)).toEqual(["envelope", "result", "result"]);
+        expect(lines[0].count).toBe(2);
+        expect(lines[2]).toEqual({
+            record: "result",
+            position: 2,
+            title: "Pixel 10 vs iPhone",
+            duration: "",
+            sourceChannel: null,
+        });
+    });
+});
@@ -0,0 +1,135 @@
+/**
+ * YouTube Search Plus — JSON Export
+ *
+ * Exported results as JSON (one document) or JSON Lines (one object per
+ * line). Both share one schema, `youtube-search-plus/results`:
+ *
+ *   Envelope — the search the results came from
+ *     schema            "youtube-search-plus/results"
+ *     version           schema version (RESULTS_SCHEMA_VERSION)
+ *     exportedAt        ISO 8601 timestamp
+ *     extensionVersion  version of the extension that wrote the file
+ *     search.query      the query as searched, operators included
+ *     search.filters    operators read back from the query: [{ id, value }]
+ *                       with the panel's filter ids (intitle, channel, …)
+ *     search.sp         YouTube's sp= parameter, or null
+ *     search.native     sp= decoded: { sort, uploadDate, type, duration,
+ *                       features } — keys present only when set
+ *     search.channel    channel path for a channel's search page, or null
+ *     fields            the record keys, in column order
+ *     count             number of records
+ *
+ *   Record — one per result, keyed by the VideoResult field names
+ *     position          1-based position in the export (rank is the
+ *                       position on the results page, when selected)
+ *     <field>           each selected field; text as shown on YouTube,
+ *                       except viewCount, durationSeconds and rank
+ *                       (numbers), uploadDate* (YYYY-MM-DD), verified and
+ *                       isShort (booleans) and badges (array of names);
+ *                       null when absent. resultType is "video", "short",
+ *                       "channel", "playlist" or "mix"
+ *
+ * JSON writes `{ ...envelope, results: [records] }`. JSON Lines writes
+ * the envelope first, then one record per line; every line carries
+ * `record: "envelope" | "result"` so lines can be told apart on their own.
+ *
+ * The version goes up only for changes that break readers (a key
+ * renamed, removed or retyped); new keys may appear in any version.
+ */
+
+import { type ActiveTextFilter, parseQueryFilters } from "./filters";
+import { type NativeFilters, decodeSearchParams } from "./sp";
+import type { VideoResult } from "./scrape";
+
+export const RESULTS_SCHEMA = "youtube-search-plus/results";
+export const RESULTS_SCHEMA_VERSION = 1;
+
+/** Where exported results came from. */
+export interface ExportSource {
+    query: string;
+    /** sp= parameter of the results page, if any */
+    sp: string | null;
+    /** Channel path when exported from a channel's search page */
+    channel: string | null;
+    exportedAt: Date;
+    extensionVersion: string;
+}
+
+export interface ResultsEnvelope {
+    schema: typeof RESULTS_SCHEMA;
+    version: number;
+    exportedAt: string;
+    extensionVersion: string;
+    search: {
+        query: string;
+        filters: ActiveTextFilter[];
+        sp: string | null;
+        native: NativeFilters;
+        channel: string | null;
+    };
+    fields: (keyof VideoResult)[];
+    count: number;
+}
+
+export type ResultRecord = { position: number } & {
+    [K in keyof VideoResult]?: VideoResult[K] | null;
+};
+
+export type JSONExportFormat = "json" | "jsonl";
+
+// ─── Building ────────────────────────────────────────────────────────
+
+export function buildEnvelope(
+    source: ExportSource,
+    fields: (keyof VideoResult)[],
+    count: number
+): ResultsEnvelope {
+    return {
+        schema: RESULTS_SCHEMA,
+        version: RESULTS_SCHEMA_VERSION,
+        exportedAt: source.exportedAt.toISOString(),
+        extensionVersion: source.extensionVersion,
+        search: {
+            query: source.query,
+            filters: parseQueryFilters(source.query),
+            sp: source.sp || null,
+            native: (source.sp && decodeSearchParams(source.sp)) || {},
+            channel: source.channel,
+        },
+        fields,
+        count,
+    };
+}
+
+export function buildRecord(
+    result: VideoResult,
+    fields: (keyof VideoResult)[],
+    position: number
+): ResultRecord {
+    return {
+        position,
+        ...Object.fromEntries(fields.map((key) => [key, result[key] ?? null])),
+    };
+}
+
+// ─── Serializing ─────────────────────────────────────────────────────
+
+/** File contents for results in a JSON format. */
+export function formatResults(
+    format: JSONExportFormat,
+    results: VideoResult[],
+    fields: (keyof VideoResult)[],
+    source: ExportSource
+): string {
+    const envelope = buildEnvelope(source, fields, results.length);
+    const records = results.map((r, i) => buildRecord(r, fields, i + 1));
+
+    if (format === "json") {
+        return JSON.stringify({ ...envelope, results: records }, null, 2);
+    }
+    const lines = [
+        { record: "envelope", ...envelope },
+        ...records.map((r) => ({ record: "result", ...r })),
+    ].map((line) => JSON.stringify(line));
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import { lintFilters, hasLintErrors } from "./lint";
+
+const NOW = new Date(2024, 5, 15); // Sat 15 June 2024
+
+const summary = (...args: Parameters<typeof lintFilters>) =>
+    lintFilters(...args).map((i) => [i.filterId, i.severity]);
+
+// ── Dates ────────────────────────────────────────────────────────────
+
+describe("lintFilters: dates", () => {
+    it("errors when After is later than Before", () => {
+        const issues = lintFilters(
+            [
+                { id: "after", value: "2024-06-01" },
+                { id: "before", value: "2024-01-01" },
+            ],
+            "",
+            NOW
+        );
+        expect(issues).toEqual([
+            {
+                filterId: "before",
+                severity: "error",
+                message:
+                    "After (2024-06-01) is later than Before (2024-01-01) — nothing can match",
+            },
+        ]);
+    });
+
+    it("warns when both bounds are the same day", () => {
+        expect(
+            summary(
+                [
+                    { id: "after", value: "2024-01-01" },
+                    { id: "before", value: "2024-01-01" },
+                ],
+                "",
+                NOW
+            )
+        ).toEqual([["before", "warning"]]);
+    });
+
+    it("checks the bounds a relative date resolves to", () => {
+        expect(
+            summary(
+                [
+                    { id: "relative", value: "last 7 days" },
+                    { id: "before", value: "2024-01-01" },
+                ],
+                "",
+                NOW
+            )
+        ).toEqual([["relative", "error"]]);
+    });
+
+    it("warns about an unrecognised relative date", () => {
+        expect(
+            summary([{ id: "relative", value: "someday" }], "", NOW)
+        ).toEqual([["relative", "warning"]]);
+    });
+
+    it("accepts a valid range", () => {
+        expect(
+            lintFilters(
+                [
+                    { id: "after", value: "2024-01-01" },
+                    { id: "before", value: "2024-06-01" },
+                ],
+                "",
+                NOW
+            )
+        ).toEqual([]);
+    });
+});
+
+// ── Exclusions ───────────────────────────────────────────────────────
+
+describe("lintFilters: exclusions", () => {
+    it("errors on excluding a word in the exact phrase", () => {
+        const issues = lintFilters([
+            { id: "exact", value: "how to mass delete" },
+            { id: "exclude", value: "Mass" },
+        ]);
+        expect(issues).toMatchObject([{ filterId: "exclude", severity: "error" }]);
+        expect(issues[0].message).toContain("exact phrase");
+    });
+
+    it("only matches whole words", () => {
+        expect(
+            lintFilters([
+                { id: "exact", value: "massive delete" },
+                { id: "exclude", value: "mass" },
+            ])
+        ).toEqual([]);
+    });
+
+    it("errors on excluding a word the search box asks for", () => {
+        const issues = lintFilters(
+            [{ id: "exclude", value: "tutorial" }],
+            "react tutorial intitle:hooks -live"
+        );
+        expect(issues).toHaveLength(1);
+        expect(issues[0].message).toContain("cancels the search");
+    });
+
+    it("ignores operators in the search box", () => {
+        expect(
+            lintFilters([{ id: "exclude", value: "live" }], "phone -live")
+        ).toEqual([]);
+    });
+
+    it("errors on excluding a required title word or hashtag", () => {
+        expect(
+            summary([
+                { id: "intitle", value: 'review "first look"' },
+                { id: "exclude", value: "look #tech" },
+                { id: "hashtag", value: "tech" },
+            ])
+        ).toEqual([
+            ["exclude", "error"],
+            ["exclude", "error"],
+        ]);
+    });
+
+    it("warns when some Any Of alternatives are excluded, errors when all are", () => {
+        expect(
+            summary([
+                { id: "anyof", value: "react vue" },
+                { id: "exclude", value: "vue" },
+            ])
+        ).toEqual([["exclude", "warning"]]);
+        expect(
+            hasLintErrors(
+                lintFilters([
+                    { id: "anyof", value: "react vue" },
+                    { id: "exclude", value: "vue react" },
+                ])
+            )
+        ).toBe(true);
+    });
+});
+
+// ── Hashtags ─────────────────────────────────────────────────────────
+
+describe("lintFilters: hashtags", () => {
+    it("errors on a hashtag with spaces", () => {
+        const issues = lintFilters([{ id: "hashtag", value: 'tech "home lab"' }]);
+        expect(issues).toEqual([
+            {
+                filterId: "hashtag",
+                severity: "error",
+                message: 'Hashtags can\'t contain spaces: "home lab"',
+            },
+        ]);
+    });
+
+    it("errors on punctuation in a hashtag", () => {
+        expect(summary([{ id: "hashtag", value: "#c++ rust" }])).toEqual([
+            ["hashtag", "error"],
+        ]);
+    });
+
+    it("accepts letters, digits and underscores", () => {
+        expect(
+            lintFilters([{ id: "hashtag", value: "#tech_2024 café" }])
+        ).toEqual([]);
+    });
+});
+
+// ── Template placeholders ────────────────────────────────────────────
+
+describe("lintFilters: placeholders", () => {
+    it("warns instead of checking a value until it's filled in", () => {
+        expect(lintFilters([{ id: "hashtag", value: "{{topic}}" }])).toEqual([
+            {
+                filterId: "hashtag",
+                severity: "warning",
+                message:
+                    "{{topic}} is filled in when a template is applied; searching now uses it as typed",
+            },
+        ]);
+    });
+});
+
+describe("hasLintErrors", () => {
+    it("ignores warnings", () => {
+        expect(
+            hasLintErrors([{ filterId: "relative", severity: "warning", message: "" }])
+        ).toBe(false);
+    });
+});
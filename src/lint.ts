@@ -0,0 +1,66 @@
+/**
+ * YouTube Search Plus — Filter Lint
+ *
+ * Checks a set of text filters (plus the query typed in the search box)
+ * for combinations that can't work: an After date later than Before,
+ * excluding a word the same search requires, malformed hashtags. Errors
+ * mean the search would return nothing or be mangled, and block saving;
+ * warnings flag something that's probably a mistake.
+ *
+ * The rules themselves are each filter's `validate` hook, see filters.ts.
+ * Values holding template placeholders (see variables.ts) get a warning
+ * instead, since they're only checked once filled in.
+ */
+
+import { type ActiveTextFilter, TEXT_FILTERS } from "./filters";
+import { findPlaceholders } from "./variables";
+
+export type LintSeverity = "error" | "warning";
+
+export interface LintIssue {
+    /** The filter field the issue is shown on */
+    filterId: string;
+    severity: LintSeverity;
+    message: string;
+}
+
+/** Everything a validator can check a value against. */
+export interface LintContext {
+    filters: ActiveTextFilter[];
+    /** Search box text */
+    baseQuery: string;
+    now: Date;
+}
+
+/**
+ * Check filters for conflicts with each other and with `baseQuery`
+ * (the search box text). Issues come back in panel field order.
+ * Validators run for every filter, set or not, so cross-field rules
+ * (After vs Before) can live on one of them.
+ */
+export function lintFilters(
+    filters: ActiveTextFilter[],
+    baseQuery = "",
+    now: Date = new Date()
+): LintIssue[] {
+    const context: LintContext = { filters, baseQuery, now };
+    return TEXT_FILTERS.flatMap((config) => {
+        const value = filters.find((f) => f.id === config.id)?.value.trim() || "";
+        // A value with placeholders is checked once they're filled in
+        const placeholders = findPlaceholders(value);
+        if (placeholders.length) {
+            return placeholders.map(
+                (placeholder): LintIssue => ({
+                    filterId: config.id,
+                    severity: "warning",
+                    message: `${placeholder} is filled in when a template is applied; searching now uses it as typed`,
+                })
+            );
+        }
+        return config.validate ? config.validate(value, context) : [];
+    });
+}
+
+export function hasLintErrors(issues: LintIssue[]): boolean {
+    return issues.some((i) => i.severity === "error");
+}
@@ -0,0 +1,219 @@
+/**
+ * YouTube Search Plus — Macro Manager (UI)
+ *
+ * Modal for defining @macros (see macros.ts): a list of the saved
+ * macros with delete buttons, and a name + expansion form that adds a
+ * macro or replaces the one with the same name. Macros are stored under
+ * `ysp_macros` and shared with the content script through setMacros().
+ */
+
+import {
+    type QueryMacro,
+    MACRO_NAME,
+    getMacros,
+    setMacros,
+    expandMacros,
+} from "./macros";
+import { escapeHTML } from "./html";
+
+export class MacroManager {
+    private modal: HTMLDivElement | null = null;
+    private onChange: () => void;
+
+    constructor(onChange: () => void) {
+        this.onChange = onChange;
+    }
+
+    /** Check if a DOM node is inside the modal (for outside-click exclusion). */
+    containsNode(node: Node): boolean {
+        return this.modal?.contains(node) ?? false;
+    }
+
+    /** Load saved macros into the shared definitions. */
+    async load() {
+        try {
+            const result = await chrome.storage.local.get("ysp_macros");
+            setMacros((result.ysp_macros as QueryMacro[] | undefined) || []);
+        } catch {
+            /* ignore */
+        }
+        this.onChange();
+    }
+
+    open() {
+        if (!this.modal) {
+            this.modal = this.buildModal();
+            document.body.appendChild(this.modal);
+        }
+        this.renderList();
+        this.setStatus("");
+        this.modal.classList.add("ysp-info-open");
+        document.body.style.overflow = "hidden";
+        setTimeout(
+            () =>
+                (this.modal?.querySelector("#ysp-macro-name") as HTMLElement)?.focus(),
+            50
+        );
+    }
+
+    close() {
+        this.modal?.classList.remove("ysp-info-open");
+        document.body.style.overflow = "";
+    }
+
+    // ── Modal builder ──
+
+    private buildModal(): HTMLDivElement {
+        const modal = document.createElement("div");
+        modal.id = "ysp-macro-modal";
+        modal.innerHTML = `
+            <div class="ysp-info-backdrop"></div>
+            <div class="ysp-info-content ysp-macro-content">
+                <div class="ysp-info-header">
+                    <h3>Macros</h3>
+                    <button class="ysp-info-close" id="ysp-macro-close" type="button">&times;</button>
+                </div>
+                <div class="ysp-macro-body">
+                    <div class="ysp-macro-list" id="ysp-macro-list"></div>
+                    <label class="ysp-template-modal-label" for="ysp-macro-name">Name</label>
+                    <input type="text" id="ysp-macro-name" placeholder="e.g. noreacts" maxlength="30" />
+                    <label class="ysp-template-modal-label" for="ysp-macro-expansion">Expands to</label>
+                    <input type="text" id="ysp-macro-expansion" placeholder="e.g. -reaction -react -shorts -meme" />
+                    <div class="ysp-multi-status" id="ysp-macro-status"></div>
+                    <div class="ysp-template-modal-actions">
+                        <button class="ysp-btn ysp-btn-clear" id="ysp-macro-done" type="button">Done</button>
+                        <button class="ysp-btn ysp-btn-apply" id="ysp-macro-save" type="button">Save Macro</button>
+                    </div>
+                </div>
+            </div>
+        `;
+
+        modal
+            .querySelector(".ysp-info-backdrop")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-macro-close")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-macro-done")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-macro-save")
+            ?.addEventListener("click", () => this.saveMacro());
+        modal
+            .querySelector("#ysp-macro-expansion")
+            ?.addEventListener("keydown", (e) => {
+                if ((e as KeyboardEvent).key === "Enter") this.saveMacro();
+            });
+
+        // Delete / edit via delegation
+        modal.querySelector("#ysp-macro-list")?.addEventListener("click", (e) => {
+            const target = e.target as HTMLElement;
+            const del = target.closest<HTMLElement>("[data-macro-delete]");
+            if (del) {
+                this.deleteMacro(del.dataset.macroDelete!);
+                return;
+            }
+            const row = target.closest<HTMLElement>("[data-macro]");
+            if (row) this.editMacro(row.dataset.macro!);
+        });
+
+        return modal;
+    }
+
+    private renderList() {
+        const list = this.modal?.querySelector("#ysp-macro-list");
+        if (!list) return;
+        const macros = getMacros();
+        list.innerHTML = macros.length
+            ? macros
+                  .map(
+                      (m) => `
+                <div class="ysp-macro-row" data-macro="${escapeHTML(m.name)}" title="Click to edit">
+                    <span class="ysp-macro-name">@${escapeHTML(m.name)}</span>
+                    <span class="ysp-macro-expansion">${escapeHTML(m.expansion)}</span>
+                    <button class="ysp-macro-delete" data-macro-delete="${escapeHTML(
+                        m.name
+                    )}" type="button" title="Delete macro">&times;</button>
+                </div>`
+                  )
+                  .join("")
+            : `<div class="ysp-macro-empty">No macros yet. Save one below, then type its @name in the search box.</div>`;
+    }
+
+    private setStatus(text: string) {
+        const status = this.modal?.querySelector("#ysp-macro-status");
+        if (!status) return;
+        status.textContent = text;
+        status.classList.toggle("ysp-multi-status--warn", !!text);
+    }
+
+    // ── Editing ──
+
+    private inputs() {
+        return {
+            name: this.modal?.querySelector("#ysp-macro-name") as HTMLInputElement,
+            expansion: this.modal?.querySelector(
+                "#ysp-macro-expansion"
+            ) as HTMLInputElement,
+        };
+    }
+
+    private editMacro(name: string) {
+        const macro = getMacros().find((m) => m.name === name);
+        if (!macro) return;
+        const inputs = this.inputs();
+        inputs.name.value = macro.name;
+        inputs.expansion.value = macro.expansion;
+        inputs.expansion.focus();
+    }
+
+    private saveMacro() {
+        const inputs = this.inputs();
+        const name = inputs.name.value.trim().replace(/^@/, "");
+        const expansion = inputs.expansion.value.trim();
+
+        if (!MACRO_NAME.test(name)) {
+            this.setStatus("Names can use letters, numbers, - and _ only.");
+            inputs.name.focus();
+            return;
+        }
+        if (!expansion) {
+            this.setStatus("Enter the search text the macro expands to.");
+            inputs.expansion.focus();
+            return;
+        }
+
+        // Same name (any case) — replace
+        const lower = name.toLowerCase();
+        const macros = [
+            ...getMacros().filter((m) => m.name.toLowerCase() !== lower),
+            { name, expansion },
+        ];
+        if (expandMacros(`@${name}`, macros).cycles.length) {
+            this.setStatus(`@${name} would end up referring to itself.`);
+            return;
+        }
+
+        this.store(macros);
+        inputs.name.value = "";
+        inputs.expansion.value = "";
+        this.setStatus("");
+        inputs.name.focus();
+    }
+
+    private deleteMacro(name: string) {
+        this.store(getMacros().filter((m) => m.name !== name));
+    }
+
+    private store(macros: QueryMacro[]) {
+        setMacros(macros);
+        try {
+            chrome.storage.local.set({ ysp_macros: macros });
+        } catch {
+            /* ignore */
+        }
+        this.renderList();
+        this.onChange();
+    }
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+    type QueryMacro,
+    expandMacros,
+    setMacros,
+    getMacros,
+    macroRef,
+} from "./macros";
+import { buildQueryString, buildPreviewLines, parseQueryFilters } from "./filters";
+import { lintFilters } from "./lint";
+
+const MACROS: QueryMacro[] = [
+    { name: "noreacts", expansion: "-reaction -react -shorts -meme" },
+    { name: "tut", expansion: "intitle:tutorial -beginner" },
+    { name: "clean", expansion: "@noreacts -clickbait" },
+    { name: "loop", expansion: "a @loop" },
+];
+
+// ── macroRef ─────────────────────────────────────────────────────────
+
+describe("macroRef", () => {
+    it("reads @name words", () => {
+        expect(macroRef("@noreacts")).toBe("noreacts");
+        expect(macroRef("@my-macro_2")).toBe("my-macro_2");
+    });
+
+    it("rejects other words", () => {
+        expect(macroRef("noreacts")).toBeNull();
+        expect(macroRef("@")).toBeNull();
+        expect(macroRef("a@b")).toBeNull();
+    });
+});
+
+// ── expandMacros ─────────────────────────────────────────────────────
+
+describe("expandMacros", () => {
+    it("expands a macro inline, keeping the rest as typed", () => {
+        expect(expandMacros("minecraft  @noreacts  2024", MACROS)).toEqual({
+            query: "minecraft  -reaction -react -shorts -meme  2024",
+            used: ["noreacts"],
+            cycles: [],
+        });
+    });
+
+    it("matches names case-insensitively", () => {
+        expect(expandMacros("@TUT python", MACROS).query).toBe(
+            "intitle:tutorial -beginner python"
+        );
+    });
+
+    it("expands nested macros", () => {
+        const result = expandMacros("@clean", MACROS);
+        expect(result.query).toBe("-reaction -react -shorts -meme -clickbait");
+        expect(result.used).toEqual(["clean", "noreacts"]);
+    });
+
+    it("leaves undefined names, negations, operators and phrases alone", () => {
+        const query = '@mkbhd -@noreacts channel:@tut "@tut"';
+        expect(expandMacros(query, MACROS)).toEqual({
+            query,
+            used: [],
+            cycles: [],
+        });
+    });
+
+    it("stops at a macro that refers to itself", () => {
+        expect(expandMacros("@loop", MACROS)).toEqual({
+            query: "a @loop",
+            used: ["loop"],
+            cycles: ["loop"],
+        });
+    });
+});
+
+// ── Macros filter ────────────────────────────────────────────────────
+
+describe("Macros filter", () => {
+    afterEach(() => setMacros([]));
+
+    it("drops invalid definitions", () => {
+        setMacros([
+            ...MACROS,
+            { name: "bad name", expansion: "x" },
+            { name: "empty", expansion: " " },
+        ]);
+        expect(getMacros()).toHaveLength(MACROS.length);
+    });
+
+    it("writes references that round-trip from the query", () => {
+        setMacros(MACROS);
+        const query = buildQueryString([{ id: "macros", value: "noreacts @tut" }]);
+        expect(query).toBe("@noreacts @tut");
+        expect(parseQueryFilters(`cats ${query} @mkbhd`)).toEqual([
+            { id: "macros", value: "@noreacts @tut" },
+        ]);
+    });
+
+    it("previews each macro expanded", () => {
+        setMacros(MACROS);
+        expect(
+            buildPreviewLines([{ id: "macros", value: "@clean @nope" }]).map(
+                (l) => l.value
+            )
+        ).toEqual([
+            "@clean → -reaction -react -shorts -meme -clickbait",
+            "@nope (not defined)",
+        ]);
+    });
+
+    it("flags undefined and self-referencing macros as errors", () => {
+        setMacros(MACROS);
+        expect(
+            lintFilters([{ id: "macros", value: "@tut @nope @loop" }]).map(
+                (i) => [i.filterId, i.severity, i.message]
+            )
+        ).toEqual([
+            ["macros", "error", "@nope isn't a defined macro"],
+            ["macros", "error", "@loop refers to itself, so it can't be expanded"],
+        ]);
+    });
+});
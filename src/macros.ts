@@ -0,0 +1,98 @@
+/**
+ * YouTube Search Plus — Query Macros
+ *
+ * A macro is a named bundle of search text, e.g. `@noreacts` →
+ * `-reaction -react -shorts -meme`. Macros are expanded inline at search
+ * time wherever `@name` appears as a whole word — typed in the search
+ * box or saved in the Macros field — and may refer to other macros.
+ * An `@word` that isn't a defined macro (like a channel handle) is left
+ * alone.
+ */
+
+import { parseQuery } from "./query";
+
+export interface QueryMacro {
+    /** Name without the leading @ (matched case-insensitively) */
+    name: string;
+    expansion: string;
+}
+
+export interface MacroExpansion {
+    query: string;
+    /** Macros expanded, outermost first */
+    used: string[];
+    /** Macros left unexpanded because they refer back to themselves */
+    cycles: string[];
+}
+
+export const MACRO_NAME = /^[\p{L}\p{N}_-]+$/u;
+
+// ─── Definitions ─────────────────────────────────────────────────────
+
+let definitions: QueryMacro[] = [];
+
+/** Replace the macro definitions used by default (loaded from storage). */
+export function setMacros(macros: QueryMacro[]) {
+    definitions = macros.filter(
+        (m) => MACRO_NAME.test(m.name) && m.expansion.trim()
+    );
+}
+
+export function getMacros(): QueryMacro[] {
+    return definitions;
+}
+
+export function findMacro(
+    name: string,
+    macros: QueryMacro[] = definitions
+): QueryMacro | undefined {
+    const lower = name.toLowerCase();
+    return macros.find((m) => m.name.toLowerCase() === lower);
+}
+
+/** The macro name in an `@name` word, or null if it isn't one. */
+export function macroRef(word: string): string | null {
+    return word[0] === "@" && MACRO_NAME.test(word.slice(1))
+        ? word.slice(1)
+        : null;
+}
+
+// ─── Expansion ───────────────────────────────────────────────────────
+
+/**
+ * Replace every defined `@name` word in a query with its expansion,
+ * recursively. Only whole, non-negated words are macros — `-@name`,
+ * `channel:@name` and text inside quotes stay as written.
+ */
+export function expandMacros(
+    query: string,
+    macros: QueryMacro[] = definitions
+): MacroExpansion {
+    const used: string[] = [];
+    const cycles: string[] = [];
+
+    const expand = (text: string, stack: string[]): string => {
+        let out = "";
+        let pos = 0;
+        for (const node of parseQuery(text).nodes) {
+            if (node.kind !== "term" || node.negated) continue;
+            const name = macroRef(node.text);
+            const macro = name ? findMacro(name, macros) : undefined;
+            if (!macro) continue;
+
+            const key = macro.name.toLowerCase();
+            let replacement = node.text;
+            if (stack.includes(key)) {
+                if (!cycles.includes(macro.name)) cycles.push(macro.name);
+            } else {
+                if (!used.includes(macro.name)) used.push(macro.name);
+                replacement = expand(macro.expansion.trim(), [...stack, key]);
+            }
+            out += text.slice(pos, node.span.start) + replacement;
+            pos = node.span.end;
+        }
+        return out + text.slice(pos);
+    };
+
+    return { query: expand(query, []), used, cycles };
+}
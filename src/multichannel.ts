@@ -0,0 +1,471 @@
+/**
+ * YouTube Search Plus — Multi-Channel Search (UI)
+ *
+ * Modal that runs one query against a list of channels. Each channel's
+ * own search page is loaded in an off-screen iframe, scraped with the
+ * same scrapeResults() the exporter uses, and the batches are merged
+ * into one de-duplicated list that can be handed to the export panel.
+ */
+
+import { type VideoResult, countResults, scrapeResults } from "./scrape";
+import { channelSearchUrl, channelLabel } from "./channel";
+import {
+    type ChannelSet,
+    type ChannelBatch,
+    parseChannelList,
+    mergeChannelResults,
+} from "./fanout";
+import { escapeHTML } from "./html";
+
+const PER_CHANNEL_OPTIONS = [10, 20, 30];
+
+/** Poll interval while a channel page loads */
+const POLL_MS = 300;
+/** Give up on a channel that shows no results after this long */
+const EMPTY_TIMEOUT_MS = 10000;
+/** Stop scrolling after this many polls without new results */
+const MAX_STALE = 6;
+
+export class MultiChannelSearch {
+    private modal: HTMLDivElement | null = null;
+    private sets: ChannelSet[] = [];
+    private results: VideoResult[] = [];
+    private query = "";
+    private abortController: AbortController | null = null;
+    private onExport: (results: VideoResult[], query: string) => void;
+
+    constructor(onExport: (results: VideoResult[], query: string) => void) {
+        this.onExport = onExport;
+    }
+
+    /** Check if a DOM node is inside the modal (for outside-click exclusion). */
+    containsNode(node: Node): boolean {
+        return this.modal?.contains(node) ?? false;
+    }
+
+    open(query: string, channels = "") {
+        if (!this.modal) {
+            this.modal = this.buildModal();
+            document.body.appendChild(this.modal);
+            this.loadSets();
+        }
+
+        const queryInput = this.modal.querySelector(
+            "#ysp-multi-query"
+        ) as HTMLInputElement;
+        if (query) queryInput.value = query;
+        const channelsInput = this.modal.querySelector(
+            "#ysp-multi-channels"
+        ) as HTMLTextAreaElement;
+        if (channels && !channelsInput.value.trim()) channelsInput.value = channels;
+        this.validateChannels();
+
+        this.modal.classList.add("ysp-info-open");
+        document.body.style.overflow = "hidden";
+        setTimeout(() => (query ? channelsInput : queryInput).focus(), 50);
+    }
+
+    close() {
+        this.abortController?.abort();
+        this.modal?.classList.remove("ysp-info-open");
+        document.body.style.overflow = "";
+    }
+
+    // ── Modal builder ──
+
+    private buildModal(): HTMLDivElement {
+        const modal = document.createElement("div");
+        modal.id = "ysp-multi-modal";
+        modal.innerHTML = `
+            <div class="ysp-info-backdrop"></div>
+            <div class="ysp-info-content ysp-multi-content">
+                <div class="ysp-info-header">
+                    <h3>Multi-Channel Search</h3>
+                    <button class="ysp-info-close" id="ysp-multi-close" type="button">&times;</button>
+                </div>
+                <div class="ysp-multi-body">
+                    <label class="ysp-template-modal-label" for="ysp-multi-query">Query</label>
+                    <input type="text" id="ysp-multi-query" placeholder="e.g. iphone review" />
+
+                    <label class="ysp-template-modal-label" for="ysp-multi-channels">Channels</label>
+                    <div class="ysp-multi-sets">
+                        <select id="ysp-multi-set">
+                            <option value="">Channel sets…</option>
+                        </select>
+                        <button class="ysp-multi-set-delete" id="ysp-multi-delete-set" type="button" title="Delete channel set" disabled>&times;</button>
+                        <input type="text" id="ysp-multi-set-name" placeholder="Set name" maxlength="30" />
+                        <button class="ysp-btn ysp-btn-clear" id="ysp-multi-save-set" type="button">Save set</button>
+                    </div>
+                    <textarea id="ysp-multi-channels" rows="4" placeholder="@mkbhd, @LinusTechTips&#10;One per line or comma-separated — handles, channel URLs or IDs"></textarea>
+                    <div class="ysp-multi-status" id="ysp-multi-status"></div>
+
+                    <div class="ysp-multi-limit">
+                        <span>Results per channel</span>
+                        <select id="ysp-multi-limit">
+                            ${PER_CHANNEL_OPTIONS.map(
+                                (n) =>
+                                    `<option value="${n}" ${
+                                        n === 20 ? "selected" : ""
+                                    }>${n}</option>`
+                            ).join("")}
+                        </select>
+                    </div>
+
+                    <div class="ysp-export-progress" id="ysp-multi-progress" style="display:none;">
+                        <div class="ysp-export-progress-bar">
+                            <div class="ysp-export-progress-fill" id="ysp-multi-progress-fill"></div>
+                        </div>
+                        <div class="ysp-export-progress-text" id="ysp-multi-progress-text"></div>
+                    </div>
+
+                    <div class="ysp-multi-results" id="ysp-multi-results"></div>
+
+                    <div class="ysp-template-modal-actions">
+                        <button class="ysp-btn ysp-btn-clear" id="ysp-multi-cancel" type="button">Cancel</button>
+                        <button class="ysp-btn ysp-btn-clear" id="ysp-multi-export" type="button" style="display:none;">Export…</button>
+                        <button class="ysp-btn ysp-btn-apply" id="ysp-multi-run" type="button">Search</button>
+                    </div>
+                </div>
+            </div>
+        `;
+
+        modal
+            .querySelector(".ysp-info-backdrop")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-multi-close")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-multi-cancel")
+            ?.addEventListener("click", () => {
+                if (this.abortController) this.abortController.abort();
+                else this.close();
+            });
+        modal
+            .querySelector("#ysp-multi-run")
+            ?.addEventListener("click", () => this.run());
+        modal
+            .querySelector("#ysp-multi-export")
+            ?.addEventListener("click", () => {
+                this.close();
+                // After this click finishes, so the export panel's
+                // outside-click handler doesn't close it straight away
+                setTimeout(() => this.onExport(this.results, this.query), 0);
+            });
+        modal
+            .querySelector("#ysp-multi-channels")
+            ?.addEventListener("input", () => this.validateChannels());
+        modal
+            .querySelector("#ysp-multi-query")
+            ?.addEventListener("keydown", (e) => {
+                if ((e as KeyboardEvent).key === "Enter") this.run();
+            });
+
+        // Channel sets
+        const setSelect = modal.querySelector(
+            "#ysp-multi-set"
+        ) as HTMLSelectElement;
+        setSelect.addEventListener("change", () => this.applySet(setSelect.value));
+        modal
+            .querySelector("#ysp-multi-save-set")
+            ?.addEventListener("click", () => this.saveSet());
+        modal
+            .querySelector("#ysp-multi-delete-set")
+            ?.addEventListener("click", () => this.deleteSet(setSelect.value));
+
+        return modal;
+    }
+
+    // ── Channel list ──
+
+    private getChannelText(): string {
+        return (
+            (this.modal?.querySelector("#ysp-multi-channels") as HTMLTextAreaElement)
+                ?.value || ""
+        );
+    }
+
+    /** Point out entries that can't be searched (display names, bad URLs). */
+    private validateChannels() {
+        const status = this.modal?.querySelector(
+            "#ysp-multi-status"
+        ) as HTMLElement;
+        if (!status) return;
+        const entries = parseChannelList(this.getChannelText());
+        const invalid = entries.filter((e) => !e.path).map((e) => e.input);
+        const valid = entries.length - invalid.length;
+
+        status.classList.toggle("ysp-multi-status--warn", invalid.length > 0);
+        status.textContent = invalid.length
+            ? `Skipping ${invalid.join(", ")} — use a @handle, channel URL or ID`
+            : valid
+            ? `${valid} channel${valid === 1 ? "" : "s"}`
+            : "";
+    }
+
+    // ── Channel sets ──
+
+    private async loadSets() {
+        try {
+            const result = await chrome.storage.local.get("ysp_channel_sets");
+            this.sets = (result.ysp_channel_sets as ChannelSet[] | undefined) || [];
+        } catch {
+            /* ignore */
+        }
+        this.renderSets();
+    }
+
+    private saveSets() {
+        try {
+            chrome.storage.local.set({ ysp_channel_sets: this.sets });
+        } catch {
+            /* ignore */
+        }
+    }
+
+    private renderSets(selected = "") {
+        const select = this.modal?.querySelector(
+            "#ysp-multi-set"
+        ) as HTMLSelectElement;
+        if (!select) return;
+        select.innerHTML =
+            `<option value="">Channel sets…</option>` +
+            this.sets
+                .map(
+                    (s) =>
+                        `<option value="${escapeHTML(s.name)}">${escapeHTML(
+                            s.name
+                        )} (${s.channels.length})</option>`
+                )
+                .join("");
+        select.value = selected;
+        const del = this.modal?.querySelector(
+            "#ysp-multi-delete-set"
+        ) as HTMLButtonElement;
+        if (del) del.disabled = !selected;
+    }
+
+    private applySet(name: string) {
+        const set = this.sets.find((s) => s.name === name);
+        const del = this.modal?.querySelector(
+            "#ysp-multi-delete-set"
+        ) as HTMLButtonElement;
+        if (del) del.disabled = !set;
+        if (!set) return;
+
+        (this.modal?.querySelector("#ysp-multi-channels") as HTMLTextAreaElement).value =
+            set.channels.join("\n");
+        (this.modal?.querySelector("#ysp-multi-set-name") as HTMLInputElement).value =
+            set.name;
+        this.validateChannels();
+    }
+
+    private saveSet() {
+        const nameInput = this.modal?.querySelector(
+            "#ysp-multi-set-name"
+        ) as HTMLInputElement;
+        const name = nameInput?.value.trim();
+        const channels = parseChannelList(this.getChannelText()).map((e) => e.input);
+        if (!name || channels.length === 0) {
+            nameInput?.focus();
+            return;
+        }
+
+        // Same name — overwrite
+        const existing = this.sets.findIndex((s) => s.name === name);
+        if (existing >= 0) this.sets[existing].channels = channels;
+        else this.sets.push({ name, channels });
+
+        this.saveSets();
+        this.renderSets(name);
+    }
+
+    private deleteSet(name: string) {
+        this.sets = this.sets.filter((s) => s.name !== name);
+        this.saveSets();
+        this.renderSets();
+    }
+
+    // ── Progress UI ──
+
+    private showProgress(text: string, percent: number) {
+        const container = this.modal?.querySelector(
+            "#ysp-multi-progress"
+        ) as HTMLElement;
+        const fill = this.modal?.querySelector(
+            "#ysp-multi-progress-fill"
+        ) as HTMLElement;
+        const textEl = this.modal?.querySelector(
+            "#ysp-multi-progress-text"
+        ) as HTMLElement;
+        if (!container || !fill || !textEl) return;
+
+        container.style.display = "";
+        fill.style.width = `${Math.min(100, percent)}%`;
+        textEl.textContent = text;
+    }
+
+    private setRunning(running: boolean) {
+        const runBtn = this.modal?.querySelector(
+            "#ysp-multi-run"
+        ) as HTMLButtonElement;
+        const cancelBtn = this.modal?.querySelector(
+            "#ysp-multi-cancel"
+        ) as HTMLButtonElement;
+        runBtn.textContent = running ? "Searching..." : "Search";
+        runBtn.disabled = running;
+        runBtn.classList.toggle("ysp-btn-disabled", running);
+        cancelBtn.textContent = running ? "Stop" : "Cancel";
+    }
+
+    // ── Fan-out ──
+
+    private async run() {
+        if (this.abortController) return;
+
+        const query = (
+            this.modal?.querySelector("#ysp-multi-query") as HTMLInputElement
+        ).value.trim();
+        const paths = parseChannelList(this.getChannelText())
+            .map((e) => e.path)
+            .filter((p): p is string => !!p);
+        if (!query || paths.length === 0) {
+            this.showProgress(
+                !query ? "Enter a query first." : "Add at least one channel.",
+                0
+            );
+            return;
+        }
+
+        const limit = parseInt(
+            (this.modal?.querySelector("#ysp-multi-limit") as HTMLSelectElement)
+                .value
+        );
+
+        this.abortController = new AbortController();
+        const signal = this.abortController.signal;
+        this.setRunning(true);
+        this.results = [];
+        this.query = query;
+        this.renderResults();
+
+        const batches: ChannelBatch[] = [];
+        try {
+            for (let i = 0; i < paths.length && !signal.aborted; i++) {
+                this.showProgress(
+                    `Searching ${channelLabel(paths[i])} (${i + 1}/${paths.length})...`,
+                    (i / paths.length) * 100
+                );
+                const results = await this.searchChannel(
+                    paths[i],
+                    query,
+                    limit,
+                    signal
+                );
+                batches.push({ channel: paths[i], results });
+                this.results = mergeChannelResults(batches);
+                this.renderResults();
+            }
+
+            const empty = batches.filter((b) => b.results.length === 0).length;
+            this.showProgress(
+                `${this.results.length} results from ${batches.length - empty} of ${
+                    paths.length
+                } channels${signal.aborted ? " (stopped)" : ""}`,
+                100
+            );
+        } catch (err) {
+            console.error("[YSP] Multi-channel search error:", err);
+            this.showProgress("Search failed. Try again.", 0);
+        } finally {
+            this.abortController = null;
+            this.setRunning(false);
+        }
+    }
+
+    /**
+     * Load one channel's search page in an off-screen iframe, scroll it
+     * until `limit` results are in (or no more arrive), then scrape.
+     */
+    private searchChannel(
+        path: string,
+        query: string,
+        limit: number,
+        signal: AbortSignal
+    ): Promise<VideoResult[]> {
+        return new Promise((resolve) => {
+            const frame = document.createElement("iframe");
+            frame.className = "ysp-multi-frame";
+            frame.setAttribute("aria-hidden", "true");
+            frame.tabIndex = -1;
+            frame.src = new URL(
+                channelSearchUrl(path, query),
+                window.location.origin
+            ).toString();
+
+            let elapsed = 0;
+            let stale = 0;
+            let lastCount = 0;
+
+            const finish = () => {
+                const doc = frame.contentDocument;
+                const results = doc ? scrapeResults(limit, doc) : [];
+                frame.remove();
+                resolve(results);
+            };
+
+            const check = () => {
+                const doc = frame.contentDocument;
+                const count = doc ? countResults(doc) : 0;
+
+                if (signal.aborted || count >= limit) return finish();
+                if (count === 0 && elapsed >= EMPTY_TIMEOUT_MS) return finish();
+                if (count > 0) {
+                    stale = count === lastCount ? stale + 1 : 0;
+                    if (stale >= MAX_STALE) return finish();
+                    doc?.defaultView?.scrollTo(0, doc.documentElement.scrollHeight);
+                }
+
+                lastCount = count;
+                elapsed += POLL_MS;
+                setTimeout(check, POLL_MS);
+            };
+
+            document.body.appendChild(frame);
+            setTimeout(check, POLL_MS);
+        });
+    }
+
+    // ── Results ──
+
+    private renderResults() {
+        const list = this.modal?.querySelector(
+            "#ysp-multi-results"
+        ) as HTMLElement;
+        const exportBtn = this.modal?.querySelector(
+            "#ysp-multi-export"
+        ) as HTMLElement;
+        if (!list || !exportBtn) return;
+
+        exportBtn.style.display = this.results.length ? "" : "none";
+        list.innerHTML = this.results
+            .map(
+                (r) => `
+                <div class="ysp-multi-result">
+                    <a href="${escapeHTML(r.url)}" target="_blank" rel="noopener">${escapeHTML(r.title)}</a>
+                    <div class="ysp-multi-result-meta">${[
+                        r.channel,
+                        r.views,
+                        r.published,
+                        r.duration,
+                    ]
+                        .filter(Boolean)
+                        .map(escapeHTML)
+                        .join(" · ")}<span class="ysp-multi-result-source">${escapeHTML(
+                    r.sourceChannel || ""
+                )}</span></div>
+                </div>`
+            )
+            .join("");
+    }
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+    parseViews,
+    parseUploadDate,
+    normalizeResult,
+    badgeName,
+} from "./normalize";
+
+// Wednesday, 21 October 2026 (local time)
+const NOW = new Date(2026, 9, 21, 15, 30);
+
+// ── Views ────────────────────────────────────────────────────────────
+
+describe("parseViews", () => {
+    it("reads English counts", () => {
+        expect(parseViews("1.2M views")).toBe(1_200_000);
+        expect(parseViews("850K views")).toBe(850_000);
+        expect(parseViews("2B views")).toBe(2_000_000_000);
+        expect(parseViews("1,234 views")).toBe(1234);
+        expect(parseViews("1 view")).toBe(1);
+        expect(parseViews("No views")).toBe(0);
+    });
+
+    it("reads the page language's abbreviations and separators", () => {
+        expect(parseViews("1,2 Mio. Aufrufe", "de-DE")).toBe(1_200_000);
+        expect(parseViews("12.345 Aufrufe", "de")).toBe(12_345);
+        expect(parseViews("3,4 k vues", "fr-FR")).toBe(3_400);
+        expect(parseViews("1 234 vues", "fr")).toBe(1234);
+        expect(parseViews("12 mil visualizaciones", "es-419")).toBe(12_000);
+        expect(parseViews("1,5 mi de visualizações", "pt-BR")).toBe(1_500_000);
+        expect(parseViews("12 B görüntüleme", "tr")).toBe(12_000);
+        expect(parseViews("1,2 млн просмотров", "ru")).toBe(1_200_000);
+        expect(parseViews("120万 回視聴", "ja-JP")).toBe(1_200_000);
+        expect(parseViews("조회수 3.5만회", "ko")).toBe(35_000);
+        expect(parseViews("12万次观看", "zh-Hans-CN")).toBe(120_000);
+    });
+
+    it("returns null without a count", () => {
+        expect(parseViews("")).toBeNull();
+        expect(parseViews("Premieres soon")).toBeNull();
+    });
+});
+
+// ── Upload dates ─────────────────────────────────────────────────────
+
+describe("parseUploadDate", () => {
+    it("gives the window a rounded-down relative date covers", () => {
+        expect(parseUploadDate("3 weeks ago", NOW)).toEqual({
+            date: new Date(2026, 8, 27, 3, 30),
+            earliest: new Date(2026, 8, 23, 15, 30),
+            latest: new Date(2026, 8, 30, 15, 30),
+        });
+        expect(parseUploadDate("Streamed 5 hours ago", NOW)?.latest).toEqual(
+            new Date(2026, 9, 21, 10, 30)
+        );
+    });
+
+    it("reads other languages, falling back to English", () => {
+        const latest = (text: string, lang: string) =>
+            parseUploadDate(text, NOW, lang)?.latest;
+        const threeWeeks = new Date(2026, 8, 30, 15, 30);
+        expect(latest("vor 3 Wochen", "de-DE")).toEqual(threeWeeks);
+        expect(latest("il y a 3 semaines", "fr")).toEqual(threeWeeks);
+        expect(latest("hace 3 semanas", "es")).toEqual(threeWeeks);
+        expect(latest("3 settimane fa", "it")).toEqual(threeWeeks);
+        expect(latest("3 недели назад", "ru")).toEqual(threeWeeks);
+        expect(latest("3 週間前", "ja")).toEqual(threeWeeks);
+        expect(latest("3주 전", "ko")).toEqual(threeWeeks);
+        expect(latest("3 weeks ago", "de")).toEqual(threeWeeks);
+        expect(latest("il y a 1 an", "fr")).toEqual(new Date(2025, 9, 21, 15, 30));
+        expect(latest("há 2 meses", "pt")).toEqual(new Date(2026, 7, 21, 15, 30));
+    });
+
+    it("returns null for other text", () => {
+        expect(parseUploadDate("Premiered Oct 3, 2026", NOW)).toBeNull();
+        expect(parseUploadDate("3 fortnights ago", NOW)).toBeNull();
+    });
+});
+
+// ── normalizeResult ──────────────────────────────────────────────────
+
+describe("normalizeResult", () => {
+    it("fills every normalized field", () => {
+        expect(
+            normalizeResult(
+                { views: "1,2 Mio. Aufrufe", published: "vor 1 Tag", duration: "1:02:03" },
+                NOW,
+                "de"
+            )
+        ).toEqual({
+            viewCount: 1_200_000,
+            uploadDate: "2026-10-20",
+            uploadDateEarliest: "2026-10-19",
+            uploadDateLatest: "2026-10-20",
+            durationSeconds: 3723,
+        });
+    });
+
+    it("leaves unreadable fields null", () => {
+        expect(
+            normalizeResult({ views: "", published: "", duration: "LIVE" }, NOW)
+        ).toEqual({
+            viewCount: null,
+            uploadDate: null,
+            uploadDateEarliest: null,
+            uploadDateLatest: null,
+            durationSeconds: null,
+        });
+    });
+});
+
+// ── Badges ───────────────────────────────────────────────────────────
+
+describe("badgeName", () => {
+    it("names badges the same in every language", () => {
+        expect(badgeName("Neu")).toBe("New");
+        expect(badgeName("新着")).toBe("New");
+        expect(
+            badgeName("Nur für Kanalmitglieder", "badge badge-style-type-members-only")
+        ).toBe("Members only");
+        expect(
+            badgeName("EN DIRECT", "badge badge-style-type-live-now-alternate")
+        ).toBe("Live");
+        expect(badgeName("Première")).toBe("Premiere");
+        expect(badgeName("CC")).toBe("CC");
+    });
+
+    it("keeps other badges as shown", () => {
+        expect(badgeName(" 4K ")).toBe("4K");
+        expect(badgeName("VR180")).toBe("VR180");
+    });
+});
@@ -0,0 +1,307 @@
+/**
+ * YouTube Search Plus — Result Normalization
+ *
+ * Turns the text YouTube shows for a result into values: "1.2M views"
+ * → 1200000, "12:34" → 754 seconds, "3 weeks ago" → an approximate
+ * upload date. Views and upload dates are phrased in the page's language
+ * ("1,2 Mio. Aufrufe", "vor 3 Wochen"), so each supported language has
+ * its own count abbreviations and "… ago" phrasing; anything else is
+ * read as English.
+ *
+ * Relative dates are rounded down by YouTube — "3 weeks ago" means 3 to
+ * 4 weeks — so an upload date comes with the window it falls in, and
+ * the date itself is the middle of that window.
+ *
+ * Every parser returns null for text it doesn't recognise.
+ *
+ * Result badges are named the same whatever the language, where the
+ * badge's style or a known translation gives it away.
+ */
+
+import { formatISODate } from "./dates";
+import { parseDuration } from "./postfilter";
+
+type TimeUnit = "second" | "minute" | "hour" | "day" | "week" | "month" | "year";
+
+interface LocaleFormat {
+    /** Count abbreviations (lower case) → multiplier */
+    multipliers: Record<string, number>;
+    /** The text shown for a result nobody has watched */
+    noViews?: RegExp;
+    /** "N units ago": captures the number and the unit word */
+    ago: RegExp;
+    /** Unit words, tried in order */
+    units: [RegExp, TimeUnit][];
+}
+
+export interface NormalizedResult {
+    viewCount: number | null;
+    /** Approximate upload date, YYYY-MM-DD */
+    uploadDate: string | null;
+    /** Window the upload date falls in, YYYY-MM-DD */
+    uploadDateEarliest: string | null;
+    uploadDateLatest: string | null;
+    durationSeconds: number | null;
+}
+
+export interface UploadDate {
+    date: Date;
+    earliest: Date;
+    latest: Date;
+}
+
+// ─── Locales ─────────────────────────────────────────────────────────
+
+/** Unit word patterns, second to year. */
+const unitWords = (
+    second: RegExp,
+    minute: RegExp,
+    hour: RegExp,
+    day: RegExp,
+    week: RegExp,
+    month: RegExp,
+    year: RegExp
+): [RegExp, TimeUnit][] => [
+    [second, "second"],
+    [minute, "minute"],
+    [hour, "hour"],
+    [day, "day"],
+    [week, "week"],
+    [month, "month"],
+    [year, "year"],
+];
+
+const LOCALES: Record<string, LocaleFormat> = {
+    en: {
+        multipliers: { k: 1e3, m: 1e6, b: 1e9 },
+        noViews: /^no views/,
+        ago: /(\d+)\s+(\p{L}+)\s+ago/u,
+        units: unitWords(/^sec/, /^min/, /^hour/, /^day/, /^week/, /^month/, /^year/),
+    },
+    de: {
+        multipliers: { tsd: 1e3, mio: 1e6, mrd: 1e9 },
+        noViews: /^keine aufrufe/,
+        ago: /vor\s+(\d+)\s+(\p{L}+)/u,
+        units: unitWords(/^sek/, /^min/, /^stunde/, /^tag/, /^woche/, /^monat/, /^jahr/),
+    },
+    fr: {
+        multipliers: { k: 1e3, m: 1e6, md: 1e9, mrd: 1e9 },
+        noViews: /^aucune vue/,
+        ago: /il y a\s+(\d+)\s+(\p{L}+)/u,
+        units: unitWords(/^sec/, /^min/, /^heure/, /^jour/, /^semaine/, /^mois/, /^an/),
+    },
+    es: {
+        multipliers: { k: 1e3, mil: 1e3, m: 1e6, mm: 1e9 },
+        noViews: /^sin visualizaciones/,
+        ago: /hace\s+(\d+)\s+(\p{L}+)/u,
+        units: unitWords(/^seg/, /^min/, /^hora/, /^d[íi]a/, /^semana/, /^mes/, /^año/),
+    },
+    pt: {
+        multipliers: { mil: 1e3, mi: 1e6, bi: 1e9 },
+        noViews: /^nenhuma visualiza/,
+        ago: /há\s+(\d+)\s+(\p{L}+)/u,
+        units: unitWords(/^seg/, /^min/, /^hora/, /^dia/, /^semana/, /^m[eê]s/, /^ano/),
+    },
+    it: {
+        multipliers: { k: 1e3, mln: 1e6, mld: 1e9, mrd: 1e9 },
+        noViews: /^nessuna visualizzazione/,
+        ago: /(\d+)\s+(\p{L}+)\s+fa(?!\p{L})/u,
+        units: unitWords(/^sec/, /^min/, /^or[ae]$/, /^giorn/, /^settiman/, /^mes/, /^ann/),
+    },
+    nl: {
+        multipliers: { k: 1e3, mln: 1e6, mld: 1e9 },
+        noViews: /^geen weergaven/,
+        ago: /(\d+)\s+(\p{L}+)\s+geleden/u,
+        units: unitWords(/^sec/, /^min/, /^uur/, /^dag/, /^we/, /^maand/, /^jaar/),
+    },
+    pl: {
+        multipliers: { tys: 1e3, mln: 1e6, mld: 1e9 },
+        noViews: /^brak wyświetleń/,
+        ago: /(\d+)\s+(\p{L}+)\s+temu/u,
+        units: unitWords(
+            /^sek/,
+            /^min/,
+            /^godz/,
+            /^(dzie|dni)/,
+            /^ty[dg]/,
+            /^miesi/,
+            /^(rok|lat)/
+        ),
+    },
+    tr: {
+        multipliers: { b: 1e3, mn: 1e6, mr: 1e9 },
+        ago: /(\d+)\s+(\p{L}+)\s+önce/u,
+        units: unitWords(/^san/, /^dak/, /^saat/, /^gün/, /^hafta/, /^ay$/, /^yıl/),
+    },
+    ru: {
+        multipliers: { тыс: 1e3, млн: 1e6, млрд: 1e9 },
+        noViews: /^нет просмотров/,
+        ago: /(\d+)\s+(\p{L}+)\s+назад/u,
+        units: unitWords(
+            /^сек/,
+            /^мин/,
+            /^час/,
+            /^д[ен]/,
+            /^недел/,
+            /^месяц/,
+            /^(год|лет)/
+        ),
+    },
+    ja: {
+        multipliers: { 万: 1e4, 億: 1e8 },
+        ago: /(\d+)\s*(秒|分|時間|日|週間|か月|ヶ月|カ月|年)\s*前/u,
+        units: unitWords(/^秒/, /^分/, /^時間/, /^日/, /^週/, /月$/, /^年/),
+    },
+    ko: {
+        multipliers: { 천: 1e3, 만: 1e4, 억: 1e8 },
+        ago: /(\d+)\s*(초|분|시간|일|주|개월|년)\s*전/u,
+        units: unitWords(/^초/, /^분/, /^시간/, /^일/, /^주/, /^개월/, /^년/),
+    },
+    zh: {
+        multipliers: { 万: 1e4, 萬: 1e4, 亿: 1e8, 億: 1e8 },
+        ago: /(\d+)\s*(秒|分钟|分鐘|小时|小時|天|周|週|个月|個月|年)\s*前/u,
+        units: unitWords(/^秒/, /^分/, /^小/, /^天/, /^[周週]/, /月$/, /^年/),
+    },
+};
+
+/** Formats to try for a page language ("de-DE" → German, then English). */
+function localesFor(lang: string): LocaleFormat[] {
+    const primary = LOCALES[lang.toLowerCase().split(/[-_]/)[0]];
+    return primary && primary !== LOCALES.en ? [primary, LOCALES.en] : [LOCALES.en];
+}
+
+/** Lower case, with the no-break spaces some languages put in numbers as spaces. */
+function clean(text: string): string {
+    return text.trim().toLowerCase().replace(/[\u00a0\u202f]/g, " ");
+}
+
+const CJK = /[\u3040-\u9fff\uac00-\ud7af]/;
+
+// ─── Views ───────────────────────────────────────────────────────────
+
+function readCount(text: string, locale: LocaleFormat): number | null {
+    if (locale.noViews?.test(text)) return 0;
+    const match = text.match(/\d+(?:[.,' ]\d+)*/);
+    if (!match) return null;
+    const digits = match[0];
+    const rest = text.slice(match.index! + digits.length).trimStart();
+
+    // An abbreviation must end its word, except in CJK ("120万回")
+    const suffix = Object.keys(locale.multipliers)
+        .sort((a, b) => b.length - a.length)
+        .find(
+            (s) =>
+                rest.startsWith(s) &&
+                (CJK.test(s) || !/^\p{L}/u.test(rest.slice(s.length)))
+        );
+    if (suffix) {
+        // Abbreviated counts have no grouping, so , or . is the decimal point
+        const n = parseFloat(digits.replace(/[' ]/g, "").replace(",", "."));
+        return isNaN(n) ? null : Math.round(n * locale.multipliers[suffix]);
+    }
+    return parseInt(digits.replace(/\D/g, ""), 10);
+}
+
+/** "1.2M views", "1,2 Mio. Aufrufe", "120万 回視聴" → view count. */
+export function parseViews(text: string, lang = "en"): number | null {
+    const t = clean(text);
+    for (const locale of localesFor(lang)) {
+        const n = readCount(t, locale);
+        if (n !== null) return n;
+    }
+    return null;
+}
+
+// ─── Upload dates ────────────────────────────────────────────────────
+
+function subtract(now: Date, unit: TimeUnit, n: number): Date {
+    const d = new Date(now);
+    switch (unit) {
+        case "second":
+            d.setSeconds(d.getSeconds() - n);
+            break;
+        case "minute":
+            d.setMinutes(d.getMinutes() - n);
+            break;
+        case "hour":
+            d.setHours(d.getHours() - n);
+            break;
+        case "day":
+            d.setDate(d.getDate() - n);
+            break;
+        case "week":
+            d.setDate(d.getDate() - n * 7);
+            break;
+        case "month":
+            d.setMonth(d.getMonth() - n);
+            break;
+        case "year":
+            d.setFullYear(d.getFullYear() - n);
+            break;
+    }
+    return d;
+}
+
+/**
+ * "3 weeks ago", "vor 3 Wochen", "Streamed 2 days ago" → when the video
+ * went up, counted back from `now`: between 3 and 4 weeks ago.
+ */
+export function parseUploadDate(
+    text: string,
+    now: Date = new Date(),
+    lang = "en"
+): UploadDate | null {
+    const t = clean(text);
+    for (const locale of localesFor(lang)) {
+        const m = t.match(locale.ago);
+        const unit = m && locale.units.find(([word]) => word.test(m[2]))?.[1];
+        if (!m || !unit) continue;
+        const n = parseInt(m[1], 10);
+        const earliest = subtract(now, unit, n + 1);
+        const latest = subtract(now, unit, n);
+        return {
+            date: new Date((earliest.getTime() + latest.getTime()) / 2),
+            earliest,
+            latest,
+        };
+    }
+    return null;
+}
+
+// ─── Results ─────────────────────────────────────────────────────────
+
+/** Normalized fields for a result's views, published and duration text. */
+export function normalizeResult(
+    result: { views: string; published: string; duration: string },
+    now: Date = new Date(),
+    lang = "en"
+): NormalizedResult {
+    const upload = parseUploadDate(result.published, now, lang);
+    return {
+        viewCount: result.views ? parseViews(result.views, lang) : null,
+        uploadDate: upload && formatISODate(upload.date),
+        uploadDateEarliest: upload && formatISODate(upload.earliest),
+        uploadDateLatest: upload && formatISODate(upload.latest),
+        durationSeconds: /:/.test(result.duration) ? parseDuration(result.duration) : null,
+    };
+}
+
+// ─── Badges ──────────────────────────────────────────────────────────
+
+const NEW_BADGE = /^(new|neu|nouveau|nuevo|novo|nuovo|nieuw|nowy|yeni|новое|新着|신규|新)$/;
+
+/**
+ * A badge's name: "Members only", "Live", "Premiere", "New" or "CC" in
+ * any language; anything else ("4K", "HDR", "VR180") as shown.
+ * `className` is the badge element's class, which carries its style.
+ */
+export function badgeName(label: string, className = ""): string {
+    const text = clean(label);
+    const members = /members|mitglieder|membres|miembros/.test(text);
+    if (members || /members-only/.test(className)) return "Members only";
+    if (/live-now/.test(className) || text === "live") return "Live";
+    if (/premi[eè]re|estreno|premiera/.test(text)) return "Premiere";
+    if (NEW_BADGE.test(text)) return "New";
+    if (text === "cc") return "CC";
+    return label.trim();
+}
@@ -2,22 +2,154 @@ import {
     TEXT_FILTERS,
     type ActiveTextFilter,
     buildPreviewLines,
+    applyFiltersToQuery,
+    changedFieldValues,
+    filterValues,
+    strictChannelPath,
+    stripOperators,
 } from "./filters";
+import { RELATIVE_DATE_EXAMPLES } from "./dates";
+import { type LintIssue, lintFilters, hasLintErrors } from "./lint";
+import { MacroManager } from "./macromanager";
+import { RuleManager } from "./rulemanager";
+import { findAutoApply } from "./rules";
+import {
+    describeTemplate,
+    planImport,
+    groupTemplates,
+    markUsed,
+    TEMPLATE_NAME_MAX,
+} from "./templates";
+import { TemplateTransfer } from "./templatetransfer";
+import { TemplateManager } from "./templatemanager";
+import { type SharedTemplate, shareLink } from "./share";
+import { SharePrompt } from "./shareprompt";
+import { isSavedSearch, savedSearchUrl } from "./search";
+import { VariablePrompt } from "./variableprompt";
+import {
+    type NativeFilters,
+    type Feature,
+    SORT_OPTIONS,
+    UPLOAD_DATE_OPTIONS,
+    TYPE_OPTIONS,
+    DURATION_OPTIONS,
+    FEATURE_OPTIONS,
+    describeNativeFilters,
+} from "./sp";
+import {
+    type PostFilterRules,
+    type PostFilterAction,
+    POST_FILTER_ACTIONS,
+    hasPostFilterRules,
+    parseViewCount,
+    parseDuration,
+    formatDuration,
+} from "./postfilter";
 import { FILTER_ICON } from "./icons";
 import { isPro, showPaygate, onResetToFree, isInsidePaygate } from "./paygate";
+import { escapeHTML } from "./html";
 
 export interface FilterState {
     text: ActiveTextFilter[];
     keepAfterSearch: boolean;
     excludeShorts: boolean;
+    native: NativeFilters;
+    postFilter: PostFilterRules;
+    /** Search only the Channel filter's channel, on its own search page */
+    strictChannel: boolean;
 }
 
 export interface FilterTemplate {
     name: string;
     filters: ActiveTextFilter[];
     excludeShorts?: boolean;
+    native?: NativeFilters;
+    strictChannel?: boolean;
+    /** Base search terms — a template with a query is a saved search */
+    query?: string;
+    /** Result post-filters, saved searches only */
+    postFilter?: PostFilterRules;
+    /** Folder it's grouped under in the template lists */
+    folder?: string;
+    tags?: string[];
+    /** Pinned favourites are listed first */
+    pinned?: boolean;
+    /** Epoch ms of the last load or auto-apply */
+    lastUsed?: number;
+    useCount?: number;
 }
 
+/** Single-choice native filters rendered as <select>s. */
+type NativeSelectKey = "sort" | "uploadDate" | "type" | "duration";
+
+const NATIVE_SELECTS: {
+    key: NativeSelectKey;
+    label: string;
+    options: { value: string; label: string }[];
+}[] = [
+    { key: "sort", label: "Sort by", options: SORT_OPTIONS },
+    { key: "uploadDate", label: "Upload date", options: UPLOAD_DATE_OPTIONS },
+    { key: "type", label: "Type", options: TYPE_OPTIONS },
+    { key: "duration", label: "Duration", options: DURATION_OPTIONS },
+];
+
+/** Result post-filter inputs; paired entries share a row. */
+const POST_FILTER_FIELDS: {
+    key: Exclude<keyof PostFilterRules, "action">;
+    label: string;
+    placeholder: string;
+    kind: "text" | "count" | "duration";
+}[] = [
+    {
+        key: "titleIncludes",
+        label: "Title must include",
+        placeholder: 'Words or "phrases"',
+        kind: "text",
+    },
+    {
+        key: "titleExcludes",
+        label: "Title must not include",
+        placeholder: 'Words or "phrases"',
+        kind: "text",
+    },
+    {
+        key: "minViews",
+        label: "Min views",
+        placeholder: "e.g. 10K",
+        kind: "count",
+    },
+    {
+        key: "maxViews",
+        label: "Max views",
+        placeholder: "e.g. 1M",
+        kind: "count",
+    },
+    {
+        key: "minDuration",
+        label: "Min length",
+        placeholder: "e.g. 4:00",
+        kind: "duration",
+    },
+    {
+        key: "maxDuration",
+        label: "Max length",
+        placeholder: "e.g. 20 (min)",
+        kind: "duration",
+    },
+    {
+        key: "channelAllow",
+        label: "Only channels",
+        placeholder: "Comma-separated names or @handles",
+        kind: "text",
+    },
+    {
+        key: "channelDeny",
+        label: "Hide channels",
+        placeholder: "Comma-separated names or @handles",
+        kind: "text",
+    },
+];
+
 /**
  * Filter panel UI injected into YouTube's search bar.
  */
@@ -26,12 +158,37 @@ export class FilterPanel {
     private panel: HTMLDivElement | null = null;
     private modal: HTMLDivElement | null = null;
     private templateModal: HTMLDivElement | null = null;
+    /** Existing template name the user has been warned would be overwritten */
+    private overwriteName: string | null = null;
+    private macroManager = new MacroManager(() => this.updatePreview());
+    private ruleManager = new RuleManager(() => this.templates.map((t) => t.name));
+    private templateTransfer = new TemplateTransfer(
+        () => this.templates,
+        (templates) => this.setTemplates(templates)
+    );
+    private templateManager = new TemplateManager(
+        () => this.templates,
+        (templates, renamed) => this.setTemplates(templates, renamed)
+    );
+    private variablePrompt = new VariablePrompt();
+    private sharePrompt = new SharePrompt(
+        (template) => this.applySharedTemplate(template),
+        (template) => this.saveSharedTemplate(template)
+    );
     private textInputs: Map<string, HTMLInputElement> = new Map();
     private excludeShorts = false;
+    private strictChannel = false;
+    private native: NativeFilters = {};
+    private postFilter: PostFilterRules = { action: "hide" };
+    private postFilterInputs: Map<string, HTMLInputElement> = new Map();
     private keepAfterSearch = false;
+    /** Search box text the fields were last synced with */
+    private lastBoxQuery = "";
+    private syncingBox = false;
     private templates: FilterTemplate[] = [];
     private onSave: (state: FilterState) => void;
     private onOpenCallback: (() => void) | null = null;
+    private onMultiChannelCallback: ((channel: string) => void) | null = null;
     private externalContainsCheck: ((node: Node) => boolean) | null = null;
 
     constructor(onSave: (state: FilterState) => void) {
@@ -43,6 +200,11 @@ export class FilterPanel {
         this.onOpenCallback = cb;
     }
 
+    /** Register a callback for "Search several channels…" (receives the Channel field's channels, one per line). */
+    onMultiChannel(cb: (channel: string) => void) {
+        this.onMultiChannelCallback = cb;
+    }
+
     /** Register a function that checks if a node is inside an external panel (for outside-click exclusion). */
     setExternalContainsCheck(fn: (node: Node) => boolean) {
         this.externalContainsCheck = fn;
@@ -123,6 +285,12 @@ export class FilterPanel {
                 !this.panel.contains(target) &&
                 !this.modal?.contains(target) &&
                 !this.templateModal?.contains(target) &&
+                !this.macroManager.containsNode(target) &&
+                !this.ruleManager.containsNode(target) &&
+                !this.templateTransfer.containsNode(target) &&
+                !this.templateManager.containsNode(target) &&
+                !this.sharePrompt.containsNode(target) &&
+                !this.variablePrompt.containsNode(target) &&
                 !isInsidePaygate(target) &&
                 !this.externalContainsCheck?.(target) &&
                 target !== this.btn &&
@@ -132,6 +300,16 @@ export class FilterPanel {
             }
         });
 
+        // Two-way sync: operators typed in the search box fill the fields
+        const searchInput = this.findSearchInput();
+        if (searchInput) {
+            this.lastBoxQuery = searchInput.value;
+            searchInput.addEventListener("input", () => {
+                if (this.syncingBox) return;
+                this.syncFromSearchBox(searchInput.value);
+            });
+        }
+
         this.loadState();
         return true;
     }
@@ -159,8 +337,12 @@ export class FilterPanel {
                             <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="3" stroke-linecap="round" stroke-linejoin="round"><polyline points="6 9 12 15 18 9"/></svg>
                         </button>
                         <div class="ysp-template-dropdown" id="ysp-template-dropdown">
+                            <input type="text" class="ysp-template-search" id="ysp-template-search" placeholder="Search templates" />
                             <div class="ysp-template-list" id="ysp-template-list"></div>
                             <div class="ysp-template-empty" id="ysp-template-empty">No saved templates</div>
+                            <button class="ysp-template-action" id="ysp-templates-manage" type="button">Manage templates…</button>
+                            <button class="ysp-template-action" id="ysp-rules-open" type="button">Auto-apply rules…</button>
+                            <button class="ysp-template-action" id="ysp-transfer-open" type="button">Import / export…</button>
                         </div>
                     </div>
                 </div>
@@ -170,6 +352,9 @@ export class FilterPanel {
         // Scrollable body
         html += `<div class="ysp-body">`;
 
+        // Which auto-apply rule shaped the current search (see showAutoApplied)
+        html += `<div class="ysp-rule-indicator" id="ysp-rule-indicator" style="display:none;"></div>`;
+
         // Exclude Shorts toggle
         html += `
             <div class="ysp-section ysp-exclude-shorts-section">
@@ -181,6 +366,39 @@ export class FilterPanel {
             </div>
         `;
 
+        // YouTube's native filters (sp= parameter)
+        html += `
+            <div class="ysp-section">
+                <div class="ysp-section-title">YouTube Filters</div>
+                <div class="ysp-native-grid">
+                    ${NATIVE_SELECTS.map(
+                        (s) => `
+                        <div class="ysp-field">
+                            <div class="ysp-field-label"><label for="ysp-native-${s.key}">${s.label}</label></div>
+                            <select id="ysp-native-${s.key}" data-native="${s.key}">
+                                <option value="">Any</option>
+                                ${s.options
+                                    .map(
+                                        (o) =>
+                                            `<option value="${o.value}">${o.label}</option>`
+                                    )
+                                    .join("")}
+                            </select>
+                        </div>`
+                    ).join("")}
+                </div>
+                <div class="ysp-native-features">
+                    ${FEATURE_OPTIONS.map(
+                        (f) => `
+                        <label class="ysp-native-feature">
+                            <input type="checkbox" data-feature="${f.value}" />
+                            <span>${f.label}</span>
+                        </label>`
+                    ).join("")}
+                </div>
+            </div>
+        `;
+
         // Date range
         html += `
             <div class="ysp-section">
@@ -189,6 +407,12 @@ export class FilterPanel {
                     ${this.fieldHTML("after", today)}
                     ${this.fieldHTML("before", today)}
                 </div>
+                ${this.fieldHTML("relative", today)}
+                <datalist id="ysp-relative-suggestions">
+                    ${RELATIVE_DATE_EXAMPLES.map(
+                        (e) => `<option value="${e}"></option>`
+                    ).join("")}
+                </datalist>
             </div>
         `;
 
@@ -196,14 +420,49 @@ export class FilterPanel {
         html += `
             <div class="ysp-section">
                 <div class="ysp-section-title">Text Filters</div>
-                ${TEXT_FILTERS.filter(
-                    (f) => f.id !== "after" && f.id !== "before"
-                )
-                    .map((f) => this.fieldHTML(f.id, today))
+                ${TEXT_FILTERS.filter((f) => f.type === "text")
+                    .map(
+                        (f) =>
+                            this.fieldHTML(f.id, today) +
+                            (f.id === "channel" ? this.strictChannelHTML() : "") +
+                            (f.id === "macros"
+                                ? `<button class="ysp-macros-open" id="ysp-macros-open" type="button">Manage macros…</button>`
+                                : "")
+                    )
                     .join("")}
             </div>
         `;
 
+        // Result post-filters (checked against loaded results)
+        const pfField = (f: (typeof POST_FILTER_FIELDS)[number]) => `
+            <div class="ysp-field">
+                <div class="ysp-field-label"><label for="ysp-pf-${f.key}">${f.label}</label></div>
+                <input type="text" id="ysp-pf-${f.key}" data-pf="${f.key}" placeholder="${escapeHTML(
+                    f.placeholder
+                )}" />
+            </div>`;
+        const [titleIn, titleOut, minViews, maxViews, minDur, maxDur, allow, deny] =
+            POST_FILTER_FIELDS;
+        html += `
+            <div class="ysp-section">
+                <div class="ysp-section-title">Result Filters</div>
+                ${pfField(titleIn)}
+                ${pfField(titleOut)}
+                <div class="ysp-row">${pfField(minViews)}${pfField(maxViews)}</div>
+                <div class="ysp-row">${pfField(minDur)}${pfField(maxDur)}</div>
+                ${pfField(allow)}
+                ${pfField(deny)}
+                <div class="ysp-field ysp-pf-action">
+                    <div class="ysp-field-label"><label for="ysp-pf-action">Results that don't match</label></div>
+                    <select id="ysp-pf-action">
+                        ${POST_FILTER_ACTIONS.map(
+                            (a) => `<option value="${a.value}">${a.label}</option>`
+                        ).join("")}
+                    </select>
+                </div>
+            </div>
+        `;
+
         // Query Preview + Keep toggle + Save template
         html += `
             <div class="ysp-section ysp-preview-section" id="ysp-preview-section" style="display:none;">
@@ -248,6 +507,8 @@ export class FilterPanel {
         const isDate = f.type === "date";
         const type = isDate ? "date" : "text";
         const maxAttr = isDate ? `max="${today}"` : "";
+        const listAttr =
+            f.type === "relative" ? `list="ysp-relative-suggestions"` : "";
 
         return `
             <div class="ysp-field">
@@ -263,13 +524,24 @@ export class FilterPanel {
                 </div>
                 <input type="${type}" id="ysp-input-${
             f.id
-        }" ${maxAttr} placeholder="${f.placeholder || ""}" title="${
-            f.description || ""
-        }" />
+        }" ${maxAttr} ${listAttr} placeholder="${escapeHTML(
+            f.placeholder || ""
+        )}" title="${escapeHTML(f.description || "")}" />
+                <div class="ysp-field-lint" id="ysp-lint-${f.id}"></div>
             </div>
         `;
     }
 
+    private strictChannelHTML(): string {
+        return `
+            <label class="ysp-channel-strict" title="Search on the channel's own page so only its videos are returned. YouTube filters don't apply there.">
+                <input type="checkbox" id="ysp-channel-strict" />
+                <span>Only this channel</span>
+            </label>
+            <button class="ysp-multi-open" id="ysp-multi-open" type="button">Search several channels…</button>
+        `;
+    }
+
     // ── Info Modal ──
 
     private buildInfoModal(): HTMLDivElement {
@@ -328,7 +600,12 @@ export class FilterPanel {
                 </div>
                 <div class="ysp-template-modal-body">
                     <label class="ysp-template-modal-label" for="ysp-template-name">Template name</label>
-                    <input type="text" id="ysp-template-name" placeholder="e.g. 2020-2021 Videos" maxlength="30" />
+                    <input type="text" id="ysp-template-name" placeholder="e.g. 2020-2021 Videos" maxlength="${TEMPLATE_NAME_MAX}" />
+                    <div class="ysp-multi-status" id="ysp-tpl-modal-status"></div>
+                    <label class="ysp-tpl-as-search">
+                        <input type="checkbox" id="ysp-template-as-search" />
+                        <span>Save as a search: include the search terms <strong id="ysp-tpl-search-terms"></strong> and result filters</span>
+                    </label>
                     <div class="ysp-template-modal-preview" id="ysp-tpl-modal-preview"></div>
                     <div class="ysp-template-modal-actions">
                         <button class="ysp-btn ysp-btn-clear" id="ysp-tpl-modal-cancel" type="button">Cancel</button>
@@ -357,6 +634,7 @@ export class FilterPanel {
         nameInput?.addEventListener("keydown", (e) => {
             if (e.key === "Enter") this.saveTemplate();
         });
+        nameInput?.addEventListener("input", () => this.setOverwriteWarning(null));
 
         return modal;
     }
@@ -370,6 +648,22 @@ export class FilterPanel {
         if (nameInput) {
             nameInput.value = "";
         }
+        this.setOverwriteWarning(null);
+
+        // Saved search: offered when there are search terms to keep
+        const terms = this.searchTerms();
+        const asSearch = this.templateModal.querySelector(
+            "#ysp-template-as-search"
+        ) as HTMLInputElement;
+        asSearch.checked = false;
+        asSearch.disabled = !terms;
+        (asSearch.closest(".ysp-tpl-as-search") as HTMLElement).style.display = terms
+            ? ""
+            : "none";
+        const termsEl = this.templateModal.querySelector(
+            "#ysp-tpl-search-terms"
+        ) as HTMLElement;
+        termsEl.textContent = `"${terms}"`;
 
         // Show a preview of what will be saved
         const preview = this.templateModal.querySelector(
@@ -380,14 +674,23 @@ export class FilterPanel {
             let chips = filters
                 .map((f) => {
                     const config = TEXT_FILTERS.find((c) => c.id === f.id);
-                    return `<span class="ysp-tpl-preview-chip">${
-                        config?.label || f.id
-                    }: ${f.value}</span>`;
+                    const label =
+                        f.id === "channel" && this.strictChannel && strictChannelPath(f)
+                            ? "Only channel"
+                            : config?.label || f.id;
+                    return `<span class="ysp-tpl-preview-chip">${escapeHTML(
+                        `${label}: ${f.value}`
+                    )}</span>`;
                 })
                 .join("");
             if (this.excludeShorts) {
                 chips += `<span class="ysp-tpl-preview-chip">Exclude Shorts</span>`;
             }
+            for (const n of describeNativeFilters(this.previewNative())) {
+                chips += `<span class="ysp-tpl-preview-chip">${escapeHTML(
+                    `${n.label}: ${n.value}`
+                )}</span>`;
+            }
             preview.innerHTML = chips;
         }
 
@@ -417,6 +720,7 @@ export class FilterPanel {
                     this.updatePreview();
                     if (f.id === "after" || f.id === "before")
                         this.syncDateConstraints(today);
+                    this.syncToSearchBox();
                 });
             }
         }
@@ -429,11 +733,87 @@ export class FilterPanel {
             excludeShortsToggle.checked = this.excludeShorts;
             excludeShortsToggle.addEventListener("change", () => {
                 this.excludeShorts = excludeShortsToggle.checked;
+                // Exclude Shorts is shorthand for Type: Video
+                if (this.excludeShorts) this.native.type = "video";
+                else if (this.native.type === "video") delete this.native.type;
+                this.syncNativeInputs();
                 this.updateSummary();
                 this.updatePreview();
             });
         }
 
+        // Strict channel toggle
+        const strictToggle = panel.querySelector(
+            "#ysp-channel-strict"
+        ) as HTMLInputElement | null;
+        if (strictToggle) {
+            strictToggle.checked = this.strictChannel;
+            strictToggle.addEventListener("change", () => {
+                this.strictChannel = strictToggle.checked;
+                this.updatePreview();
+            });
+        }
+
+        panel
+            .querySelector("#ysp-multi-open")
+            ?.addEventListener("click", () => {
+                this.close();
+                // One channel per line, as the channel list expects
+                this.onMultiChannelCallback?.(
+                    filterValues(this.textInputs.get("channel")?.value || "").join("\n")
+                );
+            });
+
+        panel
+            .querySelector("#ysp-macros-open")
+            ?.addEventListener("click", () => this.macroManager.open());
+
+        // Result post-filter inputs
+        panel
+            .querySelectorAll<HTMLInputElement>("input[data-pf]")
+            .forEach((input) => {
+                this.postFilterInputs.set(input.dataset.pf!, input);
+                input.addEventListener("input", () => {
+                    this.postFilter = this.getPostFilterFromInputs();
+                    this.updateSummary();
+                });
+            });
+        panel
+            .querySelector("#ysp-pf-action")
+            ?.addEventListener("change", () => {
+                this.postFilter = this.getPostFilterFromInputs();
+            });
+
+        // Native filter selects + feature checkboxes
+        panel
+            .querySelectorAll<HTMLSelectElement>("select[data-native]")
+            .forEach((select) => {
+                select.addEventListener("change", () => {
+                    const key = select.dataset.native as NativeSelectKey;
+                    const native = this.native as Record<string, string>;
+                    if (select.value) native[key] = select.value;
+                    else delete native[key];
+                    if (key === "type") this.syncExcludeShorts();
+                    this.updateSummary();
+                    this.updatePreview();
+                });
+            });
+        panel
+            .querySelectorAll<HTMLInputElement>("input[data-feature]")
+            .forEach((cb) => {
+                cb.addEventListener("change", () => {
+                    const feature = cb.dataset.feature as Feature;
+                    const features = (this.native.features || []).filter(
+                        (f) => f !== feature
+                    );
+                    if (cb.checked) features.push(feature);
+                    if (features.length) this.native.features = features;
+                    else delete this.native.features;
+                    this.updateSummary();
+                    this.updatePreview();
+                });
+            });
+
         // Info buttons
         panel
             .querySelectorAll<HTMLButtonElement>(".ysp-info-btn")
@@ -483,6 +863,36 @@ export class FilterPanel {
             }
         });
 
+        panel
+            .querySelector("#ysp-template-search")
+            ?.addEventListener("input", () => this.renderTemplateList());
+
+        panel
+            .querySelector("#ysp-templates-manage")
+            ?.addEventListener("click", () => {
+                dropdown?.classList.remove("ysp-dropdown-open");
+                this.templateManager.open();
+            });
+
+        panel
+            .querySelector("#ysp-rules-open")
+            ?.addEventListener("click", () => {
+                dropdown?.classList.remove("ysp-dropdown-open");
+                this.ruleManager.open();
+            });
+
+        // Import is Pro only, like saving a template
+        panel
+            .querySelector("#ysp-transfer-open")
+            ?.addEventListener("click", () => {
+                dropdown?.classList.remove("ysp-dropdown-open");
+                if (!isPro()) {
+                    showPaygate("template");
+                    return;
+                }
+                this.templateTransfer.open();
+            });
+
         // Save template button → open modal (Pro only)
         panel
             .querySelector("#ysp-save-template")
@@ -510,21 +920,44 @@ export class FilterPanel {
             "#ysp-template-name"
         ) as HTMLInputElement;
         const name = nameInput?.value.trim();
-        if (!name) return;
+        if (!name || hasLintErrors(this.lint())) return;
 
         const filters = this.getFiltersFromInputs();
-        if (filters.length === 0) return;
-
-        // Check for duplicate name — overwrite
+        const asSearch = (
+            this.templateModal?.querySelector(
+                "#ysp-template-as-search"
+            ) as HTMLInputElement
+        )?.checked;
+        const query = asSearch ? this.searchTerms() : "";
+        if (filters.length === 0 && !this.hasNativeFilters() && !query) return;
+        const postFilter =
+            query && hasPostFilterRules(this.postFilter)
+                ? { ...this.postFilter }
+                : undefined;
+
+        // Duplicate name — overwrite only once the user has been warned
         const existing = this.templates.findIndex((t) => t.name === name);
+        if (existing >= 0 && this.overwriteName !== name) {
+            this.setOverwriteWarning(name);
+            return;
+        }
+        const native = this.hasNativeFilters() ? { ...this.native } : undefined;
         if (existing >= 0) {
             this.templates[existing].filters = filters;
             this.templates[existing].excludeShorts = this.excludeShorts;
+            this.templates[existing].native = native;
+            this.templates[existing].strictChannel = this.strictChannel || undefined;
+            this.templates[existing].query = query || undefined;
+            this.templates[existing].postFilter = postFilter;
         } else {
             this.templates.push({
                 name,
                 filters,
                 excludeShorts: this.excludeShorts || undefined,
+                native,
+                strictChannel: this.strictChannel || undefined,
+                query: query || undefined,
+                postFilter,
             });
         }
 
@@ -545,10 +978,35 @@ export class FilterPanel {
         }
     }
 
+    /** The search box's plain search terms, operators removed. */
+    private searchTerms(): string {
+        return stripOperators(this.findSearchInput()?.value || "").trim();
+    }
+
+    /** Warn that saving will replace the named template (null clears it). */
+    private setOverwriteWarning(name: string | null) {
+        this.overwriteName = name;
+        const status = this.templateModal?.querySelector("#ysp-tpl-modal-status");
+        const btn = this.templateModal?.querySelector("#ysp-tpl-modal-save");
+        if (!status || !btn) return;
+        status.textContent = name
+            ? `"${name}" already exists. Save again to overwrite it.`
+            : "";
+        status.classList.toggle("ysp-multi-status--warn", !!name);
+        btn.textContent = name ? "Overwrite" : "Save Template";
+    }
+
     private loadTemplate(index: number) {
         const template = this.templates[index];
         if (!template) return;
+        this.variablePrompt.fill(template, (filled) => {
+            this.fillFromTemplate(filled);
+            this.markTemplateUsed(template.name);
+        });
+    }
 
+    /** Fill the panel's fields from a template (not yet saved). */
+    private fillFromTemplate(template: FilterTemplate) {
         // Clear all first
         for (const input of this.textInputs.values()) input.value = "";
 
@@ -558,12 +1016,16 @@ export class FilterPanel {
             if (input) input.value = f.value;
         }
 
-        // Restore excludeShorts
+        // Restore excludeShorts + native filters
         this.excludeShorts = template.excludeShorts || false;
         const excludeShortsToggle = this.panel?.querySelector(
             "#ysp-exclude-shorts"
         ) as HTMLInputElement;
         if (excludeShortsToggle) excludeShortsToggle.checked = this.excludeShorts;
+        this.native = { ...template.native };
+        this.syncNativeInputs();
+        this.setStrictChannel(template.strictChannel || false);
+        this.syncToSearchBox();
 
         const today = new Date().toISOString().split("T")[0];
         this.syncDateConstraints(today);
@@ -582,6 +1044,25 @@ export class FilterPanel {
         this.renderTemplateList();
     }
 
+    /** Replace the saved templates (import, template manager). */
+    private setTemplates(
+        templates: FilterTemplate[],
+        renamed?: { from: string; to: string }
+    ) {
+        this.templates = templates;
+        this.saveTemplates();
+        this.renderTemplateList();
+        if (renamed) this.ruleManager.renameTemplate(renamed.from, renamed.to);
+    }
+
+    /** Count a use of a template (loaded, or applied by a rule). */
+    markTemplateUsed(name: string) {
+        const index = this.templates.findIndex((t) => t.name === name);
+        if (index < 0) return;
+        this.templates[index] = markUsed(this.templates[index]);
+        this.saveTemplates();
+    }
+
     private renderTemplateList() {
         const list = this.panel?.querySelector(
             "#ysp-template-list"
@@ -589,35 +1070,56 @@ export class FilterPanel {
         const empty = this.panel?.querySelector(
             "#ysp-template-empty"
         ) as HTMLElement;
-        if (!list || !empty) return;
+        const search = this.panel?.querySelector(
+            "#ysp-template-search"
+        ) as HTMLInputElement;
+        if (!list || !empty || !search) return;
 
         if (this.templates.length === 0) {
             list.innerHTML = "";
+            search.style.display = "none";
+            empty.textContent = "No saved templates";
             empty.style.display = "";
             return;
         }
 
-        empty.style.display = "none";
-        list.innerHTML = this.templates
-            .map((t, i) => {
-                const parts = t.filters
-                    .map((f) => {
-                        const config = TEXT_FILTERS.find((c) => c.id === f.id);
-                        return config ? `${config.label}: ${f.value}` : "";
-                    })
-                    .filter(Boolean);
-                if (t.excludeShorts) parts.push("Exclude Shorts");
-                const filterSummary = parts.join(", ");
+        // Pinned first, then loose templates, then folders
+        search.style.display = "";
+        const groups = groupTemplates(this.templates, search.value);
+        empty.textContent = "No templates match";
+        empty.style.display = groups.length ? "none" : "";
+        list.innerHTML = groups
+            .map((group) => {
+                const heading = group.label
+                    ? `<div class="ysp-template-group">${escapeHTML(group.label)}</div>`
+                    : "";
+                return (
+                    heading +
+                    group.entries
+                        .map(({ template: t, index: i }) => {
+                            const filterSummary = describeTemplate(t).join(", ");
 
-                return `
+                            return `
                 <div class="ysp-template-item" data-index="${i}">
                     <div class="ysp-template-item-content" data-action="load" data-index="${i}">
-                        <div class="ysp-template-item-name">${t.name}</div>
-                        <div class="ysp-template-item-detail">${filterSummary}</div>
+                        <div class="ysp-template-item-name">${escapeHTML(t.name)}</div>
+                        <div class="ysp-template-item-detail">${escapeHTML(filterSummary)}</div>
                     </div>
+                    ${
+                        isSavedSearch(t)
+                            ? `<button class="ysp-template-item-run" data-action="run" data-index="${i}" type="button" title="Run this search">&#9654;</button>
+                    <button class="ysp-template-item-run" data-action="run-tab" data-index="${i}" type="button" title="Run in a new tab">&#8599;</button>`
+                            : ""
+                    }
+                    <button class="ysp-template-item-share" data-action="share" data-index="${i}" type="button" title="Copy share link">
+                        <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"/><path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"/></svg>
+                    </button>
                     <button class="ysp-template-item-delete" data-action="delete" data-index="${i}" type="button" title="Delete template">&times;</button>
                 </div>
             `;
+                        })
+                        .join("")
+                );
             })
             .join("");
 
@@ -628,6 +1130,21 @@ export class FilterPanel {
                 this.loadTemplate(idx);
             });
         });
+        list.querySelectorAll<HTMLElement>('[data-action^="run"]').forEach((el) => {
+            el.addEventListener("click", (e) => {
+                e.stopPropagation();
+                const template = this.templates[parseInt(el.dataset.index!)];
+                if (template)
+                    this.runSavedSearch(template, el.dataset.action === "run-tab");
+            });
+        });
+        list.querySelectorAll<HTMLElement>('[data-action="share"]').forEach((el) => {
+            el.addEventListener("click", (e) => {
+                e.stopPropagation();
+                const template = this.templates[parseInt(el.dataset.index!)];
+                if (template) this.copyShareLink(template, el);
+            });
+        });
         list.querySelectorAll('[data-action="delete"]').forEach((el) => {
             el.addEventListener("click", (e) => {
                 e.stopPropagation();
@@ -637,6 +1154,256 @@ export class FilterPanel {
         });
     }
 
+    // ── Saved searches ──
+
+    /** Run a saved search here or in a new tab; loading it counts as a use. */
+    private runSavedSearch(template: FilterTemplate, newTab: boolean) {
+        this.variablePrompt.fill(template, (filled) => {
+            this.markTemplateUsed(template.name);
+            const url = new URL(savedSearchUrl(filled), window.location.origin).toString();
+            if (newTab) {
+                window.open(url, "_blank", "noopener");
+            } else {
+                this.close();
+                window.location.href = url;
+            }
+        });
+    }
+
+    // ── Share links ──
+
+    private copyShareLink(template: FilterTemplate, btn: HTMLElement) {
+        const original = btn.innerHTML;
+        navigator.clipboard.writeText(shareLink(template)).then(
+            () => {
+                btn.textContent = "\u2713";
+                setTimeout(() => {
+                    btn.innerHTML = original;
+                }, 800);
+            },
+            () => {
+                /* ignore */
+            }
+        );
+    }
+
+    /** Offer the filters from a share link (or explain why it can't be used). */
+    showSharedTemplate(shared: SharedTemplate) {
+        this.sharePrompt.open(shared);
+    }
+
+    /**
+     * "Apply once": the shared filters become the saved filters, like Save
+     * Filters. A shared saved search is run instead.
+     */
+    private applySharedTemplate(template: FilterTemplate) {
+        this.variablePrompt.fill(template, (filled) => {
+            if (isSavedSearch(filled)) {
+                this.close();
+                window.location.href = new URL(
+                    savedSearchUrl(filled),
+                    window.location.origin
+                ).toString();
+                return;
+            }
+            this.fillFromTemplate(filled);
+            this.save();
+        });
+    }
+
+    /** Save a shared template, renamed if the name is taken (Pro only). */
+    private saveSharedTemplate(template: FilterTemplate): string | null {
+        if (!isPro()) {
+            showPaygate("template");
+            return null;
+        }
+        const plan = planImport(this.templates, [template], "rename");
+        this.setTemplates(plan.templates);
+        return plan.renamed[0]?.to ?? template.name;
+    }
+
+    // ── Auto-apply rules ──
+
+    /**
+     * The first enabled rule matching a query, with its template. There's
+     * no prompt mid-search, so variables take their last-used values.
+     */
+    findAutoApply(query: string) {
+        const auto = findAutoApply(this.ruleManager.getRules(), this.templates, query);
+        return auto && { ...auto, template: this.variablePrompt.autoFill(auto.template) };
+    }
+
+    /** Show which rule applied its template to this search (null hides it). */
+    showAutoApplied(fired: { rule: string; template: string } | null) {
+        const el = this.panel?.querySelector(
+            "#ysp-rule-indicator"
+        ) as HTMLElement | null;
+        if (!el) return;
+        if (!fired) {
+            el.style.display = "none";
+            return;
+        }
+        el.innerHTML = `Rule applied: query ${escapeHTML(fired.rule)} → <strong>${escapeHTML(
+            fired.template
+        )}</strong>`;
+        el.style.display = "";
+    }
+
+    // ── Result post-filters ──
+
+    private getPostFilterFromInputs(): PostFilterRules {
+        const action = (
+            this.panel?.querySelector("#ysp-pf-action") as HTMLSelectElement
+        )?.value as PostFilterAction;
+        const rules: PostFilterRules = { action: action || "hide" };
+
+        for (const f of POST_FILTER_FIELDS) {
+            const value = this.postFilterInputs.get(f.key)?.value.trim();
+            if (!value) continue;
+            const target = rules as unknown as Record<string, string | number>;
+            if (f.kind === "text") {
+                target[f.key] = value;
+            } else {
+                const n =
+                    f.kind === "count" ? parseViewCount(value) : parseDuration(value);
+                if (n !== null) target[f.key] = n;
+            }
+        }
+        return rules;
+    }
+
+    private setPostFilterInputs(rules: PostFilterRules) {
+        this.postFilter = rules;
+        for (const f of POST_FILTER_FIELDS) {
+            const input = this.postFilterInputs.get(f.key);
+            if (!input) continue;
+            const value = rules[f.key];
+            input.value =
+                value === undefined
+                    ? ""
+                    : f.kind === "duration"
+                    ? formatDuration(value as number)
+                    : String(value);
+        }
+        const action = this.panel?.querySelector(
+            "#ysp-pf-action"
+        ) as HTMLSelectElement | null;
+        if (action) action.value = rules.action;
+    }
+
+    // ── Search box sync ──
+
+    /** Rewrite the search box's operators from the panel fields. */
+    private syncToSearchBox() {
+        const input = this.findSearchInput();
+        if (!input) return;
+        const next = applyFiltersToQuery(input.value, this.getFiltersFromInputs());
+        this.lastBoxQuery = next;
+        if (next === input.value) return;
+
+        // Let YouTube's search box see the change, without echoing back
+        this.syncingBox = true;
+        input.value = next;
+        input.dispatchEvent(new Event("input", { bubbles: true }));
+        this.syncingBox = false;
+    }
+
+    /**
+     * Copy operators that changed in the search box into the fields.
+     * Fields whose operator isn't in the box keep their value.
+     */
+    private syncFromSearchBox(query: string, previous = this.lastBoxQuery) {
+        const changed = changedFieldValues(previous, query);
+        this.lastBoxQuery = query;
+
+        // A relative date owns after:/before: — don't overwrite it
+        const hasRelative = !!this.textInputs.get("relative")?.value.trim();
+        let touched = false;
+        for (const [id, value] of Object.entries(changed)) {
+            if (hasRelative && (id === "after" || id === "before")) continue;
+            const input = this.textInputs.get(id);
+            if (!input) continue;
+            input.value = value;
+            touched = true;
+        }
+
+        if (touched) {
+            this.syncDateConstraints(new Date().toISOString().split("T")[0]);
+            this.updateSummary();
+        }
+        this.updatePreview();
+    }
+
+    /**
+     * Fill the fields from a results page's query (YouTube shows it in
+     * the search box). Not saved until "Save Filters".
+     */
+    reflectSearchQuery(query: string) {
+        this.syncFromSearchBox(query, "");
+    }
+
+    // ── Strict channel ──
+
+    private setStrictChannel(strict: boolean) {
+        this.strictChannel = strict;
+        const toggle = this.panel?.querySelector(
+            "#ysp-channel-strict"
+        ) as HTMLInputElement | null;
+        if (toggle) toggle.checked = strict;
+    }
+
+    // ── Native filters ──
+
+    private hasNativeFilters(): boolean {
+        return describeNativeFilters(this.native).length > 0;
+    }
+
+    /** Native filters minus Type: Video, which Exclude Shorts already shows. */
+    private previewNative(): NativeFilters {
+        if (!this.excludeShorts) return this.native;
+        const { type: _type, ...rest } = this.native;
+        return rest;
+    }
+
+    /** Push this.native into the select / checkbox controls. */
+    private syncNativeInputs() {
+        if (!this.panel) return;
+        this.panel
+            .querySelectorAll<HTMLSelectElement>("select[data-native]")
+            .forEach((select) => {
+                const key = select.dataset.native as NativeSelectKey;
+                select.value = this.native[key] || "";
+            });
+        this.panel
+            .querySelectorAll<HTMLInputElement>("input[data-feature]")
+            .forEach((cb) => {
+                cb.checked = !!this.native.features?.includes(
+                    cb.dataset.feature as Feature
+                );
+            });
+    }
+
+    /** Keep the Exclude Shorts toggle in step with the Type select. */
+    private syncExcludeShorts() {
+        this.excludeShorts = this.native.type === "video";
+        const toggle = this.panel?.querySelector(
+            "#ysp-exclude-shorts"
+        ) as HTMLInputElement;
+        if (toggle) toggle.checked = this.excludeShorts;
+    }
+
+    /**
+     * Show the native filters already active on the current results page
+     * (decoded from its sp= parameter). Not saved until "Save Filters".
+     */
+    reflectNativeFilters(native: NativeFilters) {
+        this.native = { ...native };
+        this.syncExcludeShorts();
+        this.syncNativeInputs();
+        this.updateSummary();
+        this.updatePreview();
+    }
+
     // ── Date constraints ──
 
     private syncDateConstraints(today: string) {
@@ -665,6 +1432,10 @@ export class FilterPanel {
             if (input.value.trim()) count++;
         }
         if (this.excludeShorts) count++;
+        count += describeNativeFilters(this.previewNative()).length;
+        for (const input of this.postFilterInputs.values()) {
+            if (input.value.trim()) count++;
+        }
         el.textContent = count > 0 ? `${count} active` : "";
         el.classList.toggle("ysp-has-filters", count > 0);
     }
@@ -680,7 +1451,53 @@ export class FilterPanel {
         return filters;
     }
 
+    // ── Lint ──
+
+    private lint(): LintIssue[] {
+        return lintFilters(
+            this.getFiltersFromInputs(),
+            this.findSearchInput()?.value || ""
+        );
+    }
+
+    /** Show issues under their fields and block saving on errors. */
+    private renderLint(issues: LintIssue[]) {
+        for (const [id, input] of this.textInputs) {
+            const own = issues.filter((i) => i.filterId === id);
+            const el = this.panel?.querySelector(`#ysp-lint-${id}`);
+            if (el) {
+                el.innerHTML = own
+                    .map(
+                        (i) =>
+                            `<div class="ysp-lint-${i.severity}">${escapeHTML(i.message)}</div>`
+                    )
+                    .join("");
+            }
+            input.classList.toggle("ysp-input-error", hasLintErrors(own));
+            input.classList.toggle(
+                "ysp-input-warning",
+                own.length > 0 && !hasLintErrors(own)
+            );
+        }
+
+        const blocked = hasLintErrors(issues);
+        const applyBtn = this.panel?.querySelector(
+            "#ysp-apply"
+        ) as HTMLButtonElement | null;
+        if (applyBtn) {
+            applyBtn.disabled = blocked;
+            applyBtn.title = blocked ? "Fix the errors above to save" : "";
+        }
+        const templateBtn = this.panel?.querySelector(
+            "#ysp-save-template"
+        ) as HTMLButtonElement | null;
+        if (templateBtn) templateBtn.disabled = blocked;
+    }
+
     private updatePreview() {
+        const issues = this.lint();
+        this.renderLint(issues);
+
         const section = this.panel?.querySelector(
             "#ysp-preview-section"
         ) as HTMLElement;
@@ -692,6 +1509,9 @@ export class FilterPanel {
         const filters = this.getFiltersFromInputs();
         const lines = buildPreviewLines(filters, {
             excludeShorts: this.excludeShorts,
+            native: this.previewNative(),
+            strictChannel: this.strictChannel,
+            typed: this.findSearchInput()?.value,
         });
 
         if (lines.length === 0) {
@@ -710,10 +1530,27 @@ export class FilterPanel {
                     : hasConnectors
                     ? `<span class="ysp-preview-connector ysp-preview-spacer"></span>`
                     : "";
-                return `<div class="ysp-preview-line">${conn}<span class="ysp-preview-label">${line.label}</span><span class="ysp-preview-value">${line.value}</span></div>`;
+                const cls = line.conflict
+                    ? "ysp-preview-line ysp-preview-conflict"
+                    : "ysp-preview-line";
+                return `<div class="${cls}">${conn}<span class="ysp-preview-label">${escapeHTML(
+                    line.label
+                )}</span><span class="ysp-preview-value">${escapeHTML(
+                    line.value
+                )}</span></div>`;
             })
             .join("");
 
+        // Lint issues under the query they apply to
+        container.innerHTML += issues
+            .map(
+                (i) =>
+                    `<div class="ysp-preview-lint ysp-lint-${i.severity}">${
+                        i.severity === "error" ? "Error" : "Warning"
+                    }: ${escapeHTML(i.message)}</div>`
+            )
+            .join("");
+
         // Hide Pro divider when user is Pro (features are unlocked)
         const divider = this.panel?.querySelector(
             "#ysp-pro-divider"
@@ -754,13 +1591,24 @@ export class FilterPanel {
     // ── Save / Clear ──
 
     private save() {
+        // Hard lint errors would give an empty or broken search
+        if (hasLintErrors(this.lint())) return;
+
         const filters = this.getFiltersFromInputs();
         this.saveState(filters);
-        this.updateButtonState(filters.length > 0 || this.excludeShorts);
+        this.updateButtonState(
+            filters.length > 0 ||
+                this.excludeShorts ||
+                this.hasNativeFilters() ||
+                hasPostFilterRules(this.postFilter)
+        );
         this.onSave({
             text: filters,
             keepAfterSearch: this.keepAfterSearch,
             excludeShorts: this.excludeShorts,
+            native: { ...this.native },
+            postFilter: { ...this.postFilter },
+            strictChannel: this.strictChannel,
         });
 
         const applyBtn = this.panel?.querySelector(
@@ -792,6 +1640,11 @@ export class FilterPanel {
             "#ysp-exclude-shorts"
         ) as HTMLInputElement;
         if (excludeShortsToggle) excludeShortsToggle.checked = false;
+        this.native = {};
+        this.syncNativeInputs();
+        this.setPostFilterInputs({ action: "hide" });
+        this.setStrictChannel(false);
+        this.syncToSearchBox();
 
         this.keepAfterSearch = false;
         const toggle = this.panel?.querySelector(
@@ -804,18 +1657,32 @@ export class FilterPanel {
         this.updatePreview();
         this.saveState([]);
         this.updateButtonState(false);
-        this.onSave({ text: [], keepAfterSearch: false, excludeShorts: false });
+        this.onSave({
+            text: [],
+            keepAfterSearch: false,
+            excludeShorts: false,
+            native: {},
+            postFilter: this.postFilter,
+            strictChannel: false,
+        });
     }
 
     // ── Persistence ──
 
     private async loadState() {
+        // Macros first: the Macros field and preview read them
+        await this.macroManager.load();
+        await this.ruleManager.load();
+        await this.variablePrompt.load();
         try {
             const result = await chrome.storage.local.get([
                 "ysp_filters",
                 "ysp_keep",
                 "ysp_templates",
                 "ysp_exclude_shorts",
+                "ysp_native",
+                "ysp_postfilter",
+                "ysp_strict_channel",
             ]);
             const filters =
                 (result.ysp_filters as ActiveTextFilter[] | undefined) || [];
@@ -823,6 +1690,10 @@ export class FilterPanel {
                 (result.ysp_keep as boolean | undefined) || false;
             this.excludeShorts =
                 (result.ysp_exclude_shorts as boolean | undefined) || false;
+            this.native = (result.ysp_native as NativeFilters | undefined) || {};
+            const postFilter = (result.ysp_postfilter as
+                | PostFilterRules
+                | undefined) || { action: "hide" };
             this.templates =
                 (result.ysp_templates as FilterTemplate[] | undefined) || [];
 
@@ -830,7 +1701,12 @@ export class FilterPanel {
                 const input = this.textInputs.get(f.id);
                 if (input) input.value = f.value;
             }
-            this.updateButtonState(filters.length > 0 || this.excludeShorts);
+            this.updateButtonState(
+                filters.length > 0 ||
+                    this.excludeShorts ||
+                    this.hasNativeFilters() ||
+                    hasPostFilterRules(postFilter)
+            );
             const today = new Date().toISOString().split("T")[0];
             this.syncDateConstraints(today);
 
@@ -844,6 +1720,11 @@ export class FilterPanel {
                 "#ysp-exclude-shorts"
             ) as HTMLInputElement;
             if (excludeShortsToggle) excludeShortsToggle.checked = this.excludeShorts;
+            this.syncNativeInputs();
+            this.setPostFilterInputs(postFilter);
+            this.setStrictChannel(
+                (result.ysp_strict_channel as boolean | undefined) || false
+            );
         } catch {
             /* ignore */
         }
@@ -854,6 +1735,9 @@ export class FilterPanel {
             chrome.storage.local.set({
                 ysp_filters: filters,
                 ysp_exclude_shorts: this.excludeShorts,
+                ysp_native: this.native,
+                ysp_postfilter: this.postFilter,
+                ysp_strict_channel: this.strictChannel,
             });
         } catch {
             /* ignore */
@@ -901,6 +1785,9 @@ export class FilterPanel {
             "#ysp-exclude-shorts"
         ) as HTMLInputElement;
         if (excludeShortsToggle) excludeShortsToggle.checked = false;
+        this.native = {};
+        this.syncNativeInputs();
+        this.setStrictChannel(false);
 
         this.updateSummary();
         this.updatePreview();
@@ -921,6 +1808,8 @@ export class FilterPanel {
             "#ysp-exclude-shorts"
         ) as HTMLInputElement;
         if (excludeShortsToggle) excludeShortsToggle.checked = false;
+        if (this.native.type === "video") delete this.native.type;
+        this.syncNativeInputs();
 
         // Reset keep toggle
         this.keepAfterSearch = false;
@@ -118,12 +118,22 @@ const FEATURE_INFO: Record<string, { title: string; description: string }> = {
         description:
             "Download search results as a CSV file for spreadsheets, research, and data analysis.",
     },
+    xlsx: {
+        title: "Export to Excel",
+        description:
+            "Download search results as an Excel workbook with numeric view counts, durations, upload dates and clickable links.",
+    },
+    json: {
+        title: "Export to JSON",
+        description:
+            "Download search results as JSON or JSON Lines, with the search and its filters, ready for scripts and data pipelines.",
+    },
 };
 
 const PRO_FEATURES = [
     "Keep filters after search",
     "Save & load filter templates",
-    "Export results to CSV",
+    "Export results to CSV, Excel and JSON",
     "Priority support",
 ];
 
@@ -6,6 +6,16 @@
  */
 
 import ExtPay from "extpay";
+import type { FilterTemplate } from "./panel";
+import { type QueryMacro, setMacros } from "./macros";
+import { isSavedSearch, savedSearchUrl } from "./search";
+import { markUsed } from "./templates";
+import {
+    type VariableHistory,
+    templateVariables,
+    fillTemplate,
+    initialValues,
+} from "./variables";
 
 const extpay = ExtPay("youtube-search-plus");
 
@@ -77,6 +87,70 @@ document.getElementById("replay-tour")?.addEventListener("click", async () => {
     window.close();
 });
 
+// ── Saved searches ──
+
+/**
+ * One click runs a saved search in this tab; ↗ opens it in a new one.
+ * There's no room to prompt here, so variables take their last-used values.
+ */
+async function renderSavedSearches() {
+    const result = await chrome.storage.local.get([
+        "ysp_templates",
+        "ysp_macros",
+        "ysp_template_vars",
+    ]);
+    setMacros((result.ysp_macros as QueryMacro[] | undefined) || []);
+    const history = (result.ysp_template_vars as VariableHistory | undefined) || {};
+    const searches = (
+        (result.ysp_templates as FilterTemplate[] | undefined) || []
+    ).filter(isSavedSearch);
+    if (!searches.length) return;
+
+    const list = document.getElementById("saved-searches")!;
+    for (const template of searches) {
+        const filled = fillTemplate(
+            template,
+            initialValues(templateVariables(template), history)
+        );
+        const url = new URL(savedSearchUrl(filled), "https://www.youtube.com").toString();
+        const row = document.createElement("div");
+        row.className = "popup-search";
+        row.innerHTML = `
+            <button class="popup-btn" title="Run this search">
+                <span class="popup-btn-label"></span>
+            </button>
+            <button class="popup-search-tab" title="Run in a new tab">&#8599;</button>
+        `;
+        row.querySelector(".popup-btn-label")!.textContent = template.name;
+        row.querySelector(".popup-btn")!.addEventListener("click", async () => {
+            await recordUse(template.name);
+            chrome.tabs.update({ url });
+            window.close();
+        });
+        row.querySelector(".popup-search-tab")!.addEventListener("click", async () => {
+            await recordUse(template.name);
+            chrome.tabs.create({ url });
+            window.close();
+        });
+        list.appendChild(row);
+    }
+    document.getElementById("saved-searches-section")!.style.display = "";
+}
+
+/** Count a run in the saved templates, as loading one in the panel does. */
+async function recordUse(name: string) {
+    try {
+        const result = await chrome.storage.local.get("ysp_templates");
+        const templates = (result.ysp_templates as FilterTemplate[] | undefined) || [];
+        const index = templates.findIndex((t) => t.name === name);
+        if (index < 0) return;
+        templates[index] = markUsed(templates[index]);
+        await chrome.storage.local.set({ ysp_templates: templates });
+    } catch {
+        /* ignore */
+    }
+}
+
 // ── Init ──
 
 (async () => {
@@ -86,6 +160,8 @@ document.getElementById("replay-tour")?.addEventListener("click", async () => {
     ) as HTMLImageElement | null;
     if (iconEl) iconEl.src = chrome.runtime.getURL("icons/icon-48.png");
 
+    renderSavedSearches();
+
     const isPro = await loadPlanStatus();
     renderPlanCard(isPro);
 
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import {
+    checkResult,
+    formatDuration,
+    hasPostFilterRules,
+    parseDuration,
+    parseViewCount,
+    type ResultFacts,
+} from "./postfilter";
+
+const facts = (overrides: Partial<ResultFacts> = {}): ResultFacts => ({
+    title: "Building a Rust Web Server from Scratch",
+    channel: "Code Academy",
+    channelHandle: "codeacademy",
+    views: 120_000,
+    duration: 15 * 60,
+    ...overrides,
+});
+
+// ── parseViewCount ───────────────────────────────────────────────────
+
+describe("parseViewCount", () => {
+    it("parses abbreviated counts", () => {
+        expect(parseViewCount("1.2M views")).toBe(1_200_000);
+        expect(parseViewCount("12K views")).toBe(12_000);
+        expect(parseViewCount("3.4B views")).toBe(3_400_000_000);
+    });
+
+    it("parses plain counts with separators", () => {
+        expect(parseViewCount("1,234 views")).toBe(1234);
+        expect(parseViewCount("7 views")).toBe(7);
+    });
+
+    it("treats 'No views' as zero", () => {
+        expect(parseViewCount("No views")).toBe(0);
+    });
+
+    it("returns null without a number", () => {
+        expect(parseViewCount("Scheduled")).toBeNull();
+        expect(parseViewCount("")).toBeNull();
+    });
+});
+
+// ── parseDuration / formatDuration ───────────────────────────────────
+
+describe("parseDuration", () => {
+    it("parses timestamps", () => {
+        expect(parseDuration("4:05")).toBe(245);
+        expect(parseDuration("1:02:03")).toBe(3723);
+        expect(parseDuration("0:59")).toBe(59);
+    });
+
+    it("reads bare numbers as minutes", () => {
+        expect(parseDuration("10")).toBe(600);
+        expect(parseDuration("1.5")).toBe(90);
+    });
+
+    it("returns null for anything else", () => {
+        expect(parseDuration("LIVE")).toBeNull();
+        expect(parseDuration("1:2:3:4")).toBeNull();
+        expect(parseDuration("")).toBeNull();
+    });
+});
+
+describe("formatDuration", () => {
+    it("formats m:ss and h:mm:ss", () => {
+        expect(formatDuration(245)).toBe("4:05");
+        expect(formatDuration(3723)).toBe("1:02:03");
+        expect(formatDuration(0)).toBe("0:00");
+    });
+});
+
+// ── hasPostFilterRules ───────────────────────────────────────────────
+
+describe("hasPostFilterRules", () => {
+    it("ignores the action and blank text", () => {
+        expect(hasPostFilterRules({ action: "dim" })).toBe(false);
+        expect(hasPostFilterRules({ action: "hide", titleIncludes: "  " })).toBe(
+            false
+        );
+    });
+
+    it("counts zero as a set bound", () => {
+        expect(hasPostFilterRules({ action: "hide", minViews: 0 })).toBe(true);
+    });
+});
+
+// ── checkResult ──────────────────────────────────────────────────────
+
+describe("checkResult", () => {
+    it("passes when no rule is broken", () => {
+        expect(
+            checkResult(facts(), {
+                action: "hide",
+                titleIncludes: "rust server",
+                minViews: 1000,
+                maxDuration: 20 * 60,
+            })
+        ).toEqual([]);
+    });
+
+    it("requires every title word and phrase, case-insensitively", () => {
+        expect(
+            checkResult(facts(), { action: "hide", titleIncludes: '"web server" go' })
+        ).toEqual(['title lacks "go"']);
+        expect(
+            checkResult(facts(), { action: "hide", titleIncludes: '"server web"' })
+        ).toEqual(['title lacks "server web"']);
+    });
+
+    it("rejects excluded title words", () => {
+        expect(
+            checkResult(facts(), { action: "hide", titleExcludes: "scratch tutorial" })
+        ).toEqual(['title has "scratch"']);
+    });
+
+    it("checks view and duration bounds", () => {
+        const rules = {
+            action: "hide" as const,
+            minViews: 200_000,
+            maxDuration: 10 * 60,
+        };
+        expect(checkResult(facts(), rules)).toEqual(["too few views", "too long"]);
+        expect(
+            checkResult(facts({ views: 5_000_000, duration: 30 }), {
+                action: "hide",
+                maxViews: 1_000_000,
+                minDuration: 60,
+            })
+        ).toEqual(["too many views", "too short"]);
+    });
+
+    it("skips numeric rules when the value is unknown", () => {
+        expect(
+            checkResult(facts({ views: null, duration: null }), {
+                action: "hide",
+                minViews: 1,
+                minDuration: 60,
+            })
+        ).toEqual([]);
+    });
+
+    it("matches channels by name or @handle", () => {
+        expect(
+            checkResult(facts(), { action: "hide", channelAllow: "@codeacademy" })
+        ).toEqual([]);
+        expect(
+            checkResult(facts(), { action: "hide", channelAllow: "Other, code academy" })
+        ).toEqual([]);
+        expect(
+            checkResult(facts(), { action: "hide", channelAllow: "Other" })
+        ).toEqual(["channel not allowed"]);
+        expect(
+            checkResult(facts(), { action: "hide", channelDeny: "spam, Code Academy" })
+        ).toEqual(["channel blocked"]);
+    });
+});
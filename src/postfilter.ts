@@ -0,0 +1,210 @@
+/**
+ * YouTube Search Plus — Result Post-Filter Rules
+ *
+ * YouTube treats several operators loosely (`intitle:` and `-word` are
+ * hints, `channel:` only boosts). These rules are checked against each
+ * loaded result on the page instead, so they're enforced strictly.
+ *
+ * Pure logic only — the DOM side lives in results.ts.
+ */
+
+import { parseQuery } from "./query";
+
+// ─── Rules ───────────────────────────────────────────────────────────
+
+/** What to do with a result that breaks a rule. */
+export type PostFilterAction = "hide" | "dim" | "tag";
+
+export interface PostFilterRules {
+    /** Every word/phrase must appear in the title */
+    titleIncludes?: string;
+    /** No word/phrase may appear in the title */
+    titleExcludes?: string;
+    minViews?: number;
+    maxViews?: number;
+    /** Seconds */
+    minDuration?: number;
+    /** Seconds */
+    maxDuration?: number;
+    /** Comma-separated channel names or @handles */
+    channelAllow?: string;
+    channelDeny?: string;
+    action: PostFilterAction;
+}
+
+export const POST_FILTER_ACTIONS: { value: PostFilterAction; label: string }[] =
+    [
+        { value: "hide", label: "Hide" },
+        { value: "dim", label: "Dim" },
+        { value: "tag", label: "Tag" },
+    ];
+
+export function hasPostFilterRules(rules: PostFilterRules): boolean {
+    return (
+        !!rules.titleIncludes?.trim() ||
+        !!rules.titleExcludes?.trim() ||
+        rules.minViews !== undefined ||
+        rules.maxViews !== undefined ||
+        rules.minDuration !== undefined ||
+        rules.maxDuration !== undefined ||
+        !!rules.channelAllow?.trim() ||
+        !!rules.channelDeny?.trim()
+    );
+}
+
+const TEXT_RULES = ["titleIncludes", "titleExcludes", "channelAllow", "channelDeny"] as const;
+const NUMBER_RULES = ["minViews", "maxViews", "minDuration", "maxDuration"] as const;
+
+/**
+ * Rules read back from untrusted JSON (template files, saved-search
+ * links). Unknown keys and wrongly typed values are dropped; null when
+ * no rule is left.
+ */
+export function readPostFilterRules(raw: unknown): PostFilterRules | null {
+    if (typeof raw !== "object" || raw === null) return null;
+    const r = raw as Record<string, unknown>;
+    const rules: PostFilterRules = {
+        action: POST_FILTER_ACTIONS.some((a) => a.value === r.action)
+            ? (r.action as PostFilterAction)
+            : "hide",
+    };
+    for (const key of TEXT_RULES) {
+        const value = r[key];
+        if (typeof value === "string" && value.trim()) rules[key] = value;
+    }
+    for (const key of NUMBER_RULES) {
+        const value = r[key];
+        if (typeof value === "number" && Number.isFinite(value) && value >= 0)
+            rules[key] = value;
+    }
+    return hasPostFilterRules(rules) ? rules : null;
+}
+
+// ─── Result facts ────────────────────────────────────────────────────
+
+/** What the rules are checked against, extracted from one result. */
+export interface ResultFacts {
+    title: string;
+    channel: string;
+    /** Channel handle without @ (may be empty) */
+    channelHandle: string;
+    /** null when YouTube didn't show a count (e.g. upcoming premieres) */
+    views: number | null;
+    /** Seconds; null for live streams and results without a timestamp */
+    duration: number | null;
+}
+
+// ─── Parsers ─────────────────────────────────────────────────────────
+
+const COUNT_SUFFIX: Record<string, number> = {
+    k: 1e3,
+    m: 1e6,
+    b: 1e9,
+};
+
+/**
+ * Parse a view count like "1.2M views", "12K", "1,234 views" or
+ * "No views". Returns null when there's no number in the text.
+ */
+export function parseViewCount(text: string): number | null {
+    const t = text.trim().toLowerCase();
+    if (/^no\b/.test(t)) return 0;
+    const match = t.match(/(\d[\d,]*(?:\.\d+)?)\s*([kmb])?/);
+    if (!match) return null;
+    const n = parseFloat(match[1].replace(/,/g, ""));
+    return Math.round(n * (match[2] ? COUNT_SUFFIX[match[2]] : 1));
+}
+
+/**
+ * Parse a timestamp like "12:34" or "1:02:03" into seconds.
+ * A bare number is read as minutes (handy for the panel inputs).
+ */
+export function parseDuration(text: string): number | null {
+    const t = text.trim();
+    if (/^\d+(\.\d+)?$/.test(t)) return Math.round(parseFloat(t) * 60);
+    if (!/^\d+(:\d{1,2}){1,2}$/.test(t)) return null;
+    return t
+        .split(":")
+        .reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+}
+
+/** Format seconds as m:ss or h:mm:ss. */
+export function formatDuration(seconds: number): string {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = String(seconds % 60).padStart(2, "0");
+    return h ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+/** Words and quoted phrases from a title rule, lowercased. */
+function titleTerms(value: string | undefined): string[] {
+    if (!value?.trim()) return [];
+    return parseQuery(value)
+        .nodes.map((n) =>
+            n.kind === "term" || n.kind === "phrase" ? n.text : ""
+        )
+        .filter(Boolean)
+        .map((t) => t.toLowerCase());
+}
+
+function channelList(value: string | undefined): string[] {
+    if (!value?.trim()) return [];
+    return value
+        .split(",")
+        .map((c) => c.trim().replace(/^@/, "").toLowerCase())
+        .filter(Boolean);
+}
+
+function channelMatches(facts: ResultFacts, list: string[]): boolean {
+    const name = facts.channel.toLowerCase();
+    const handle = facts.channelHandle.toLowerCase();
+    return list.some((c) => c === name || (handle && c === handle));
+}
+
+// ─── Evaluation ──────────────────────────────────────────────────────
+
+/**
+ * Check one result against the rules. Returns a short reason per
+ * broken rule (empty when the result passes).
+ */
+export function checkResult(
+    facts: ResultFacts,
+    rules: PostFilterRules
+): string[] {
+    const reasons: string[] = [];
+    const title = facts.title.toLowerCase();
+
+    const missing = titleTerms(rules.titleIncludes).filter(
+        (t) => !title.includes(t)
+    );
+    if (missing.length) reasons.push(`title lacks "${missing.join('", "')}"`);
+
+    const present = titleTerms(rules.titleExcludes).filter((t) =>
+        title.includes(t)
+    );
+    if (present.length) reasons.push(`title has "${present.join('", "')}"`);
+
+    if (facts.views !== null) {
+        if (rules.minViews !== undefined && facts.views < rules.minViews)
+            reasons.push("too few views");
+        if (rules.maxViews !== undefined && facts.views > rules.maxViews)
+            reasons.push("too many views");
+    }
+
+    if (facts.duration !== null) {
+        if (rules.minDuration !== undefined && facts.duration < rules.minDuration)
+            reasons.push("too short");
+        if (rules.maxDuration !== undefined && facts.duration > rules.maxDuration)
+            reasons.push("too long");
+    }
+
+    const allow = channelList(rules.channelAllow);
+    if (allow.length && !channelMatches(facts, allow))
+        reasons.push("channel not allowed");
+
+    const deny = channelList(rules.channelDeny);
+    if (deny.length && channelMatches(facts, deny))
+        reasons.push("channel blocked");
+
+    return reasons;
+}
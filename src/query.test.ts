@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import { parseQuery, formatQuery, type QueryNode } from "./query";
+
+const kinds = (q: string) => parseQuery(q).nodes.map((n) => n.kind);
+
+// ── parseQuery ───────────────────────────────────────────────────────
+
+describe("parseQuery", () => {
+    it("returns no nodes for empty or whitespace input", () => {
+        expect(parseQuery("").nodes).toEqual([]);
+        expect(parseQuery("   ").nodes).toEqual([]);
+    });
+
+    it("splits plain words into terms", () => {
+        const nodes = parseQuery("python tutorial").nodes;
+        expect(nodes).toHaveLength(2);
+        expect(nodes[0]).toMatchObject({ kind: "term", text: "python" });
+        expect(nodes[1]).toMatchObject({ kind: "term", text: "tutorial" });
+    });
+
+    it("records source spans", () => {
+        const nodes = parseQuery('go  "hello world" -x').nodes;
+        expect(nodes.map((n) => n.span)).toEqual([
+            { start: 0, end: 2 },
+            { start: 4, end: 17 },
+            { start: 18, end: 20 },
+        ]);
+    });
+
+    it("reads quoted phrases without interpreting their contents", () => {
+        const nodes = parseQuery('"c# -tips intitle:x"').nodes;
+        expect(nodes).toHaveLength(1);
+        expect(nodes[0]).toMatchObject({
+            kind: "phrase",
+            text: "c# -tips intitle:x",
+            negated: false,
+        });
+    });
+
+    it("runs an unterminated quote to the end of input", () => {
+        const nodes = parseQuery('react "custom hooks').nodes;
+        expect(nodes[1]).toMatchObject({ kind: "phrase", text: "custom hooks" });
+    });
+
+    it("treats a leading dash as negation", () => {
+        const nodes = parseQuery('-live -"full album" -#shorts').nodes;
+        expect(nodes.every((n) => n.negated)).toBe(true);
+        expect(kinds('-live -"full album" -#shorts')).toEqual([
+            "term",
+            "phrase",
+            "hashtag",
+        ]);
+    });
+
+    it("keeps hyphenated words and lone dashes as terms", () => {
+        const nodes = parseQuery("e-mail - setup").nodes;
+        expect(nodes.map((n) => [n.kind, n.negated])).toEqual([
+            ["term", false],
+            ["term", false],
+            ["term", false],
+        ]);
+        expect((nodes[0] as Extract<QueryNode, { kind: "term" }>).text).toBe(
+            "e-mail"
+        );
+    });
+
+    it("only treats # at the start of a token as a hashtag", () => {
+        expect(kinds("c# #dotnet # #")).toEqual([
+            "term",
+            "hashtag",
+            "term",
+            "term",
+        ]);
+    });
+
+    it("parses name:value operators", () => {
+        const nodes = parseQuery("intitle:review after:2024-01-01").nodes;
+        expect(nodes[0]).toMatchObject({
+            kind: "operator",
+            name: "intitle",
+            value: "review",
+        });
+        expect(nodes[1]).toMatchObject({
+            kind: "operator",
+            name: "after",
+            value: "2024-01-01",
+        });
+    });
+
+    it("parses quoted operator values", () => {
+        const nodes = parseQuery('intitle:"first look" more').nodes;
+        expect(nodes).toHaveLength(2);
+        expect(nodes[0]).toMatchObject({
+            kind: "operator",
+            name: "intitle",
+            value: "first look",
+        });
+    });
+
+    it("gives allintitle: the plain words after it", () => {
+        const nodes = parseQuery('allintitle:review 2025 -live "a b"').nodes;
+        expect(nodes.map((n) => n.kind)).toEqual(["operator", "term", "phrase"]);
+        expect(nodes[0]).toMatchObject({
+            name: "allintitle",
+            value: "review 2025",
+            span: { start: 0, end: 22 },
+        });
+    });
+
+    it("treats an operator with no value as a term", () => {
+        expect(kinds("intitle: review")).toEqual(["term", "term"]);
+    });
+
+    it("groups | and OR alternatives", () => {
+        const nodes = parseQuery('"react hooks" | "vue composables" OR svelte x')
+            .nodes;
+        expect(nodes.map((n) => n.kind)).toEqual(["or", "term"]);
+        const group = nodes[0] as Extract<QueryNode, { kind: "or" }>;
+        expect(group.operands.map((n) => n.kind)).toEqual([
+            "phrase",
+            "phrase",
+            "term",
+        ]);
+        expect(group.span).toEqual({ start: 0, end: 43 });
+    });
+
+    it("keeps dangling separators and lowercase or as terms", () => {
+        expect(kinds("| a or b |")).toEqual([
+            "term",
+            "term",
+            "term",
+            "term",
+            "term",
+        ]);
+    });
+});
+
+// ── formatQuery roundtrip ────────────────────────────────────────────
+
+describe("formatQuery ↔ parseQuery roundtrip", () => {
+    const queries = [
+        "python tutorial",
+        '"c# tutorial" -beginner',
+        "e-mail setup -spam",
+        'intitle:"first look" channel:mkbhd #tech',
+        '-"full album" -#shorts -intitle:reaction',
+        "http://example.com Re:Zero",
+        "react hooks after:2024-01-01 before:2024-12-31",
+        '"react hooks" | "vue composables" -jquery',
+        "pixel -live allintitle:review 2025",
+    ];
+
+    for (const q of queries) {
+        it(`roundtrips ${q}`, () => {
+            expect(formatQuery(parseQuery(q).nodes)).toBe(q);
+        });
+    }
+
+    it("normalises whitespace between tokens", () => {
+        expect(formatQuery(parseQuery("  a   b  ").nodes)).toBe("a b");
+    });
+
+    it("normalises OR to |", () => {
+        expect(formatQuery(parseQuery("a OR b").nodes)).toBe("a | b");
+    });
+});
@@ -0,0 +1,355 @@
+/**
+ * YouTube Search Plus — Query Tokenizer
+ *
+ * Turns a raw search-bar string into a typed AST of terms, quoted
+ * phrases, `name:value` operators, hashtags and OR groups, each with
+ * its negation flag and source span. Formatting the AST back gives the same
+ * query (modulo whitespace), so everything that reads or rewrites the
+ * search text goes through here instead of ad-hoc regexes.
+ *
+ * Rules (mirroring how YouTube reads the search box):
+ *   - `-` negates only at the start of a token and only when followed
+ *     by something (`e-mail` and a lone `-` are plain terms)
+ *   - `"` opens a phrase only at the start of a token (or after `-` /
+ *     `name:`); nothing inside a phrase is interpreted
+ *   - `#` starts a hashtag only at the start of a token (`c#` is a term)
+ *   - `name:value` is an operator when `name` is alphabetic and the
+ *     value is non-empty; the value may be quoted (`intitle:"a b"`)
+ *   - a standalone `|` or `OR` between two tokens joins them into an
+ *     OR group (always formatted back as `|`)
+ *   - `allintitle:` takes every plain word after it as its value
+ *     (`allintitle:review 2025`), up to the next non-plain token, and is
+ *     formatted back without quotes
+ */
+
+// ─── AST ─────────────────────────────────────────────────────────────
+
+/** Character offsets into the source string (end exclusive). */
+export interface SourceSpan {
+    start: number;
+    end: number;
+}
+
+interface BaseNode {
+    negated: boolean;
+    span: SourceSpan;
+}
+
+export interface TermNode extends BaseNode {
+    kind: "term";
+    text: string;
+}
+
+export interface PhraseNode extends BaseNode {
+    kind: "phrase";
+    text: string;
+}
+
+export interface OperatorNode extends BaseNode {
+    kind: "operator";
+    /** Operator name as written (compare case-insensitively) */
+    name: string;
+    value: string;
+}
+
+export interface HashtagNode extends BaseNode {
+    kind: "hashtag";
+    tag: string;
+}
+
+/** Alternatives joined by `|` / `OR` — matches if any operand matches. */
+export interface OrNode extends BaseNode {
+    kind: "or";
+    operands: QueryNode[];
+}
+
+export type QueryNode =
+    | TermNode
+    | PhraseNode
+    | OperatorNode
+    | HashtagNode
+    | OrNode;
+
+export interface QueryAST {
+    source: string;
+    nodes: QueryNode[];
+}
+
+// ─── Tokenizer ───────────────────────────────────────────────────────
+
+const WHITESPACE = /\s/;
+const OPERATOR_PREFIX = /^([a-zA-Z]+):/;
+const HASHTAG_START = /^[\p{L}\p{N}_]/u;
+const OR_SEPARATORS = new Set(["|", "OR"]);
+/** Operators whose value runs over the following plain words */
+const GREEDY_OPERATORS = new Set(["allintitle"]);
+
+function isSpace(ch: string | undefined): boolean {
+    return ch !== undefined && WHITESPACE.test(ch);
+}
+
+/**
+ * Read a quoted run starting at `pos` (which must be a `"`).
+ * Unterminated quotes run to the end of the input.
+ */
+function readQuoted(
+    source: string,
+    pos: number
+): { text: string; end: number } {
+    const close = source.indexOf('"', pos + 1);
+    if (close < 0) {
+        return { text: source.slice(pos + 1), end: source.length };
+    }
+    return { text: source.slice(pos + 1, close), end: close + 1 };
+}
+
+function readWord(source: string, pos: number): number {
+    let end = pos;
+    while (end < source.length && !isSpace(source[end])) end++;
+    return end;
+}
+
+/** True when a word would parse as a plain term (not a phrase, operator, etc.). */
+function isPlainWord(word: string): boolean {
+    if (word.length > 1 && word[0] === "-") return false;
+    if (word[0] === '"' || OR_SEPARATORS.has(word)) return false;
+    if (word[0] === "#" && HASHTAG_START.test(word.slice(1))) return false;
+    const op = word.match(OPERATOR_PREFIX);
+    return !op || op[0].length === word.length;
+}
+
+/** Read the plain words from `pos` on, for a greedy operator's value. */
+function readPlainWords(
+    source: string,
+    pos: number
+): { words: string[]; end: number } {
+    const words: string[] = [];
+    let end = pos;
+    let next = pos;
+    while (next < source.length) {
+        while (isSpace(source[next])) next++;
+        if (next >= source.length) break;
+        const wordEnd = readWord(source, next);
+        const word = source.slice(next, wordEnd);
+        if (!isPlainWord(word)) break;
+        words.push(word);
+        end = next = wordEnd;
+    }
+    return { words, end };
+}
+
+export function parseQuery(source: string): QueryAST {
+    const nodes: QueryNode[] = [];
+    let pos = 0;
+
+    // A separator seen after a node; the next node joins that node's group
+    let pendingOr: TermNode | null = null;
+
+    const push = (node: QueryNode) => {
+        if (!pendingOr) {
+            nodes.push(node);
+            return;
+        }
+        pendingOr = null;
+        const prev = nodes.pop()!;
+        const group: OrNode =
+            prev.kind === "or"
+                ? prev
+                : {
+                      kind: "or",
+                      operands: [prev],
+                      negated: false,
+                      span: { start: prev.span.start, end: prev.span.end },
+                  };
+        group.operands.push(node);
+        group.span.end = node.span.end;
+        nodes.push(group);
+    };
+
+    // Push an operator node and return where parsing continues
+    const pushOperator = (
+        name: string,
+        value: string,
+        negated: boolean,
+        start: number,
+        end: number
+    ): number => {
+        if (GREEDY_OPERATORS.has(name.toLowerCase())) {
+            const more = readPlainWords(source, end);
+            if (more.words.length) {
+                value = [value, ...more.words].join(" ");
+                end = more.end;
+            }
+        }
+        push({ kind: "operator", name, value, negated, span: { start, end } });
+        return end;
+    };
+
+    while (pos < source.length) {
+        if (isSpace(source[pos])) {
+            pos++;
+            continue;
+        }
+
+        const start = pos;
+        let negated = false;
+        if (
+            source[pos] === "-" &&
+            pos + 1 < source.length &&
+            !isSpace(source[pos + 1])
+        ) {
+            negated = true;
+            pos++;
+        }
+
+        // Quoted phrase
+        if (source[pos] === '"') {
+            const { text, end } = readQuoted(source, pos);
+            pos = end;
+            if (text.trim()) {
+                push({
+                    kind: "phrase",
+                    text: text.trim(),
+                    negated,
+                    span: { start, end },
+                });
+            }
+            continue;
+        }
+
+        // Operator (possibly with a quoted value)
+        const opMatch = source.slice(pos).match(OPERATOR_PREFIX);
+        if (opMatch) {
+            const valueStart = pos + opMatch[0].length;
+            if (source[valueStart] === '"') {
+                const { text, end } = readQuoted(source, valueStart);
+                if (text.trim()) {
+                    pos = pushOperator(opMatch[1], text.trim(), negated, start, end);
+                    continue;
+                }
+            } else if (valueStart < source.length && !isSpace(source[valueStart])) {
+                const end = readWord(source, valueStart);
+                pos = pushOperator(
+                    opMatch[1],
+                    source.slice(valueStart, end),
+                    negated,
+                    start,
+                    end
+                );
+                continue;
+            }
+        }
+
+        const end = readWord(source, pos);
+        const word = source.slice(pos, end);
+        pos = end;
+
+        // OR separator between two nodes
+        if (!negated && OR_SEPARATORS.has(word) && nodes.length) {
+            if (!pendingOr) {
+                pendingOr = {
+                    kind: "term",
+                    text: word,
+                    negated,
+                    span: { start, end },
+                };
+            }
+            continue;
+        }
+
+        // Hashtag
+        if (word[0] === "#" && HASHTAG_START.test(word.slice(1))) {
+            push({
+                kind: "hashtag",
+                tag: word.slice(1),
+                negated,
+                span: { start, end },
+            });
+            continue;
+        }
+
+        push({ kind: "term", text: word, negated, span: { start, end } });
+    }
+
+    // A trailing separator has nothing to join — keep it as a plain term
+    if (pendingOr) nodes.push(pendingOr);
+
+    return { source, nodes };
+}
+
+// ─── Formatter ───────────────────────────────────────────────────────
+
+/** Quote an operator value when it would otherwise split into tokens. */
+export function formatOperatorValue(value: string): string {
+    return WHITESPACE.test(value) ? `"${value}"` : value;
+}
+
+/** An operator's value as written after `name:`. */
+export function formatOperatorNodeValue(node: OperatorNode): string {
+    return GREEDY_OPERATORS.has(node.name.toLowerCase())
+        ? node.value
+        : formatOperatorValue(node.value);
+}
+
+/** Serialize a node without its negation prefix. */
+export function formatNodeBody(node: QueryNode): string {
+    switch (node.kind) {
+        case "term":
+            return node.text;
+        case "phrase":
+            return `"${node.text}"`;
+        case "operator":
+            return `${node.name}:${formatOperatorNodeValue(node)}`;
+        case "hashtag":
+            return `#${node.tag}`;
+        case "or":
+            return node.operands.map(formatNode).join(" | ");
+    }
+}
+
+export function formatNode(node: QueryNode): string {
+    return (node.negated ? "-" : "") + formatNodeBody(node);
+}
+
+export function formatQuery(nodes: QueryNode[]): string {
+    return nodes.map(formatNode).join(" ");
+}
+
+// ─── Node constructors ───────────────────────────────────────────────
+
+const NO_SPAN: SourceSpan = { start: 0, end: 0 };
+
+export function termNode(text: string, negated = false): TermNode {
+    return { kind: "term", text, negated, span: NO_SPAN };
+}
+
+export function phraseNode(text: string, negated = false): PhraseNode {
+    return {
+        kind: "phrase",
+        text: text.replace(/"/g, "").trim(),
+        negated,
+        span: NO_SPAN,
+    };
+}
+
+export function operatorNode(
+    name: string,
+    value: string,
+    negated = false
+): OperatorNode {
+    return {
+        kind: "operator",
+        name,
+        value: value.replace(/"/g, "").trim(),
+        negated,
+        span: NO_SPAN,
+    };
+}
+
+export function hashtagNode(tag: string, negated = false): HashtagNode {
+    return { kind: "hashtag", tag, negated, span: NO_SPAN };
+}
+
+export function orNode(operands: QueryNode[]): OrNode {
+    return { kind: "or", operands, negated: false, span: NO_SPAN };
+}
@@ -0,0 +1,172 @@
+/**
+ * YouTube Search Plus — Result Post-Filter (DOM)
+ *
+ * Applies PostFilterRules to every video result on the search results
+ * page: breaking results are hidden, dimmed or tagged. A MutationObserver
+ * re-runs the check as YouTube streams in more results while scrolling,
+ * and a floating counter shows how many were caught, with a toggle to
+ * reveal hidden ones.
+ */
+
+import {
+    type PostFilterRules,
+    type ResultFacts,
+    checkResult,
+    hasPostFilterRules,
+} from "./postfilter";
+import { readSearchPage } from "./channel";
+import { VIDEO_RENDERER, readVideoResult, readChannelHandle } from "./scrape";
+
+const STATE_ATTR = "data-ysp-pf";
+
+function readFacts(el: Element): ResultFacts {
+    const r = readVideoResult(el);
+    return {
+        title: r.title,
+        channel: r.channel,
+        channelHandle: readChannelHandle(el),
+        views: r.viewCount ?? null,
+        duration: r.durationSeconds ?? null,
+    };
+}
+
+export class ResultPostFilter {
+    private rules: PostFilterRules = { action: "hide" };
+    private observer: MutationObserver | null = null;
+    private counter: HTMLDivElement | null = null;
+    private pending: number | null = null;
+    private revealed = false;
+
+    /** Replace the active rules and re-check the page. */
+    setRules(rules: PostFilterRules) {
+        this.rules = rules;
+        this.revealed = false;
+        this.refresh();
+    }
+
+    /**
+     * Start or stop watching depending on whether we're on a results
+     * page with active rules. Call after every navigation.
+     */
+    refresh() {
+        const isResults = readSearchPage(window.location) !== null;
+        if (isResults && hasPostFilterRules(this.rules)) {
+            this.observe();
+            this.run();
+        } else {
+            this.stop();
+        }
+    }
+
+    private observe() {
+        if (this.observer) return;
+        this.observer = new MutationObserver((mutations) => {
+            // Ignore our own tag/attribute changes
+            const relevant = mutations.some((m) =>
+                Array.from(m.addedNodes).some(
+                    (n) =>
+                        n instanceof Element &&
+                        !n.classList.contains("ysp-pf-tag") &&
+                        (n.matches(VIDEO_RENDERER) ||
+                            !!n.querySelector(VIDEO_RENDERER))
+                )
+            );
+            if (relevant) this.schedule();
+        });
+        this.observer.observe(document.body, { childList: true, subtree: true });
+    }
+
+    private schedule() {
+        if (this.pending !== null) return;
+        this.pending = window.setTimeout(() => {
+            this.pending = null;
+            this.run();
+        }, 150);
+    }
+
+    private stop() {
+        this.observer?.disconnect();
+        this.observer = null;
+        if (this.pending !== null) clearTimeout(this.pending);
+        this.pending = null;
+        document
+            .querySelectorAll(`[${STATE_ATTR}]`)
+            .forEach((el) => this.clear(el));
+        this.counter?.remove();
+        this.counter = null;
+    }
+
+    // ── Apply ──
+
+    private run() {
+        let caught = 0;
+        document.querySelectorAll(VIDEO_RENDERER).forEach((el) => {
+            const reasons = checkResult(readFacts(el), this.rules);
+            this.clear(el);
+            if (!reasons.length) return;
+            caught++;
+            this.mark(el, reasons);
+        });
+        this.renderCounter(caught);
+    }
+
+    private mark(el: Element, reasons: string[]) {
+        const { action } = this.rules;
+        el.setAttribute(STATE_ATTR, action);
+        el.classList.toggle("ysp-pf-revealed", action === "hide" && this.revealed);
+
+        if (action === "tag" || (action === "hide" && this.revealed)) {
+            const tag = document.createElement("div");
+            tag.className = "ysp-pf-tag";
+            tag.textContent = `Filtered: ${reasons.join(" · ")}`;
+            el.prepend(tag);
+        } else {
+            (el as HTMLElement).title = `Filtered: ${reasons.join(" · ")}`;
+        }
+    }
+
+    private clear(el: Element) {
+        el.removeAttribute(STATE_ATTR);
+        el.classList.remove("ysp-pf-revealed");
+        el.querySelectorAll(":scope > .ysp-pf-tag").forEach((t) => t.remove());
+        if ((el as HTMLElement).title.startsWith("Filtered:"))
+            (el as HTMLElement).title = "";
+    }
+
+    // ── Counter ──
+
+    private renderCounter(caught: number) {
+        if (caught === 0) {
+            this.counter?.remove();
+            this.counter = null;
+            return;
+        }
+
+        if (!this.counter) {
+            this.counter = document.createElement("div");
+            this.counter.id = "ysp-pf-counter";
+            this.counter.addEventListener("click", (e) => {
+                const target = e.target as HTMLElement;
+                if (target.closest("#ysp-pf-reveal")) {
+                    this.revealed = !this.revealed;
+                    this.run();
+                }
+            });
+            document.body.appendChild(this.counter);
+        }
+
+        const verb =
+            this.rules.action === "hide"
+                ? "hidden"
+                : this.rules.action === "dim"
+                ? "dimmed"
+                : "tagged";
+        const toggle =
+            this.rules.action === "hide"
+                ? `<button id="ysp-pf-reveal" type="button">${
+                      this.revealed ? "Hide again" : "Show"
+                  }</button>`
+                : "";
+        this.counter.innerHTML = `<span>${caught} ${verb} by result filters</span>${toggle}`;
+    }
+}
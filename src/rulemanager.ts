@@ -0,0 +1,270 @@
+/**
+ * YouTube Search Plus — Auto-Apply Rule Manager (UI)
+ *
+ * Modal for the rules that attach templates to query patterns (see
+ * rules.ts): each rule can be switched on and off, moved up or down
+ * (earlier rules win) and deleted, and a form adds new ones. Rules are
+ * stored under `ysp_rules`.
+ */
+
+import {
+    type AutoApplyRule,
+    type RuleMatch,
+    RULE_MATCHES,
+    describeRule,
+    ruleError,
+} from "./rules";
+import { escapeHTML } from "./html";
+
+export class RuleManager {
+    private modal: HTMLDivElement | null = null;
+    private rules: AutoApplyRule[] = [];
+    private getTemplateNames: () => string[];
+
+    constructor(getTemplateNames: () => string[]) {
+        this.getTemplateNames = getTemplateNames;
+    }
+
+    /** Check if a DOM node is inside the modal (for outside-click exclusion). */
+    containsNode(node: Node): boolean {
+        return this.modal?.contains(node) ?? false;
+    }
+
+    /** Rules in priority order. */
+    getRules(): AutoApplyRule[] {
+        return this.rules;
+    }
+
+    /** Keep rules pointing at a template after it's renamed. */
+    renameTemplate(from: string, to: string) {
+        let changed = false;
+        for (const rule of this.rules) {
+            if (rule.template !== from) continue;
+            rule.template = to;
+            changed = true;
+        }
+        if (changed) this.saveRules();
+    }
+
+    async load() {
+        try {
+            const result = await chrome.storage.local.get("ysp_rules");
+            this.rules = (result.ysp_rules as AutoApplyRule[] | undefined) || [];
+        } catch {
+            /* ignore */
+        }
+    }
+
+    open() {
+        if (!this.modal) {
+            this.modal = this.buildModal();
+            document.body.appendChild(this.modal);
+        }
+        this.renderTemplateOptions();
+        this.renderList();
+        this.setStatus("");
+        this.modal.classList.add("ysp-info-open");
+        document.body.style.overflow = "hidden";
+    }
+
+    close() {
+        this.modal?.classList.remove("ysp-info-open");
+        document.body.style.overflow = "";
+    }
+
+    // ── Modal builder ──
+
+    private buildModal(): HTMLDivElement {
+        const modal = document.createElement("div");
+        modal.id = "ysp-rule-modal";
+        modal.innerHTML = `
+            <div class="ysp-info-backdrop"></div>
+            <div class="ysp-info-content ysp-rule-content">
+                <div class="ysp-info-header">
+                    <h3>Auto-apply Rules</h3>
+                    <button class="ysp-info-close" id="ysp-rule-close" type="button">&times;</button>
+                </div>
+                <div class="ysp-rule-body">
+                    <p class="ysp-rule-hint">When you search, the first enabled rule that matches your query applies its template. Filters you saved yourself win over the template.</p>
+                    <div class="ysp-rule-list" id="ysp-rule-list"></div>
+                    <label class="ysp-template-modal-label" for="ysp-rule-pattern">When the query</label>
+                    <div class="ysp-rule-form">
+                        <select id="ysp-rule-match">
+                            ${RULE_MATCHES.map(
+                                (m) => `<option value="${m.value}">${m.label}</option>`
+                            ).join("")}
+                        </select>
+                        <input type="text" id="ysp-rule-pattern" placeholder="e.g. news" />
+                    </div>
+                    <label class="ysp-template-modal-label" for="ysp-rule-template">apply template</label>
+                    <select id="ysp-rule-template"></select>
+                    <div class="ysp-multi-status" id="ysp-rule-status"></div>
+                    <div class="ysp-template-modal-actions">
+                        <button class="ysp-btn ysp-btn-clear" id="ysp-rule-done" type="button">Done</button>
+                        <button class="ysp-btn ysp-btn-apply" id="ysp-rule-add" type="button">Add Rule</button>
+                    </div>
+                </div>
+            </div>
+        `;
+
+        modal
+            .querySelector(".ysp-info-backdrop")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-rule-close")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-rule-done")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-rule-add")
+            ?.addEventListener("click", () => this.addRule());
+
+        // Row controls via delegation
+        const list = modal.querySelector("#ysp-rule-list");
+        list?.addEventListener("change", (e) => {
+            const toggle = (e.target as HTMLElement).closest<HTMLInputElement>(
+                "[data-rule-toggle]"
+            );
+            if (!toggle) return;
+            this.rules[Number(toggle.dataset.ruleToggle)].enabled = toggle.checked;
+            this.saveRules();
+        });
+        list?.addEventListener("click", (e) => {
+            const btn = (e.target as HTMLElement).closest<HTMLElement>(
+                "[data-rule-action]"
+            );
+            if (!btn) return;
+            const index = Number(btn.dataset.ruleIndex);
+            switch (btn.dataset.ruleAction) {
+                case "up":
+                    this.move(index, -1);
+                    break;
+                case "down":
+                    this.move(index, 1);
+                    break;
+                case "delete":
+                    this.rules.splice(index, 1);
+                    this.saveRules();
+                    break;
+            }
+        });
+
+        return modal;
+    }
+
+    private renderTemplateOptions() {
+        const select = this.modal?.querySelector(
+            "#ysp-rule-template"
+        ) as HTMLSelectElement;
+        if (!select) return;
+        const names = this.getTemplateNames();
+        select.innerHTML = names.length
+            ? names
+                  .map(
+                      (n) =>
+                          `<option value="${escapeHTML(n)}">${escapeHTML(n)}</option>`
+                  )
+                  .join("")
+            : `<option value="">Save a template first</option>`;
+    }
+
+    private renderList() {
+        const list = this.modal?.querySelector("#ysp-rule-list");
+        if (!list) return;
+        const names = this.getTemplateNames();
+
+        list.innerHTML = this.rules.length
+            ? this.rules
+                  .map((rule, i) => {
+                      const problem =
+                          ruleError(rule) ||
+                          (names.includes(rule.template)
+                              ? null
+                              : "Template no longer exists");
+                      return `
+                <div class="ysp-rule-row${rule.enabled ? "" : " ysp-rule-off"}">
+                    <input type="checkbox" data-rule-toggle="${i}" ${
+                        rule.enabled ? "checked" : ""
+                    } title="Enable or disable this rule" />
+                    <span class="ysp-rule-desc">
+                        <span class="ysp-rule-priority">${i + 1}.</span>
+                        ${escapeHTML(describeRule(rule))} → <strong>${escapeHTML(
+                            rule.template
+                        )}</strong>
+                        ${
+                            problem
+                                ? `<span class="ysp-rule-problem">${escapeHTML(problem)}</span>`
+                                : ""
+                        }
+                    </span>
+                    <button class="ysp-rule-btn" type="button" data-rule-action="up" data-rule-index="${i}" title="Higher priority" ${
+                        i === 0 ? "disabled" : ""
+                    }>↑</button>
+                    <button class="ysp-rule-btn" type="button" data-rule-action="down" data-rule-index="${i}" title="Lower priority" ${
+                        i === this.rules.length - 1 ? "disabled" : ""
+                    }>↓</button>
+                    <button class="ysp-rule-btn" type="button" data-rule-action="delete" data-rule-index="${i}" title="Delete rule">&times;</button>
+                </div>`;
+                  })
+                  .join("")
+            : `<div class="ysp-macro-empty">No rules yet.</div>`;
+    }
+
+    private setStatus(text: string) {
+        const status = this.modal?.querySelector("#ysp-rule-status");
+        if (!status) return;
+        status.textContent = text;
+        status.classList.toggle("ysp-multi-status--warn", !!text);
+    }
+
+    // ── Editing ──
+
+    private addRule() {
+        const match = (this.modal?.querySelector("#ysp-rule-match") as HTMLSelectElement)
+            .value as RuleMatch;
+        const patternInput = this.modal?.querySelector(
+            "#ysp-rule-pattern"
+        ) as HTMLInputElement;
+        const template = (
+            this.modal?.querySelector("#ysp-rule-template") as HTMLSelectElement
+        ).value;
+
+        const rule: AutoApplyRule = {
+            match,
+            pattern: patternInput.value.trim(),
+            template,
+            enabled: true,
+        };
+        const problem = template ? ruleError(rule) : "Choose a template";
+        if (problem) {
+            this.setStatus(problem);
+            patternInput.focus();
+            return;
+        }
+
+        this.rules.push(rule);
+        this.saveRules();
+        patternInput.value = "";
+        this.setStatus("");
+    }
+
+    private move(index: number, delta: number) {
+        const target = index + delta;
+        if (target < 0 || target >= this.rules.length) return;
+        [this.rules[index], this.rules[target]] = [
+            this.rules[target],
+            this.rules[index],
+        ];
+        this.saveRules();
+    }
+
+    private saveRules() {
+        try {
+            chrome.storage.local.set({ ysp_rules: this.rules });
+        } catch {
+            /* ignore */
+        }
+        this.renderList();
+    }
+}
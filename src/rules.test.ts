@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+    type AutoApplyRule,
+    ruleMatches,
+    ruleError,
+    findAutoApply,
+    describeRule,
+    withTemplate,
+} from "./rules";
+import { type FilterTemplate } from "./panel";
+
+const rule = (
+    match: AutoApplyRule["match"],
+    pattern: string,
+    template = "T",
+    enabled = true
+): AutoApplyRule => ({ match, pattern, template, enabled });
+
+const TEMPLATES: FilterTemplate[] = [
+    { name: "Python", filters: [{ id: "intitle", value: "tutorial" }] },
+    { name: "News", filters: [], native: { sort: "date" } },
+];
+
+// ── ruleMatches ──────────────────────────────────────────────────────
+
+describe("ruleMatches", () => {
+    it("matches prefixes and substrings case-insensitively", () => {
+        expect(ruleMatches(rule("startsWith", "News"), "  news today")).toBe(true);
+        expect(ruleMatches(rule("startsWith", "news"), "latest news")).toBe(false);
+        expect(ruleMatches(rule("contains", "python"), "learn Python fast")).toBe(
+            true
+        );
+    });
+
+    it("matches regexes case-insensitively", () => {
+        const r = rule("regex", "\\bpython\\b");
+        expect(ruleMatches(r, "Python decorators")).toBe(true);
+        expect(ruleMatches(r, "pythonista")).toBe(false);
+    });
+
+    it("never matches an invalid or empty pattern", () => {
+        expect(ruleMatches(rule("regex", "(python"), "(python")).toBe(false);
+        expect(ruleMatches(rule("contains", "  "), "anything")).toBe(false);
+    });
+});
+
+describe("ruleError", () => {
+    it("explains invalid patterns", () => {
+        expect(ruleError(rule("regex", "(python"))).toBe("Invalid regex: /(python/");
+        expect(ruleError(rule("startsWith", ""))).toBe("Enter a pattern");
+        expect(ruleError(rule("regex", "^news"))).toBeNull();
+    });
+});
+
+// ── findAutoApply ────────────────────────────────────────────────────
+
+describe("findAutoApply", () => {
+    it("returns the first enabled matching rule, in priority order", () => {
+        const rules = [
+            rule("contains", "python", "News", false),
+            rule("regex", "\\bpython\\b", "Python"),
+            rule("contains", "py", "News"),
+        ];
+        const found = findAutoApply(rules, TEMPLATES, "python news");
+        expect(found?.rule).toBe(rules[1]);
+        expect(found?.template.name).toBe("Python");
+    });
+
+    it("skips rules whose template was deleted", () => {
+        const rules = [rule("contains", "x", "Gone"), rule("contains", "x", "News")];
+        expect(findAutoApply(rules, TEMPLATES, "x")?.template.name).toBe("News");
+    });
+
+    it("ignores an empty query", () => {
+        expect(findAutoApply([rule("regex", ".*", "News")], TEMPLATES, " ")).toBeNull();
+    });
+});
+
+describe("describeRule", () => {
+    it("reads like the rule form", () => {
+        expect(describeRule(rule("startsWith", "news"))).toBe('starts with "news"');
+        expect(describeRule(rule("regex", "\\bpython\\b"))).toBe(
+            "matches /\\bpython\\b/"
+        );
+    });
+});
+
+// ── withTemplate ─────────────────────────────────────────────────────
+
+describe("withTemplate", () => {
+    const template: FilterTemplate = {
+        name: "T",
+        filters: [
+            { id: "intitle", value: "tutorial" },
+            { id: "channel", value: "@fireship" },
+        ],
+        native: { sort: "date", type: "video" },
+        excludeShorts: true,
+        strictChannel: true,
+    };
+
+    it("fills in what the saved filters leave unset", () => {
+        expect(
+            withTemplate(
+                {
+                    text: [{ id: "intitle", value: "review" }],
+                    native: { sort: "views", duration: undefined },
+                    excludeShorts: false,
+                    strictChannel: false,
+                },
+                template
+            )
+        ).toEqual({
+            text: [
+                { id: "channel", value: "@fireship" },
+                { id: "intitle", value: "review" },
+            ],
+            native: { sort: "views", type: "video" },
+            excludeShorts: true,
+            strictChannel: true,
+        });
+    });
+
+    it("keeps a saved channel's own strict setting", () => {
+        const applied = withTemplate(
+            {
+                text: [{ id: "channel", value: "@mkbhd" }],
+                native: {},
+                excludeShorts: false,
+                strictChannel: false,
+            },
+            template
+        );
+        expect(applied.strictChannel).toBe(false);
+    });
+});
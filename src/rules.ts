@@ -0,0 +1,119 @@
+/**
+ * YouTube Search Plus — Auto-Apply Rules
+ *
+ * A rule attaches a template to a query pattern: "when the query
+ * matches /\bpython\b/, apply Python Tutorials". Rules are checked in
+ * priority order (their order in the list) when a search is submitted;
+ * the first enabled rule that matches adds its template's filters to
+ * that search. Filters the user saved themselves win over the template.
+ */
+
+import type { FilterTemplate } from "./panel";
+import type { ActiveTextFilter } from "./filters";
+import type { NativeFilters } from "./sp";
+
+export type RuleMatch = "regex" | "startsWith" | "contains";
+
+export interface AutoApplyRule {
+    match: RuleMatch;
+    pattern: string;
+    /** Template name */
+    template: string;
+    enabled: boolean;
+}
+
+export const RULE_MATCHES: { value: RuleMatch; label: string }[] = [
+    { value: "startsWith", label: "starts with" },
+    { value: "contains", label: "contains" },
+    { value: "regex", label: "matches regex" },
+];
+
+/** The search settings a template can contribute to. */
+export interface AppliedFilters {
+    text: ActiveTextFilter[];
+    native: NativeFilters;
+    excludeShorts: boolean;
+    strictChannel: boolean;
+}
+
+// ─── Matching ────────────────────────────────────────────────────────
+
+/** Why a rule can never match, or null if it's fine. */
+export function ruleError(rule: AutoApplyRule): string | null {
+    if (!rule.pattern.trim()) return "Enter a pattern";
+    if (rule.match !== "regex") return null;
+    try {
+        new RegExp(rule.pattern, "i");
+        return null;
+    } catch {
+        return `Invalid regex: /${rule.pattern}/`;
+    }
+}
+
+/** Case-insensitive; the query is trimmed first. */
+export function ruleMatches(rule: AutoApplyRule, query: string): boolean {
+    if (ruleError(rule)) return false;
+    const q = query.trim().toLowerCase();
+    const pattern = rule.pattern.trim().toLowerCase();
+    switch (rule.match) {
+        case "startsWith":
+            return q.startsWith(pattern);
+        case "contains":
+            return q.includes(pattern);
+        case "regex":
+            return new RegExp(rule.pattern, "i").test(query.trim());
+    }
+}
+
+/**
+ * The first enabled rule (in priority order) matching the query, with
+ * its template. Rules whose template no longer exists are skipped.
+ */
+export function findAutoApply(
+    rules: AutoApplyRule[],
+    templates: FilterTemplate[],
+    query: string
+): { rule: AutoApplyRule; template: FilterTemplate } | null {
+    if (!query.trim()) return null;
+    for (const rule of rules) {
+        if (!rule.enabled) continue;
+        const template = templates.find((t) => t.name === rule.template);
+        if (template && ruleMatches(rule, query)) return { rule, template };
+    }
+    return null;
+}
+
+/** Short description, e.g. `starts with "news"` or `matches /\bpython\b/`. */
+export function describeRule(rule: AutoApplyRule): string {
+    return rule.match === "regex"
+        ? `matches /${rule.pattern}/`
+        : `${RULE_MATCHES.find((m) => m.value === rule.match)!.label} "${rule.pattern}"`;
+}
+
+// ─── Applying ────────────────────────────────────────────────────────
+
+/**
+ * Layer the saved filters over a template: the template fills in
+ * whatever the saved filters leave unset (by filter id and native key).
+ */
+export function withTemplate(
+    saved: AppliedFilters,
+    template: FilterTemplate
+): AppliedFilters {
+    const savedIds = new Set(saved.text.map((f) => f.id));
+    const native = { ...(template.native || {}) } as Record<string, unknown>;
+    for (const [key, value] of Object.entries(saved.native)) {
+        if (value !== undefined) native[key] = value;
+    }
+    return {
+        text: [
+            ...template.filters.filter((f) => !savedIds.has(f.id)),
+            ...saved.text,
+        ],
+        native: native as NativeFilters,
+        excludeShorts: saved.excludeShorts || !!template.excludeShorts,
+        strictChannel: savedIds.has("channel")
+            ? saved.strictChannel
+            : !!template.strictChannel,
+    };
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { videoIdFromUrl, handleFromHref } from "./scrape";
+
+// ── videoIdFromUrl ───────────────────────────────────────────────────
+
+describe("videoIdFromUrl", () => {
+    it("reads watch, Shorts and short-link URLs", () => {
+        expect(videoIdFromUrl("https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=1")).toBe(
+            "dQw4w9WgXcQ"
+        );
+        expect(videoIdFromUrl("https://www.youtube.com/shorts/abcdefghijk")).toBe(
+            "abcdefghijk"
+        );
+        expect(videoIdFromUrl("https://youtu.be/dQw4w9WgXcQ")).toBe("dQw4w9WgXcQ");
+    });
+
+    it("returns empty string without an ID", () => {
+        expect(videoIdFromUrl("https://www.youtube.com/@mkbhd")).toBe("");
+    });
+});
+
+// ── handleFromHref ───────────────────────────────────────────────────
+
+describe("handleFromHref", () => {
+    it("reads and decodes the handle", () => {
+        expect(handleFromHref("/@mkbhd/videos")).toBe("mkbhd");
+        expect(handleFromHref("/@caf%C3%A9")).toBe("café");
+    });
+
+    it("keeps a malformed %-escape instead of throwing", () => {
+        expect(handleFromHref("/@foo%E0")).toBe("foo%E0");
+    });
+
+    it("returns empty string without a handle", () => {
+        expect(handleFromHref(`/channel/UC${"x".repeat(22)}`)).toBe("");
+    });
+});
@@ -0,0 +1,343 @@
+/**
+ * YouTube Search Plus — Result Scraping
+ *
+ * Reads results out of YouTube's search results DOM. Shared by the
+ * exporter and the result post-filter so both see the same fields.
+ * Views, upload date and duration are also normalized into values,
+ * read in the page's language (see normalize.ts).
+ *
+ * Besides videos, a results page mixes in channels, playlists, mixes and
+ * Shorts shelves. Each is read into the same VideoResult shape with its
+ * `resultType`; a Shorts shelf gives one result per Short. The post-filter
+ * only deals with videos (VIDEO_RENDERER).
+ */
+
+import { normalizeResult, badgeName } from "./normalize";
+
+// ── Types ──
+
+export type ResultKind = "video" | "short" | "channel" | "playlist" | "mix";
+
+/** Result kinds in the order the export panel offers them */
+export const RESULT_KINDS: { kind: ResultKind; label: string }[] = [
+    { kind: "video", label: "Videos" },
+    { kind: "short", label: "Shorts" },
+    { kind: "channel", label: "Channels" },
+    { kind: "playlist", label: "Playlists" },
+    { kind: "mix", label: "Mixes" },
+];
+
+const ALL_KINDS = RESULT_KINDS.map((k) => k.kind);
+
+/** A search result; despite the name, also a channel, playlist or mix. */
+export interface VideoResult {
+    title: string;
+    url: string;
+    channel: string;
+    views: string;
+    published: string;
+    duration: string;
+    /** Parsed from `views`; null when YouTube didn't show a count */
+    viewCount?: number | null;
+    /** Approximate upload date (YYYY-MM-DD) parsed from `published` */
+    uploadDate?: string | null;
+    /** Window the upload date falls in (YYYY-MM-DD) */
+    uploadDateEarliest?: string | null;
+    uploadDateLatest?: string | null;
+    /** Parsed from `duration`; null for live streams */
+    durationSeconds?: number | null;
+    /** 1-based position on the results page */
+    rank?: number;
+    resultType?: ResultKind;
+    videoId?: string;
+    /** Channel handle without @ (empty for channels without one) */
+    channelHandle?: string;
+    channelUrl?: string;
+    /** The channel has a verified (or official artist) badge */
+    verified?: boolean;
+    thumbnail?: string;
+    /** Description snippet shown under the result */
+    description?: string;
+    /** "New", "4K", "CC", "Live", "Premiere", "Members only", … */
+    badges?: string[];
+    isShort?: boolean;
+    /** Channel(s) whose search returned this result (multi-channel search only) */
+    sourceChannel?: string;
+}
+
+/** Selector for a single video result on the search results page. */
+export const VIDEO_RENDERER = "ytd-video-renderer";
+
+const CHANNEL_RENDERER = "ytd-channel-renderer";
+const PLAYLIST_RENDERER = "ytd-playlist-renderer";
+const MIX_RENDERER = "ytd-radio-renderer";
+/** Shorts shelf: the older reel shelf and the newer grid shelf */
+const SHORTS_SHELF = "ytd-reel-shelf-renderer, grid-shelf-view-model";
+/** A Short in a shelf (the v2 lockup wraps a plain one, so only match that) */
+const SHORTS_ITEM = "ytm-shorts-lockup-view-model, ytd-reel-item-renderer";
+
+const RESULT_RENDERERS = [
+    VIDEO_RENDERER,
+    CHANNEL_RENDERER,
+    PLAYLIST_RENDERER,
+    MIX_RENDERER,
+    SHORTS_SHELF,
+].join(", ");
+
+interface ResultElement {
+    el: Element;
+    kind: ResultKind;
+}
+
+/**
+ * Result elements of the given kinds in page order. A Shorts shelf
+ * contributes its Shorts; a video renderer linking to /shorts/ is a Short.
+ */
+function resultElements(root: ParentNode, kinds: ResultKind[]): ResultElement[] {
+    const found: ResultElement[] = [];
+    for (const el of root.querySelectorAll(RESULT_RENDERERS)) {
+        if (el.matches(SHORTS_SHELF)) {
+            el.querySelectorAll(SHORTS_ITEM).forEach((item) =>
+                found.push({ el: item, kind: "short" })
+            );
+        } else if (el.matches(VIDEO_RENDERER)) {
+            const short = !!el.querySelector(
+                'a#video-title[href*="/shorts/"], [overlay-style="SHORTS"]'
+            );
+            found.push({ el, kind: short ? "short" : "video" });
+        } else if (el.matches(CHANNEL_RENDERER)) {
+            found.push({ el, kind: "channel" });
+        } else if (el.matches(PLAYLIST_RENDERER)) {
+            found.push({ el, kind: "playlist" });
+        } else {
+            found.push({ el, kind: "mix" });
+        }
+    }
+    return found.filter((r) => kinds.includes(r.kind));
+}
+
+/** Number of results of the given kinds loaded on the page. */
+export function countResults(
+    root: ParentNode = document,
+    kinds: ResultKind[] = ALL_KINDS
+): number {
+    return resultElements(root, kinds).length;
+}
+
+// ── URLs ──
+
+/** Video ID from a watch or Shorts URL, or "" when there isn't one. */
+export function videoIdFromUrl(url: string): string {
+    const match = url.match(/(?:[?&]v=|\/shorts\/|youtu\.be\/)([\w-]{11})/);
+    return match ? match[1] : "";
+}
+
+// ── Readers ──
+
+/** The language YouTube's interface is shown in, e.g. "de-DE". */
+export function pageLanguage(): string {
+    return document.documentElement.lang || "en";
+}
+
+/**
+ * Read one `ytd-video-renderer` into a VideoResult; relative upload
+ * dates count back from `now`.
+ */
+export function readVideoResult(
+    el: Element,
+    now: Date = new Date(),
+    lang: string = pageLanguage()
+): VideoResult {
+    const titleEl = el.querySelector("#video-title") as HTMLElement | null;
+    const channelEl = el.querySelector(
+        "ytd-channel-name a, #channel-name a"
+    ) as HTMLAnchorElement | null;
+    const metaSpans = el.querySelectorAll("#metadata-line span");
+    const durationEl = el.querySelector(
+        "ytd-thumbnail-overlay-time-status-renderer span"
+    ) as HTMLElement | null;
+    const linkEl = el.querySelector("a#video-title") as HTMLAnchorElement | null;
+    const snippetEl = el.querySelector(
+        ".metadata-snippet-text, #description-text"
+    ) as HTMLElement | null;
+    const overlayStyle =
+        el
+            .querySelector("ytd-thumbnail-overlay-time-status-renderer")
+            ?.getAttribute("overlay-style") || "";
+
+    const shown = {
+        title: titleEl?.textContent?.trim() || "",
+        url: linkEl?.href || "",
+        channel: channelEl?.textContent?.trim() || "",
+        views: (metaSpans[0] as HTMLElement)?.textContent?.trim() || "",
+        published: (metaSpans[1] as HTMLElement)?.textContent?.trim() || "",
+        duration: durationEl?.textContent?.trim() || "",
+    };
+    const videoId = videoIdFromUrl(shown.url);
+    const isShort = shown.url.includes("/shorts/") || overlayStyle === "SHORTS";
+    return {
+        ...shown,
+        ...normalizeResult(shown, now, lang),
+        videoId,
+        channelHandle: readChannelHandle(el),
+        channelUrl: channelEl?.href || "",
+        verified: !!el.querySelector(
+            "ytd-channel-name .badge-style-type-verified, ytd-channel-name .badge-style-type-verified-artist"
+        ),
+        thumbnail: videoId
+            ? `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`
+            : el.querySelector<HTMLImageElement>("ytd-thumbnail img")?.src || "",
+        description: snippetEl?.textContent?.replace(/\s+/g, " ").trim() || "",
+        badges: readBadges(el, overlayStyle),
+        isShort,
+        resultType: isShort ? "short" : "video",
+    };
+}
+
+/** Text of the first element matching `selector`, whitespace collapsed. */
+function textOf(el: Element, selector: string): string {
+    const text = el.querySelector(selector)?.textContent || "";
+    return text.replace(/\s+/g, " ").trim();
+}
+
+function hrefOf(el: Element, selector: string): string {
+    return el.querySelector<HTMLAnchorElement>(selector)?.href || "";
+}
+
+/** Read a Short from a Shorts shelf. */
+function readShortResult(el: Element, now: Date, lang: string): VideoResult {
+    const shown = {
+        title: textOf(el, "h3, #video-title"),
+        url: hrefOf(el, 'a[href*="/shorts/"]'),
+        channel: "",
+        views: textOf(
+            el,
+            ".shortsLockupViewModelHostMetadataSubhead, .shortsLockupViewModelHostOutsideMetadataSubhead, #metadata-line span"
+        ),
+        published: "",
+        duration: "",
+    };
+    const videoId = videoIdFromUrl(shown.url);
+    return {
+        ...shown,
+        ...normalizeResult(shown, now, lang),
+        videoId,
+        thumbnail: videoId
+            ? `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`
+            : el.querySelector<HTMLImageElement>("img")?.src || "",
+        isShort: true,
+        resultType: "short",
+    };
+}
+
+/** Read a `ytd-channel-renderer`: the channel is both title and channel. */
+function readChannelResult(el: Element): VideoResult {
+    const name = textOf(
+        el,
+        "#channel-title #text, ytd-channel-name #text, #channel-title"
+    );
+    const linkEl = el.querySelector<HTMLAnchorElement>("a#main-link, a.channel-link");
+    const url = linkEl?.href || "";
+    return {
+        title: name,
+        url,
+        channel: name,
+        views: "",
+        published: "",
+        duration: "",
+        channelHandle: handleFromHref(linkEl?.getAttribute("href") || ""),
+        channelUrl: url,
+        verified: !!el.querySelector(
+            ".badge-style-type-verified, .badge-style-type-verified-artist"
+        ),
+        thumbnail: el.querySelector<HTMLImageElement>("img")?.src || "",
+        description: textOf(el, "#description"),
+        isShort: false,
+        resultType: "channel",
+    };
+}
+
+/** Read a `ytd-playlist-renderer` or a mix (`ytd-radio-renderer`). */
+function readListResult(el: Element, kind: ResultKind): VideoResult {
+    const channelEl = el.querySelector<HTMLAnchorElement>(
+        "ytd-channel-name a, #channel-name a"
+    );
+    return {
+        title: textOf(el, "#video-title"),
+        url: hrefOf(el, 'a[href*="list="]'),
+        channel: channelEl?.textContent?.trim() || "",
+        views: "",
+        published: "",
+        duration: "",
+        channelHandle: readChannelHandle(el),
+        channelUrl: channelEl?.href || "",
+        thumbnail: el.querySelector<HTMLImageElement>("img")?.src || "",
+        isShort: false,
+        resultType: kind,
+    };
+}
+
+/** The result's badges, by name, including a live stream's LIVE overlay. */
+function readBadges(el: Element, overlayStyle: string): string[] {
+    const names = [...el.querySelectorAll<HTMLElement>("#badges .badge")].map(
+        (badge) => badgeName(badge.textContent || "", badge.className)
+    );
+    if (overlayStyle === "LIVE") names.push("Live");
+    return [...new Set(names.filter(Boolean))];
+}
+
+/** Channel handle (without @) from a result's channel link, if present. */
+export function readChannelHandle(el: Element): string {
+    const channelEl = el.querySelector(
+        "ytd-channel-name a, #channel-name a"
+    ) as HTMLAnchorElement | null;
+    return handleFromHref(channelEl?.getAttribute("href") || "");
+}
+
+/** Handle (without @) from a channel link; a malformed %-escape is kept as written. */
+export function handleFromHref(href: string): string {
+    const match = href.match(/\/@([^/?#]+)/);
+    if (!match) return "";
+    try {
+        return decodeURIComponent(match[1]);
+    } catch {
+        return match[1];
+    }
+}
+
+/**
+ * Scrape up to `maxCount` results of the given kinds from the current
+ * page, in page order. `rank` counts every result kind, so it stays the
+ * position on the page whichever kinds are kept.
+ */
+export function scrapeResults(
+    maxCount: number,
+    root: ParentNode = document,
+    kinds: ResultKind[] = ALL_KINDS
+): VideoResult[] {
+    const results: VideoResult[] = [];
+
+    const now = new Date();
+    const lang = pageLanguage();
+    const elements = resultElements(root, ALL_KINDS);
+    for (let i = 0; i < elements.length && results.length < maxCount; i++) {
+        const { el, kind } = elements[i];
+        if (!kinds.includes(kind)) continue;
+        const result = readResult(el, kind, now, lang);
+        if (result.title || result.url) results.push({ ...result, rank: i + 1 });
+    }
+
+    return results;
+}
+
+function readResult(
+    el: Element,
+    kind: ResultKind,
+    now: Date,
+    lang: string
+): VideoResult {
+    if (el.matches(VIDEO_RENDERER)) return readVideoResult(el, now, lang);
+    if (kind === "short") return readShortResult(el, now, lang);
+    if (kind === "channel") return readChannelResult(el);
+    return readListResult(el, kind);
+}
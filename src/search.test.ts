@@ -0,0 +1,129 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+    planSearch,
+    searchTargetUrl,
+    readPostFilterParam,
+    savedSearchUrl,
+    isSavedSearch,
+} from "./search";
+import { type FilterTemplate } from "./panel";
+import { setMacros } from "./macros";
+
+const NOW = new Date(2025, 2, 10);
+
+// ── planSearch ───────────────────────────────────────────────────────
+
+describe("planSearch", () => {
+    afterEach(() => setMacros([]));
+
+    it("merges filters into the typed query and encodes native filters", () => {
+        const target = planSearch(
+            "pixel review",
+            {
+                text: [{ id: "relative", value: "last 7 days" }],
+                native: { sort: "date" },
+                excludeShorts: true,
+                strictChannel: false,
+            },
+            NOW
+        );
+        expect(target.query).toBe("pixel review after:2025-03-03");
+        expect(target.sp).toBeTruthy();
+        expect(target.channelPath).toBeNull();
+    });
+
+    it("merges a typed macro's operators like typed ones", () => {
+        setMacros([{ name: "news", expansion: "after:2025-01-01 news" }]);
+        const target = planSearch(
+            "pixel @news",
+            {
+                text: [
+                    { id: "relative", value: "last 7 days" },
+                    { id: "macros", value: "@news" },
+                ],
+                native: {},
+                excludeShorts: false,
+                strictChannel: false,
+            },
+            NOW
+        );
+        expect(target.query).toBe("pixel after:2025-01-01 news");
+    });
+
+    it("searches on the channel's page in strict channel mode", () => {
+        const target = planSearch("vim", {
+            text: [
+                { id: "channel", value: "@fireship" },
+                { id: "exclude", value: "shorts" },
+            ],
+            native: {},
+            excludeShorts: false,
+            strictChannel: true,
+        });
+        expect(target).toEqual({
+            query: "vim -shorts",
+            sp: "",
+            channelPath: "/@fireship",
+        });
+        expect(searchTargetUrl(target)).toBe("/@fireship/search?query=vim+-shorts");
+    });
+
+    it("drops the typed channel: for the channel searched in strict mode", () => {
+        const target = planSearch("phones channel:@mkbhd", {
+            text: [{ id: "channel", value: "@mkbhd" }],
+            native: {},
+            excludeShorts: false,
+            strictChannel: true,
+        });
+        expect(searchTargetUrl(target)).toBe("/@mkbhd/search?query=phones");
+    });
+});
+
+// ── URLs ─────────────────────────────────────────────────────────────
+
+describe("searchTargetUrl", () => {
+    const target = { query: "cats", sp: "", channelPath: null };
+
+    it("builds a results URL", () => {
+        expect(searchTargetUrl(target)).toBe("/results?search_query=cats");
+    });
+
+    it("carries post-filters that read back from the page URL", () => {
+        const rules = { action: "dim" as const, minViews: 10000, titleExcludes: "live" };
+        const url = new URL(searchTargetUrl(target, rules), "https://www.youtube.com");
+        expect(readPostFilterParam(url.search)).toEqual(rules);
+    });
+
+    it("ignores missing, damaged or empty post-filters", () => {
+        expect(readPostFilterParam("?search_query=cats")).toBeNull();
+        expect(readPostFilterParam("?ysp_pf=%%%")).toBeNull();
+        expect(searchTargetUrl(target, { action: "hide" })).toBe(
+            "/results?search_query=cats"
+        );
+    });
+});
+
+describe("saved searches", () => {
+    const search: FilterTemplate = {
+        name: "Weekly reviews",
+        query: "phone review",
+        filters: [{ id: "intitle", value: "review" }],
+        native: { uploadDate: "week" },
+        postFilter: { action: "hide", minDuration: 240 },
+    };
+
+    it("are templates with a base query", () => {
+        expect(isSavedSearch(search)).toBe(true);
+        expect(isSavedSearch({ ...search, query: " " })).toBe(false);
+    });
+
+    it("launch with their query, native filters and post-filters", () => {
+        const url = new URL(savedSearchUrl(search), "https://www.youtube.com");
+        expect(url.pathname).toBe("/results");
+        expect(url.searchParams.get("search_query")).toBe(
+            "phone review intitle:review"
+        );
+        expect(url.searchParams.get("sp")).toBeTruthy();
+        expect(readPostFilterParam(url.search)).toEqual(search.postFilter);
+    });
+});
@@ -0,0 +1,158 @@
+/**
+ * YouTube Search Plus — Search Targets
+ *
+ * Turns a query plus filters into the search to actually run: the final
+ * query string (saved filters merged in, relative dates resolved, @macros
+ * expanded), the sp= native filter parameter, and the channel page to
+ * search on in strict channel mode. Used for search box submissions
+ * (content.ts) and to launch saved searches from the panel and popup.
+ *
+ * A saved search is a template with a base query (see FilterTemplate).
+ * Its result post-filters travel in the launch URL's `ysp_pf` parameter
+ * so they apply in whichever tab the search opens.
+ */
+
+import type { FilterTemplate } from "./panel";
+import type { AppliedFilters } from "./rules";
+import {
+    type ActiveTextFilter,
+    filterValues,
+    mergeQuery,
+    resolveRelativeDates,
+    stripChannelOperator,
+    strictChannelPath,
+} from "./filters";
+import { expandMacros } from "./macros";
+import { encodeSearchParams } from "./sp";
+import { channelSearchUrl } from "./channel";
+import {
+    type PostFilterRules,
+    hasPostFilterRules,
+    readPostFilterRules,
+} from "./postfilter";
+import { toBase64Url, fromBase64Url } from "./share";
+
+export const POST_FILTER_PARAM = "ysp_pf";
+
+export interface SearchTarget {
+    query: string;
+    /** sp= value, "" when no native filter applies */
+    sp: string;
+    /** Channel to search on instead of /results (strict channel mode) */
+    channelPath: string | null;
+}
+
+// ─── Building ────────────────────────────────────────────────────────
+
+/**
+ * The search for a typed query with filters applied. Typed operators are
+ * kept and filters fill in around them (typed wins on conflicts, see
+ * mergeQuery); relative dates resolve against `now`. Typed @macros expand
+ * before the merge and saved ones after it.
+ */
+export function planSearch(
+    typed: string,
+    applied: AppliedFilters,
+    now: Date = new Date()
+): SearchTarget {
+    const sp = encodeSearchParams({
+        ...applied.native,
+        type: applied.native.type ?? (applied.excludeShorts ? "video" : undefined),
+    });
+
+    // Strict channel: the channel becomes the page we search on,
+    // not a channel: operator in the query
+    const channel = applied.strictChannel
+        ? applied.text.find((f) => f.id === "channel")
+        : undefined;
+    const channelPath = channel ? strictChannelPath(channel) : null;
+    const textFilters = channelPath
+        ? applied.text.filter((f) => f !== channel)
+        : applied.text;
+    // The search box shows the Channel field as channel:, so drop that too
+    const typedText = channelPath ? stripChannelOperator(typed, channelPath) : typed;
+
+    // Typed macros expand before the merge, so their operators are checked
+    // against the saved filters like typed ones; saved @macros expand after
+    const typedMacros = expandMacros(typedText);
+    const merged = mergeQuery(
+        typedMacros.query,
+        resolveRelativeDates(withoutMacros(textFilters, typedMacros.used), now)
+    );
+    const query = expandMacros(merged.query).query;
+    return { query, sp, channelPath };
+}
+
+/** Filters with the named macros taken out of the Macros field. */
+function withoutMacros(
+    filters: ActiveTextFilter[],
+    names: string[]
+): ActiveTextFilter[] {
+    const drop = new Set(names.map((name) => name.toLowerCase()));
+    return filters.flatMap((f) => {
+        if (f.id !== "macros") return [f];
+        const values = filterValues(f.value).filter(
+            (v) => !drop.has(v.replace(/^@/, "").toLowerCase())
+        );
+        return values.length ? [{ ...f, value: values.join(" ") }] : [];
+    });
+}
+
+/**
+ * URL (path + query string) for a search target. Channel search pages
+ * ignore sp=, so native filters don't carry over there.
+ */
+export function searchTargetUrl(
+    target: SearchTarget,
+    postFilter?: PostFilterRules
+): string {
+    const params = new URLSearchParams();
+    let path: string;
+    if (target.channelPath) {
+        path = channelSearchUrl(target.channelPath, target.query);
+    } else {
+        params.set("search_query", target.query);
+        if (target.sp) params.set("sp", target.sp);
+        path = `/results?${params}`;
+    }
+    if (postFilter && hasPostFilterRules(postFilter)) {
+        const sep = path.includes("?") ? "&" : "?";
+        path += `${sep}${POST_FILTER_PARAM}=${toBase64Url(JSON.stringify(postFilter))}`;
+    }
+    return path;
+}
+
+/** Result post-filters carried by a page URL, if any. */
+export function readPostFilterParam(search: string): PostFilterRules | null {
+    const code = new URLSearchParams(search).get(POST_FILTER_PARAM);
+    if (!code) return null;
+    try {
+        return readPostFilterRules(JSON.parse(fromBase64Url(code)));
+    } catch {
+        return null;
+    }
+}
+
+// ─── Saved searches ──────────────────────────────────────────────────
+
+export function isSavedSearch(template: FilterTemplate): boolean {
+    return !!template.query?.trim();
+}
+
+/** URL (path + query string) that runs a saved search, post-filters included. */
+export function savedSearchUrl(
+    template: FilterTemplate,
+    now: Date = new Date()
+): string {
+    const target = planSearch(
+        template.query || "",
+        {
+            text: template.filters,
+            native: template.native || {},
+            excludeShorts: !!template.excludeShorts,
+            strictChannel: !!template.strictChannel,
+        },
+        now
+    );
+    return searchTargetUrl(target, template.postFilter);
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+    encodeShareCode,
+    decodeShareCode,
+    shareLink,
+    readShareParam,
+    fromBase64Url,
+} from "./share";
+import { type FilterTemplate } from "./panel";
+
+const TEMPLATE: FilterTemplate = {
+    name: "Café reviews",
+    filters: [
+        { id: "intitle", value: "review" },
+        { id: "channel", value: "@mkbhd" },
+    ],
+    excludeShorts: true,
+    native: { sort: "date" },
+    strictChannel: true,
+};
+
+/** Encode a raw (ASCII) payload, for hand-built links. */
+const code = (payload: unknown) =>
+    btoa(JSON.stringify(payload)).replace(/=+$/, "");
+
+describe("share codes", () => {
+    it("round-trip a template, including non-ASCII names", () => {
+        const encoded = encodeShareCode(TEMPLATE);
+        expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(decodeShareCode(encoded)).toEqual({ template: TEMPLATE, error: null });
+    });
+
+    it("carry a saved search's base query and result filters", () => {
+        const search: FilterTemplate = {
+            name: "Phone reviews",
+            filters: [{ id: "intitle", value: "review" }],
+            query: "pixel 10",
+            postFilter: { minViews: 10000, action: "hide" },
+        };
+        const encoded = encodeShareCode(search);
+        expect(JSON.parse(fromBase64Url(encoded))).toMatchObject({ v: 2, q: "pixel 10" });
+        expect(decodeShareCode(encoded)).toEqual({ template: search, error: null });
+        expect(JSON.parse(fromBase64Url(encodeShareCode(TEMPLATE))).v).toBe(1);
+    });
+
+    it("reject damaged payloads", () => {
+        for (const bad of ["%%%", "bm90IGpzb24", code([1, 2]), code({ v: 1, n: "x" })]) {
+            expect(decodeShareCode(bad).error).toBe(
+                "This share link is damaged and can't be read."
+            );
+        }
+    });
+
+    it("reject newer versions and unknown filters", () => {
+        expect(decodeShareCode(code({ v: 3, n: "x", f: [] })).error).toBe(
+            "This link was made by a newer version of the extension."
+        );
+        expect(
+            decodeShareCode(code({ v: 1, n: "x", f: [["mood", "happy"]] })).error
+        ).toBe('This share link uses an unknown filter ("mood").');
+    });
+
+    it("reject unknown native values rather than dropping them", () => {
+        expect(
+            decodeShareCode(
+                code({ v: 1, n: "x", f: [["intitle", "a"]], o: { sort: "loudest" } })
+            ).error
+        ).toBe("This share link has no filters that can be applied.");
+    });
+});
+
+describe("shareLink", () => {
+    it("builds a results URL that searches without the extension too", () => {
+        const url = new URL(shareLink(TEMPLATE));
+        expect(url.origin + url.pathname).toBe("https://www.youtube.com/results");
+        expect(url.searchParams.get("search_query")).toBe(
+            "intitle:review channel:@mkbhd"
+        );
+        expect(url.searchParams.get("sp")).toBeTruthy();
+        expect(readShareParam(url.search)?.template).toEqual(TEMPLATE);
+    });
+
+    it("searches a saved search's base query with its filters", () => {
+        const url = new URL(
+            shareLink({
+                name: "Phone reviews",
+                filters: [{ id: "intitle", value: "review" }],
+                query: "pixel 10",
+            })
+        );
+        expect(url.searchParams.get("search_query")).toBe("pixel 10 intitle:review");
+    });
+
+    it("is absent from ordinary pages", () => {
+        expect(readShareParam("?search_query=cats")).toBeNull();
+    });
+});
@@ -0,0 +1,162 @@
+/**
+ * YouTube Search Plus — Share Links
+ *
+ * A template travels as a YouTube results URL:
+ *
+ *   /results?search_query=<query + filters>&sp=<native>&ysp=<code>
+ *
+ * so the link still runs a filtered search for someone without the
+ * extension, while the extension reads `ysp` and offers to apply the
+ * filters once or save them as a template. The code is base64url JSON
+ * of a compact payload:
+ *
+ *   { v: 1, n: name, f: [[id, value], …], x?: 1, c?: 1, o?: NativeFilters }
+ *
+ * (x = Exclude Shorts, c = strict channel). A saved search also carries
+ * its base query and result filters, `q?: string, p?: PostFilterRules`;
+ * older versions would drop those silently, so such links are version 2
+ * and the rest stay version 1. Decoding reuses the template
+ * file validation; anything malformed, from a newer version, or naming an
+ * unknown filter is rejected outright rather than partly applied.
+ */
+
+import type { FilterTemplate } from "./panel";
+import { TEXT_FILTERS, mergeQuery } from "./filters";
+import { encodeSearchParams } from "./sp";
+import { readTemplate } from "./templates";
+import type { PostFilterRules } from "./postfilter";
+
+export const SHARE_PARAM = "ysp";
+export const SHARE_VERSION = 2;
+
+interface SharePayload {
+    v: number;
+    n: string;
+    f: [string, string][];
+    x?: 1;
+    c?: 1;
+    o?: FilterTemplate["native"];
+    q?: string;
+    p?: PostFilterRules;
+}
+
+export type SharedTemplate =
+    | { template: FilterTemplate; error: null }
+    | { template: null; error: string };
+
+// ─── Encoding ────────────────────────────────────────────────────────
+
+export function encodeShareCode(template: FilterTemplate): string {
+    const payload: SharePayload = {
+        v: template.query ? SHARE_VERSION : 1,
+        n: template.name,
+        f: template.filters.map((f) => [f.id, f.value]),
+    };
+    if (template.excludeShorts) payload.x = 1;
+    if (template.strictChannel) payload.c = 1;
+    if (template.native && Object.keys(template.native).length)
+        payload.o = template.native;
+    if (template.query) {
+        payload.q = template.query;
+        if (template.postFilter) payload.p = template.postFilter;
+    }
+
+    return toBase64Url(JSON.stringify(payload));
+}
+
+/** A results URL that searches with the template and carries it in `ysp`. */
+export function shareLink(
+    template: FilterTemplate,
+    origin = "https://www.youtube.com"
+): string {
+    const url = new URL("/results", origin);
+    url.searchParams.set(
+        "search_query",
+        mergeQuery(template.query || "", template.filters).query
+    );
+    const sp = encodeSearchParams({
+        ...template.native,
+        type: template.native?.type ?? (template.excludeShorts ? "video" : undefined),
+    });
+    if (sp) url.searchParams.set("sp", sp);
+    url.searchParams.set(SHARE_PARAM, encodeShareCode(template));
+    return url.toString();
+}
+
+// ─── Decoding ────────────────────────────────────────────────────────
+
+export function decodeShareCode(code: string): SharedTemplate {
+    const fail = (error: string): SharedTemplate => ({ template: null, error });
+
+    let payload: unknown;
+    try {
+        payload = JSON.parse(fromBase64Url(code));
+    } catch {
+        return fail("This share link is damaged and can't be read.");
+    }
+
+    const p = (typeof payload === "object" && payload) as Partial<SharePayload>;
+    if (
+        !p ||
+        typeof p.v !== "number" ||
+        typeof p.n !== "string" ||
+        !Array.isArray(p.f) ||
+        !p.f.every(isPair)
+    )
+        return fail("This share link is damaged and can't be read.");
+    if (p.v > SHARE_VERSION)
+        return fail("This link was made by a newer version of the extension.");
+    const unknown = p.f.find(([id]) => !TEXT_FILTERS.some((c) => c.id === id));
+    if (unknown)
+        return fail(`This share link uses an unknown filter ("${unknown[0]}").`);
+
+    const problems: string[] = [];
+    const template = readTemplate(
+        {
+            name: p.n,
+            filters: p.f.map(([id, value]) => ({ id, value })),
+            excludeShorts: p.x === 1,
+            strictChannel: p.c === 1,
+            native: p.o,
+            query: p.q,
+            postFilter: p.p,
+        },
+        0,
+        problems
+    );
+    if (!template || problems.length)
+        return fail("This share link has no filters that can be applied.");
+    return { template, error: null };
+}
+
+/** The shared template in a page URL's `ysp` parameter, if any. */
+export function readShareParam(search: string): SharedTemplate | null {
+    const code = new URLSearchParams(search).get(SHARE_PARAM);
+    return code ? decodeShareCode(code) : null;
+}
+
+// ─── Base64url ───────────────────────────────────────────────────────
+
+/** UTF-8 text as unpadded base64url, safe in a URL parameter. */
+export function toBase64Url(text: string): string {
+    const bytes = new TextEncoder().encode(text);
+    let binary = "";
+    for (const b of bytes) binary += String.fromCharCode(b);
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** Inverse of toBase64Url(); throws on anything that isn't. */
+export function fromBase64Url(code: string): string {
+    const binary = atob(code.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+}
+
+function isPair(entry: unknown): entry is [string, string] {
+    return (
+        Array.isArray(entry) &&
+        entry.length === 2 &&
+        typeof entry[0] === "string" &&
+        typeof entry[1] === "string"
+    );
+}
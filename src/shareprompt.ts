@@ -0,0 +1,140 @@
+/**
+ * YouTube Search Plus — Shared Filters Prompt (UI)
+ *
+ * Shown when a page is opened from a share link (see share.ts): lists the
+ * shared filters and offers to apply them once (run it, for a saved
+ * search) or save them as a template. Links that fail validation only
+ * get an explanation. Closing the prompt drops `ysp` from the address
+ * bar so a reload doesn't ask again.
+ */
+
+import type { FilterTemplate } from "./panel";
+import { type SharedTemplate, SHARE_PARAM } from "./share";
+import { describeTemplate } from "./templates";
+import { isSavedSearch } from "./search";
+import { escapeHTML } from "./html";
+
+export class SharePrompt {
+    private modal: HTMLDivElement | null = null;
+    private shared: FilterTemplate | null = null;
+    private onApply: (template: FilterTemplate) => void;
+    /** Returns the name it was saved under, or null if it wasn't */
+    private onSave: (template: FilterTemplate) => string | null;
+
+    constructor(
+        onApply: (template: FilterTemplate) => void,
+        onSave: (template: FilterTemplate) => string | null
+    ) {
+        this.onApply = onApply;
+        this.onSave = onSave;
+    }
+
+    /** Check if a DOM node is inside the modal (for outside-click exclusion). */
+    containsNode(node: Node): boolean {
+        return this.modal?.contains(node) ?? false;
+    }
+
+    open(shared: SharedTemplate) {
+        if (!this.modal) {
+            this.modal = this.buildModal();
+            document.body.appendChild(this.modal);
+        }
+        this.shared = shared.template;
+        this.render(shared);
+        this.modal.classList.add("ysp-info-open");
+        document.body.style.overflow = "hidden";
+    }
+
+    close() {
+        this.modal?.classList.remove("ysp-info-open");
+        document.body.style.overflow = "";
+        this.shared = null;
+
+        const url = new URL(window.location.href);
+        if (url.searchParams.has(SHARE_PARAM)) {
+            url.searchParams.delete(SHARE_PARAM);
+            history.replaceState(history.state, "", url.toString());
+        }
+    }
+
+    // ── Modal builder ──
+
+    private buildModal(): HTMLDivElement {
+        const modal = document.createElement("div");
+        modal.id = "ysp-share-modal";
+        modal.innerHTML = `
+            <div class="ysp-info-backdrop"></div>
+            <div class="ysp-info-content ysp-share-content">
+                <div class="ysp-info-header">
+                    <h3>Shared Filters</h3>
+                    <button class="ysp-info-close" id="ysp-share-close" type="button">&times;</button>
+                </div>
+                <div class="ysp-share-body">
+                    <div class="ysp-share-name" id="ysp-share-name"></div>
+                    <div class="ysp-template-modal-preview" id="ysp-share-preview"></div>
+                    <div class="ysp-multi-status" id="ysp-share-status"></div>
+                    <div class="ysp-template-modal-actions">
+                        <button class="ysp-btn ysp-btn-clear" id="ysp-share-dismiss" type="button">Dismiss</button>
+                        <button class="ysp-btn ysp-btn-clear" id="ysp-share-save" type="button">Save as Template</button>
+                        <button class="ysp-btn ysp-btn-apply" id="ysp-share-apply" type="button">Apply Once</button>
+                    </div>
+                </div>
+            </div>
+        `;
+
+        modal
+            .querySelector(".ysp-info-backdrop")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-share-close")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-share-dismiss")
+            ?.addEventListener("click", () => this.close());
+        modal.querySelector("#ysp-share-apply")?.addEventListener("click", () => {
+            if (!this.shared) return;
+            this.onApply(this.shared);
+            this.close();
+        });
+        modal.querySelector("#ysp-share-save")?.addEventListener("click", () => {
+            if (!this.shared) return;
+            const name = this.onSave(this.shared);
+            if (name !== null) this.setStatus(`Saved as template "${name}".`, false);
+        });
+
+        return modal;
+    }
+
+    private render(shared: SharedTemplate) {
+        const name = this.modal?.querySelector("#ysp-share-name");
+        const preview = this.modal?.querySelector("#ysp-share-preview");
+        if (!name || !preview) return;
+
+        const usable = shared.template !== null;
+        const apply = this.modal?.querySelector("#ysp-share-apply") as HTMLElement;
+        apply.style.display = usable ? "" : "none";
+        apply.textContent =
+            shared.template && isSavedSearch(shared.template) ? "Run Search" : "Apply Once";
+        (this.modal?.querySelector("#ysp-share-save") as HTMLElement).style.display =
+            usable ? "" : "none";
+
+        if (!shared.template) {
+            name.textContent = "";
+            preview.innerHTML = "";
+            this.setStatus(shared.error, true);
+            return;
+        }
+        name.textContent = shared.template.name;
+        preview.innerHTML = describeTemplate(shared.template)
+            .map((part) => `<span class="ysp-tpl-preview-chip">${escapeHTML(part)}</span>`)
+            .join("");
+        this.setStatus("", false);
+    }
+
+    private setStatus(text: string, warn: boolean) {
+        const status = this.modal?.querySelector("#ysp-share-status");
+        if (!status) return;
+        status.textContent = text;
+        status.classList.toggle("ysp-multi-status--warn", warn);
+    }
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+    encodeSearchParams,
+    decodeSearchParams,
+    describeNativeFilters,
+    isEmptyNativeFilters,
+    FEATURE_OPTIONS,
+    type NativeFilters,
+} from "./sp";
+
+// Values captured from YouTube's own "Search filters" menu
+const KNOWN: [string, NativeFilters][] = [
+    ["EgIQAQ==", { type: "video" }],
+    ["CAI=", { sort: "date" }],
+    ["CAISAhAB", { sort: "date", type: "video" }],
+    ["EgIIAg==", { uploadDate: "today" }],
+    ["EgIYAQ==", { duration: "short" }],
+    ["EgIYAw==", { duration: "medium" }],
+    ["EgIYAg==", { duration: "long" }],
+    ["EgJAAQ==", { features: ["live"] }],
+    ["EgJwAQ==", { features: ["4k"] }],
+    ["EgIgAQ==", { features: ["hd"] }],
+    ["EgIoAQ==", { features: ["subtitles"] }],
+    ["EgIwAQ==", { features: ["creative_commons"] }],
+    ["EgJ4AQ==", { features: ["360"] }],
+    ["EgPQAQE=", { features: ["vr180"] }],
+    ["EgI4AQ==", { features: ["3d"] }],
+    ["EgPIAQE=", { features: ["hdr"] }],
+    ["EgO4AQE=", { features: ["location"] }],
+    ["EgJIAQ==", { features: ["purchased"] }],
+];
+
+// ── encodeSearchParams ───────────────────────────────────────────────
+
+describe("encodeSearchParams", () => {
+    it("returns empty string when nothing is set", () => {
+        expect(encodeSearchParams({})).toBe("");
+        expect(encodeSearchParams({ sort: "relevance", features: [] })).toBe("");
+    });
+
+    for (const [sp, filters] of KNOWN) {
+        it(`encodes ${JSON.stringify(filters)} as ${sp}`, () => {
+            expect(encodeSearchParams(filters)).toBe(sp);
+        });
+    }
+
+    it("combines sort, filters and several features", () => {
+        const sp = encodeSearchParams({
+            sort: "views",
+            uploadDate: "month",
+            type: "video",
+            duration: "long",
+            features: ["hdr", "4k", "subtitles"],
+        });
+        expect(decodeSearchParams(sp)).toEqual({
+            sort: "views",
+            uploadDate: "month",
+            type: "video",
+            duration: "long",
+            features: ["subtitles", "4k", "hdr"],
+        });
+    });
+});
+
+// ── decodeSearchParams ───────────────────────────────────────────────
+
+describe("decodeSearchParams", () => {
+    for (const [sp, filters] of KNOWN) {
+        it(`decodes ${sp}`, () => {
+            expect(decodeSearchParams(sp)).toEqual(filters);
+        });
+    }
+
+    it("accepts URL-safe base64 without padding", () => {
+        expect(decodeSearchParams("EgIQAQ")).toEqual({ type: "video" });
+        expect(decodeSearchParams("EgPQAQE")).toEqual({ features: ["vr180"] });
+    });
+
+    it("roundtrips every feature together", () => {
+        const all: NativeFilters = {
+            features: FEATURE_OPTIONS.map((o) => o.value),
+        };
+        const decoded = decodeSearchParams(encodeSearchParams(all));
+        expect(new Set(decoded?.features)).toEqual(new Set(all.features));
+    });
+
+    it("skips unknown fields", () => {
+        // field 2 { type: video, field 30 (empty len) }, field 9 varint
+        const bytes = [0x12, 0x05, 0x10, 0x01, 0xf2, 0x01, 0x00, 0x48, 0x07];
+        const sp = btoa(String.fromCharCode(...bytes));
+        expect(decodeSearchParams(sp)).toEqual({ type: "video" });
+    });
+
+    it("returns null for malformed values", () => {
+        expect(decodeSearchParams("!!!")).toBeNull();
+        expect(decodeSearchParams("Eg==")).toBeNull(); // truncated length
+    });
+});
+
+// ── describeNativeFilters / isEmptyNativeFilters ─────────────────────
+
+describe("describeNativeFilters", () => {
+    it("labels each active filter", () => {
+        expect(
+            describeNativeFilters({
+                sort: "date",
+                duration: "short",
+                features: ["live", "4k"],
+            })
+        ).toEqual([
+            { label: "Sort", value: "Upload date" },
+            { label: "Duration", value: "Under 4 minutes" },
+            { label: "Feature", value: "Live" },
+            { label: "Feature", value: "4K" },
+        ]);
+    });
+
+    it("omits relevance sort", () => {
+        expect(describeNativeFilters({ sort: "relevance" })).toEqual([]);
+        expect(isEmptyNativeFilters({ sort: "relevance" })).toBe(true);
+        expect(isEmptyNativeFilters({ features: ["hd"] })).toBe(false);
+    });
+});
@@ -0,0 +1,359 @@
+/**
+ * YouTube Search Plus — Native Search Filters (sp=)
+ *
+ * YouTube's "Search filters" menu is serialized into the `sp=` URL
+ * parameter as a base64-encoded protobuf:
+ *
+ *   message SearchParams {
+ *     SortOrder sort    = 1;   // varint
+ *     Filters   filters = 2;   // embedded message
+ *   }
+ *   message Filters {
+ *     UploadDate upload_date = 1;  ResultType type = 2;
+ *     Duration   duration    = 3;  bool hd = 4;  bool subtitles = 5;
+ *     bool creative_commons = 6;   bool three_d = 7;  bool live = 8;
+ *     bool purchased = 9;          bool four_k = 14;  bool vr360 = 15;
+ *     bool location = 23;          bool hdr = 25;     bool vr180 = 26;
+ *   }
+ *
+ * Only the varint and length-delimited wire types appear in practice;
+ * anything else is skipped when decoding.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export type SortOrder = "relevance" | "rating" | "date" | "views";
+export type UploadDate = "hour" | "today" | "week" | "month" | "year";
+export type ResultType = "video" | "channel" | "playlist" | "movie";
+export type Duration = "short" | "medium" | "long";
+export type Feature =
+    | "live"
+    | "4k"
+    | "hd"
+    | "subtitles"
+    | "creative_commons"
+    | "360"
+    | "vr180"
+    | "3d"
+    | "hdr"
+    | "location"
+    | "purchased";
+
+export interface NativeFilters {
+    sort?: SortOrder;
+    uploadDate?: UploadDate;
+    type?: ResultType;
+    duration?: Duration;
+    features?: Feature[];
+}
+
+interface NativeOption<T extends string> {
+    value: T;
+    label: string;
+    /** Protobuf enum value (or field number, for features) */
+    code: number;
+}
+
+// ─── Option tables (shared with the panel UI) ────────────────────────
+
+export const SORT_OPTIONS: NativeOption<SortOrder>[] = [
+    { value: "relevance", label: "Relevance", code: 0 },
+    { value: "rating", label: "Rating", code: 1 },
+    { value: "date", label: "Upload date", code: 2 },
+    { value: "views", label: "View count", code: 3 },
+];
+
+export const UPLOAD_DATE_OPTIONS: NativeOption<UploadDate>[] = [
+    { value: "hour", label: "Last hour", code: 1 },
+    { value: "today", label: "Today", code: 2 },
+    { value: "week", label: "This week", code: 3 },
+    { value: "month", label: "This month", code: 4 },
+    { value: "year", label: "This year", code: 5 },
+];
+
+export const TYPE_OPTIONS: NativeOption<ResultType>[] = [
+    { value: "video", label: "Video", code: 1 },
+    { value: "channel", label: "Channel", code: 2 },
+    { value: "playlist", label: "Playlist", code: 3 },
+    { value: "movie", label: "Movie", code: 4 },
+];
+
+export const DURATION_OPTIONS: NativeOption<Duration>[] = [
+    { value: "short", label: "Under 4 minutes", code: 1 },
+    { value: "medium", label: "4 - 20 minutes", code: 3 },
+    { value: "long", label: "Over 20 minutes", code: 2 },
+];
+
+export const FEATURE_OPTIONS: NativeOption<Feature>[] = [
+    { value: "live", label: "Live", code: 8 },
+    { value: "4k", label: "4K", code: 14 },
+    { value: "hd", label: "HD", code: 4 },
+    { value: "subtitles", label: "Subtitles/CC", code: 5 },
+    { value: "creative_commons", label: "Creative Commons", code: 6 },
+    { value: "360", label: "360°", code: 15 },
+    { value: "vr180", label: "VR180", code: 26 },
+    { value: "3d", label: "3D", code: 7 },
+    { value: "hdr", label: "HDR", code: 25 },
+    { value: "location", label: "Location", code: 23 },
+    { value: "purchased", label: "Purchased", code: 9 },
+];
+
+const FIELD_SORT = 1;
+const FIELD_FILTERS = 2;
+const FIELD_UPLOAD_DATE = 1;
+const FIELD_TYPE = 2;
+const FIELD_DURATION = 3;
+
+const WIRE_VARINT = 0;
+const WIRE_I64 = 1;
+const WIRE_LEN = 2;
+const WIRE_I32 = 5;
+
+/** True when no native filter is set (relevance sort counts as unset). */
+export function isEmptyNativeFilters(f: NativeFilters): boolean {
+    return (
+        (!f.sort || f.sort === "relevance") &&
+        !f.uploadDate &&
+        !f.type &&
+        !f.duration &&
+        !f.features?.length
+    );
+}
+
+// ─── Protobuf primitives ─────────────────────────────────────────────
+
+function writeVarint(out: number[], value: number) {
+    let v = value;
+    while (v > 0x7f) {
+        out.push((v & 0x7f) | 0x80);
+        v = Math.floor(v / 128);
+    }
+    out.push(v);
+}
+
+function writeTag(out: number[], field: number, wire: number) {
+    writeVarint(out, field * 8 + wire);
+}
+
+class Reader {
+    pos = 0;
+    constructor(private bytes: Uint8Array) {}
+
+    get done(): boolean {
+        return this.pos >= this.bytes.length;
+    }
+
+    varint(): number {
+        let result = 0;
+        let scale = 1;
+        for (let i = 0; i < 10; i++) {
+            if (this.done) throw new Error("truncated varint");
+            const b = this.bytes[this.pos++];
+            result += (b & 0x7f) * scale;
+            if (!(b & 0x80)) return result;
+            scale *= 128;
+        }
+        throw new Error("varint too long");
+    }
+
+    bytesField(): Uint8Array {
+        const len = this.varint();
+        if (this.pos + len > this.bytes.length) throw new Error("truncated field");
+        const slice = this.bytes.subarray(this.pos, this.pos + len);
+        this.pos += len;
+        return slice;
+    }
+
+    skip(wire: number) {
+        switch (wire) {
+            case WIRE_VARINT:
+                this.varint();
+                break;
+            case WIRE_I64:
+                this.pos += 8;
+                break;
+            case WIRE_LEN:
+                this.bytesField();
+                break;
+            case WIRE_I32:
+                this.pos += 4;
+                break;
+            default:
+                throw new Error(`unsupported wire type ${wire}`);
+        }
+        if (this.pos > this.bytes.length) throw new Error("truncated field");
+    }
+}
+
+// ─── Base64 ──────────────────────────────────────────────────────────
+
+function toBase64(bytes: number[]): string {
+    return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+    // Accept URL-safe alphabet and missing padding
+    let b64 = value.replace(/-/g, "+").replace(/_/g, "/");
+    while (b64.length % 4) b64 += "=";
+    const bin = atob(b64);
+    const bytes = new Uint8Array(bin.length);
+    for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+    return bytes;
+}
+
+// ─── Encoder ─────────────────────────────────────────────────────────
+
+function codeOf<T extends string>(
+    options: NativeOption<T>[],
+    value: T | undefined
+): number | undefined {
+    return options.find((o) => o.value === value)?.code;
+}
+
+/**
+ * Encode native filters into an `sp=` value.
+ * Returns an empty string when nothing is set.
+ */
+export function encodeSearchParams(filters: NativeFilters): string {
+    const inner: number[] = [];
+
+    const uploadDate = codeOf(UPLOAD_DATE_OPTIONS, filters.uploadDate);
+    if (uploadDate) {
+        writeTag(inner, FIELD_UPLOAD_DATE, WIRE_VARINT);
+        writeVarint(inner, uploadDate);
+    }
+    const type = codeOf(TYPE_OPTIONS, filters.type);
+    if (type) {
+        writeTag(inner, FIELD_TYPE, WIRE_VARINT);
+        writeVarint(inner, type);
+    }
+    const duration = codeOf(DURATION_OPTIONS, filters.duration);
+    if (duration) {
+        writeTag(inner, FIELD_DURATION, WIRE_VARINT);
+        writeVarint(inner, duration);
+    }
+    // Features in field-number order, matching YouTube's own output
+    const features = FEATURE_OPTIONS.filter((o) =>
+        filters.features?.includes(o.value)
+    ).sort((a, b) => a.code - b.code);
+    for (const f of features) {
+        writeTag(inner, f.code, WIRE_VARINT);
+        writeVarint(inner, 1);
+    }
+
+    const out: number[] = [];
+    const sort = codeOf(SORT_OPTIONS, filters.sort);
+    if (sort) {
+        writeTag(out, FIELD_SORT, WIRE_VARINT);
+        writeVarint(out, sort);
+    }
+    if (inner.length) {
+        writeTag(out, FIELD_FILTERS, WIRE_LEN);
+        writeVarint(out, inner.length);
+        out.push(...inner);
+    }
+
+    return out.length ? toBase64(out) : "";
+}
+
+// ─── Decoder ─────────────────────────────────────────────────────────
+
+function valueOf<T extends string>(
+    options: NativeOption<T>[],
+    code: number
+): T | undefined {
+    return options.find((o) => o.code === code)?.value;
+}
+
+function decodeFilters(bytes: Uint8Array, result: NativeFilters) {
+    const reader = new Reader(bytes);
+    while (!reader.done) {
+        const tag = reader.varint();
+        const field = Math.floor(tag / 8);
+        const wire = tag & 7;
+        if (wire !== WIRE_VARINT) {
+            reader.skip(wire);
+            continue;
+        }
+        const value = reader.varint();
+
+        switch (field) {
+            case FIELD_UPLOAD_DATE:
+                result.uploadDate = valueOf(UPLOAD_DATE_OPTIONS, value);
+                break;
+            case FIELD_TYPE:
+                result.type = valueOf(TYPE_OPTIONS, value);
+                break;
+            case FIELD_DURATION:
+                result.duration = valueOf(DURATION_OPTIONS, value);
+                break;
+            default: {
+                const feature = FEATURE_OPTIONS.find((o) => o.code === field);
+                if (feature && value) {
+                    result.features = [...(result.features || []), feature.value];
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Decode an `sp=` value. Unknown fields are ignored; returns null when
+ * the value isn't valid base64 protobuf.
+ */
+export function decodeSearchParams(sp: string): NativeFilters | null {
+    try {
+        const reader = new Reader(fromBase64(sp.trim()));
+        const result: NativeFilters = {};
+
+        while (!reader.done) {
+            const tag = reader.varint();
+            const field = Math.floor(tag / 8);
+            const wire = tag & 7;
+
+            if (field === FIELD_SORT && wire === WIRE_VARINT) {
+                result.sort = valueOf(SORT_OPTIONS, reader.varint());
+            } else if (field === FIELD_FILTERS && wire === WIRE_LEN) {
+                decodeFilters(reader.bytesField(), result);
+            } else {
+                reader.skip(wire);
+            }
+        }
+
+        // Drop keys whose enum value we didn't recognise
+        for (const key of Object.keys(result) as (keyof NativeFilters)[]) {
+            if (result[key] === undefined) delete result[key];
+        }
+        return result;
+    } catch {
+        return null;
+    }
+}
+
+// ─── Labels ──────────────────────────────────────────────────────────
+
+/** Human-readable `[label, value]` pairs for the query preview. */
+export function describeNativeFilters(
+    filters: NativeFilters
+): { label: string; value: string }[] {
+    const out: { label: string; value: string }[] = [];
+    const push = <T extends string>(
+        label: string,
+        options: NativeOption<T>[],
+        value: T | undefined
+    ) => {
+        const option = options.find((o) => o.value === value);
+        if (option) out.push({ label, value: option.label });
+    };
+
+    if (filters.sort !== "relevance") push("Sort", SORT_OPTIONS, filters.sort);
+    push("Uploaded", UPLOAD_DATE_OPTIONS, filters.uploadDate);
+    push("Type", TYPE_OPTIONS, filters.type);
+    push("Duration", DURATION_OPTIONS, filters.duration);
+    for (const f of FEATURE_OPTIONS) {
+        if (filters.features?.includes(f.value)) {
+            out.push({ label: "Feature", value: f.label });
+        }
+    }
+    return out;
+}
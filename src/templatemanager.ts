@@ -0,0 +1,333 @@
+/**
+ * YouTube Search Plus — Template Manager (UI)
+ *
+ * Modal for organising saved templates (see templates.ts): search, pin
+ * favourites, drag rows to reorder, duplicate, delete, and an edit form
+ * for the name, folder and tags of the selected template. Every change
+ * hands the whole updated list back to the panel, which saves it.
+ */
+
+import type { FilterTemplate } from "./panel";
+import {
+    groupTemplates,
+    parseTags,
+    templateNameError,
+    duplicateTemplate,
+    moveTemplate,
+    describeTemplate,
+    describeUsage,
+    TEMPLATE_NAME_MAX,
+} from "./templates";
+import { escapeHTML } from "./html";
+
+export class TemplateManager {
+    private modal: HTMLDivElement | null = null;
+    private getTemplates: () => FilterTemplate[];
+    private onChange: (
+        templates: FilterTemplate[],
+        renamed?: { from: string; to: string }
+    ) => void;
+    /** Template being edited in the form */
+    private editing: number | null = null;
+    /** Template being dragged */
+    private dragging: number | null = null;
+
+    constructor(
+        getTemplates: () => FilterTemplate[],
+        onChange: (
+            templates: FilterTemplate[],
+            renamed?: { from: string; to: string }
+        ) => void
+    ) {
+        this.getTemplates = getTemplates;
+        this.onChange = onChange;
+    }
+
+    /** Check if a DOM node is inside the modal (for outside-click exclusion). */
+    containsNode(node: Node): boolean {
+        return this.modal?.contains(node) ?? false;
+    }
+
+    open() {
+        if (!this.modal) {
+            this.modal = this.buildModal();
+            document.body.appendChild(this.modal);
+        }
+        (this.modal.querySelector("#ysp-tplmgr-search") as HTMLInputElement).value = "";
+        this.edit(null);
+        this.renderList();
+        this.modal.classList.add("ysp-info-open");
+        document.body.style.overflow = "hidden";
+        setTimeout(
+            () =>
+                (this.modal?.querySelector("#ysp-tplmgr-search") as HTMLElement)?.focus(),
+            50
+        );
+    }
+
+    close() {
+        this.modal?.classList.remove("ysp-info-open");
+        document.body.style.overflow = "";
+    }
+
+    // ── Modal builder ──
+
+    private buildModal(): HTMLDivElement {
+        const modal = document.createElement("div");
+        modal.id = "ysp-tplmgr-modal";
+        modal.innerHTML = `
+            <div class="ysp-info-backdrop"></div>
+            <div class="ysp-info-content ysp-tplmgr-content">
+                <div class="ysp-info-header">
+                    <h3>Manage Templates</h3>
+                    <button class="ysp-info-close" id="ysp-tplmgr-close" type="button">&times;</button>
+                </div>
+                <div class="ysp-tplmgr-body">
+                    <input type="text" id="ysp-tplmgr-search" placeholder="Search names, folders, #tags or filters" />
+                    <div class="ysp-tplmgr-list" id="ysp-tplmgr-list"></div>
+                    <div class="ysp-tplmgr-form" id="ysp-tplmgr-form" style="display:none;">
+                        <label class="ysp-template-modal-label" for="ysp-tplmgr-name">Name</label>
+                        <input type="text" id="ysp-tplmgr-name" maxlength="${TEMPLATE_NAME_MAX}" />
+                        <label class="ysp-template-modal-label" for="ysp-tplmgr-folder">Folder</label>
+                        <input type="text" id="ysp-tplmgr-folder" list="ysp-tplmgr-folders" placeholder="None" />
+                        <datalist id="ysp-tplmgr-folders"></datalist>
+                        <label class="ysp-template-modal-label" for="ysp-tplmgr-tags">Tags</label>
+                        <input type="text" id="ysp-tplmgr-tags" placeholder="Comma-separated, e.g. work, weekly" />
+                        <div class="ysp-multi-status" id="ysp-tplmgr-status"></div>
+                        <div class="ysp-template-modal-actions">
+                            <button class="ysp-btn ysp-btn-clear" id="ysp-tplmgr-cancel" type="button">Cancel</button>
+                            <button class="ysp-btn ysp-btn-apply" id="ysp-tplmgr-save" type="button">Save Changes</button>
+                        </div>
+                    </div>
+                    <div class="ysp-template-modal-actions" id="ysp-tplmgr-actions">
+                        <button class="ysp-btn ysp-btn-apply" id="ysp-tplmgr-done" type="button">Done</button>
+                    </div>
+                </div>
+            </div>
+        `;
+
+        modal
+            .querySelector(".ysp-info-backdrop")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-tplmgr-close")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-tplmgr-done")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-tplmgr-cancel")
+            ?.addEventListener("click", () => this.edit(null));
+        modal
+            .querySelector("#ysp-tplmgr-save")
+            ?.addEventListener("click", () => this.saveEdit());
+        modal
+            .querySelector("#ysp-tplmgr-search")
+            ?.addEventListener("input", () => this.renderList());
+        modal.querySelectorAll("#ysp-tplmgr-form input").forEach((input) =>
+            input.addEventListener("keydown", (e) => {
+                if ((e as KeyboardEvent).key === "Enter") this.saveEdit();
+            })
+        );
+
+        // Row controls via delegation
+        const list = modal.querySelector("#ysp-tplmgr-list") as HTMLElement;
+        list.addEventListener("click", (e) => {
+            const target = e.target as HTMLElement;
+            const btn = target.closest<HTMLElement>("[data-tplmgr-action]");
+            const row = target.closest<HTMLElement>("[data-tplmgr-index]");
+            if (!row) return;
+            const index = Number(row.dataset.tplmgrIndex);
+            switch (btn?.dataset.tplmgrAction) {
+                case "pin":
+                    this.update(index, {
+                        pinned: !this.getTemplates()[index].pinned || undefined,
+                    });
+                    break;
+                case "duplicate":
+                    this.edit(null);
+                    this.onChange(duplicateTemplate(this.getTemplates(), index));
+                    this.renderList();
+                    break;
+                case "delete":
+                    this.edit(null);
+                    this.onChange(this.getTemplates().filter((_, i) => i !== index));
+                    this.renderList();
+                    break;
+                default:
+                    this.edit(index);
+            }
+        });
+
+        // Drag to reorder
+        list.addEventListener("dragstart", (e) => {
+            const row = (e.target as HTMLElement).closest<HTMLElement>(
+                "[data-tplmgr-index]"
+            );
+            if (!row) return;
+            this.dragging = Number(row.dataset.tplmgrIndex);
+            e.dataTransfer?.setData("text/plain", row.dataset.tplmgrIndex!);
+            row.classList.add("ysp-tplmgr-dragging");
+        });
+        list.addEventListener("dragover", (e) => {
+            if (this.dragging === null) return;
+            const row = (e.target as HTMLElement).closest<HTMLElement>(
+                "[data-tplmgr-index]"
+            );
+            if (!row) return;
+            e.preventDefault();
+            list.querySelectorAll(".ysp-tplmgr-drop").forEach((el) =>
+                el.classList.remove("ysp-tplmgr-drop")
+            );
+            row.classList.add("ysp-tplmgr-drop");
+        });
+        list.addEventListener("drop", (e) => {
+            const row = (e.target as HTMLElement).closest<HTMLElement>(
+                "[data-tplmgr-index]"
+            );
+            if (!row || this.dragging === null) return;
+            e.preventDefault();
+            const to = Number(row.dataset.tplmgrIndex);
+            if (to !== this.dragging) {
+                this.edit(null);
+                this.onChange(moveTemplate(this.getTemplates(), this.dragging, to));
+            }
+        });
+        list.addEventListener("dragend", () => {
+            this.dragging = null;
+            this.renderList();
+        });
+
+        return modal;
+    }
+
+    private renderList() {
+        const list = this.modal?.querySelector("#ysp-tplmgr-list");
+        if (!list) return;
+        const search = (
+            this.modal?.querySelector("#ysp-tplmgr-search") as HTMLInputElement
+        ).value;
+        const templates = this.getTemplates();
+        const groups = groupTemplates(templates, search);
+
+        if (!groups.length) {
+            list.innerHTML = `<div class="ysp-macro-empty">${
+                templates.length ? "No templates match." : "No saved templates yet."
+            }</div>`;
+            return;
+        }
+
+        list.innerHTML = groups
+            .map(
+                (group) => `
+                ${group.label ? `<div class="ysp-tplmgr-group">${escapeHTML(group.label)}</div>` : ""}
+                ${group.entries
+                    .map(
+                        ({ template: t, index }) => `
+                    <div class="ysp-tplmgr-row${index === this.editing ? " ysp-tplmgr-selected" : ""}" draggable="true" data-tplmgr-index="${index}" title="Click to edit, drag to reorder">
+                        <span class="ysp-tplmgr-handle">⋮⋮</span>
+                        <button class="ysp-tplmgr-btn ysp-tplmgr-pin${t.pinned ? " ysp-tplmgr-pinned" : ""}" data-tplmgr-action="pin" type="button" title="${t.pinned ? "Unpin" : "Pin to top"}">${t.pinned ? "★" : "☆"}</button>
+                        <span class="ysp-tplmgr-info">
+                            <span class="ysp-tplmgr-name">${escapeHTML(t.name)}</span>
+                            ${(t.tags || [])
+                                .map((tag) => `<span class="ysp-tplmgr-tag">#${escapeHTML(tag)}</span>`)
+                                .join("")}
+                            <span class="ysp-tplmgr-detail">${escapeHTML(
+                                describeTemplate(t).join(", ")
+                            )}</span>
+                            <span class="ysp-tplmgr-usage">${describeUsage(t)}</span>
+                        </span>
+                        <button class="ysp-tplmgr-btn" data-tplmgr-action="duplicate" type="button" title="Duplicate">⧉</button>
+                        <button class="ysp-tplmgr-btn" data-tplmgr-action="delete" type="button" title="Delete">&times;</button>
+                    </div>`
+                    )
+                    .join("")}`
+            )
+            .join("");
+    }
+
+    // ── Editing ──
+
+    private inputs() {
+        const q = (id: string) => this.modal?.querySelector(id) as HTMLInputElement;
+        return {
+            name: q("#ysp-tplmgr-name"),
+            folder: q("#ysp-tplmgr-folder"),
+            tags: q("#ysp-tplmgr-tags"),
+        };
+    }
+
+    /** Show the edit form for a template (null hides it). */
+    private edit(index: number | null) {
+        this.editing = index;
+        const form = this.modal?.querySelector("#ysp-tplmgr-form") as HTMLElement;
+        const actions = this.modal?.querySelector("#ysp-tplmgr-actions") as HTMLElement;
+        const template = index === null ? undefined : this.getTemplates()[index];
+        form.style.display = template ? "" : "none";
+        actions.style.display = template ? "none" : "";
+        this.setStatus("");
+        this.renderList();
+        if (!template) return;
+
+        const folders = [
+            ...new Set(
+                this.getTemplates()
+                    .map((t) => t.folder)
+                    .filter(Boolean)
+            ),
+        ] as string[];
+        (this.modal?.querySelector("#ysp-tplmgr-folders") as HTMLElement).innerHTML =
+            folders.map((f) => `<option value="${escapeHTML(f)}"></option>`).join("");
+
+        const inputs = this.inputs();
+        inputs.name.value = template.name;
+        inputs.folder.value = template.folder || "";
+        inputs.tags.value = (template.tags || []).join(", ");
+        inputs.name.focus();
+    }
+
+    private saveEdit() {
+        if (this.editing === null) return;
+        const inputs = this.inputs();
+        const templates = this.getTemplates();
+        const error = templateNameError(templates, inputs.name.value, this.editing);
+        if (error) {
+            this.setStatus(error);
+            inputs.name.focus();
+            return;
+        }
+
+        const from = templates[this.editing].name;
+        const name = inputs.name.value.trim();
+        const tags = parseTags(inputs.tags.value);
+        this.update(
+            this.editing,
+            {
+                name,
+                folder: inputs.folder.value.trim() || undefined,
+                tags: tags.length ? tags : undefined,
+            },
+            from !== name ? { from, to: name } : undefined
+        );
+        this.edit(null);
+    }
+
+    private update(
+        index: number,
+        changes: Partial<FilterTemplate>,
+        renamed?: { from: string; to: string }
+    ) {
+        const templates = this.getTemplates().map((t, i) =>
+            i === index ? { ...t, ...changes } : t
+        );
+        this.onChange(templates, renamed);
+        this.renderList();
+    }
+
+    private setStatus(text: string) {
+        const status = this.modal?.querySelector("#ysp-tplmgr-status");
+        if (!status) return;
+        status.textContent = text;
+        status.classList.toggle("ysp-multi-status--warn", !!text);
+    }
+}
@@ -0,0 +1,281 @@
+import { describe, it, expect } from "vitest";
+import {
+    TEMPLATE_FILE_FORMAT,
+    exportTemplates,
+    readTemplateFile,
+    planImport,
+    importChanges,
+    describeImportPlan,
+    parseTags,
+    templateMatches,
+    groupTemplates,
+    templateNameError,
+    duplicateTemplate,
+    moveTemplate,
+    markUsed,
+    describeUsage,
+} from "./templates";
+import { type FilterTemplate } from "./panel";
+
+const NEWS: FilterTemplate = {
+    name: "News",
+    filters: [{ id: "exclude", value: "shorts" }],
+    native: { sort: "date", uploadDate: "today" },
+};
+const TUTORIALS: FilterTemplate = {
+    name: "Tutorials",
+    filters: [{ id: "intitle", value: "tutorial" }],
+    excludeShorts: true,
+};
+
+const file = (templates: unknown[], version = 1) =>
+    JSON.stringify({ format: TEMPLATE_FILE_FORMAT, version, templates });
+
+// ── Export / read ────────────────────────────────────────────────────
+
+describe("exportTemplates", () => {
+    it("writes a versioned file that reads back unchanged", () => {
+        const text = exportTemplates([NEWS, TUTORIALS], new Date("2025-03-01T00:00:00Z"));
+        expect(JSON.parse(text)).toMatchObject({
+            format: TEMPLATE_FILE_FORMAT,
+            version: 1,
+            exportedAt: "2025-03-01T00:00:00.000Z",
+        });
+        expect(readTemplateFile(text)).toEqual({
+            templates: [
+                { ...NEWS, excludeShorts: undefined, strictChannel: undefined },
+                { ...TUTORIALS, native: undefined, strictChannel: undefined },
+            ],
+            problems: [],
+            error: null,
+        });
+    });
+});
+
+describe("readTemplateFile", () => {
+    it("rejects files that aren't template files", () => {
+        expect(readTemplateFile("{oops").error).toBe("This file isn't valid JSON.");
+        expect(readTemplateFile('{"templates": []}').error).toBe(
+            "This isn't a YouTube Search Plus template file."
+        );
+        expect(readTemplateFile(file([], 2)).error).toBe(
+            "This file is version 2; update the extension to import it."
+        );
+    });
+
+    it("drops unknown filter ids and native values, reporting each", () => {
+        const result = readTemplateFile(
+            file([
+                {
+                    name: "Mixed",
+                    filters: [
+                        { id: "intitle", value: "review" },
+                        { id: "mood", value: "happy" },
+                    ],
+                    native: { sort: "views", duration: "epic", features: ["4k", "8k"] },
+                },
+            ])
+        );
+        expect(result.templates).toEqual([
+            {
+                name: "Mixed",
+                filters: [{ id: "intitle", value: "review" }],
+                native: { sort: "views", features: ["4k"] },
+                excludeShorts: undefined,
+                strictChannel: undefined,
+            },
+        ]);
+        expect(result.problems).toEqual([
+            '"Mixed": unknown filter "mood" dropped.',
+            '"Mixed": unknown YouTube filter duration = "epic" dropped.',
+            '"Mixed": unknown YouTube features dropped.',
+        ]);
+    });
+
+    it("keeps folders, tags and pins but not usage", () => {
+        const [template] = readTemplateFile(
+            file([
+                {
+                    ...TUTORIALS,
+                    folder: " Work ",
+                    tags: ["weekly", "#Weekly", 3],
+                    pinned: true,
+                    useCount: 9,
+                    lastUsed: 1,
+                },
+            ])
+        ).templates;
+        expect(template).toMatchObject({ folder: "Work", tags: ["weekly"], pinned: true });
+        expect(template.useCount).toBeUndefined();
+    });
+
+    it("reads saved searches with their post-filters", () => {
+        const [search] = readTemplateFile(
+            file([
+                {
+                    name: "Search",
+                    query: " cats ",
+                    filters: [],
+                    postFilter: { action: "zap", minViews: "lots", maxDuration: 600 },
+                },
+            ])
+        ).templates;
+        expect(search).toMatchObject({
+            query: "cats",
+            postFilter: { action: "hide", maxDuration: 600 },
+        });
+    });
+
+    it("skips templates without a name or any usable filter", () => {
+        const result = readTemplateFile(
+            file([{ filters: [] }, { name: "Empty", filters: [{ id: "x", value: "y" }] }])
+        );
+        expect(result.templates).toEqual([]);
+        expect(result.problems).toEqual([
+            "Template 1 has no name and was skipped.",
+            '"Empty": unknown filter "x" dropped.',
+            '"Empty": no usable filters, skipped.',
+        ]);
+    });
+});
+
+// ── planImport ───────────────────────────────────────────────────────
+
+describe("planImport", () => {
+    const incoming: FilterTemplate[] = [
+        { ...NEWS, filters: [{ id: "intitle", value: "live" }] },
+        TUTORIALS,
+    ];
+
+    it("skips clashing names", () => {
+        const plan = planImport([NEWS], incoming, "skip");
+        expect(plan.templates).toEqual([NEWS, TUTORIALS]);
+        expect(describeImportPlan(plan)).toEqual([
+            "Add 1: Tutorials",
+            "Skip 1 (name already saved): News",
+        ]);
+    });
+
+    it("overwrites clashing names in place", () => {
+        const plan = planImport([NEWS], incoming, "overwrite");
+        expect(plan.templates).toEqual(incoming);
+        expect(plan.overwritten).toEqual(["News"]);
+    });
+
+    it("renames to the first free name", () => {
+        const saved = [NEWS, { ...NEWS, name: "News (2)" }];
+        const plan = planImport(saved, [NEWS, NEWS], "rename");
+        expect(plan.templates.map((t) => t.name)).toEqual([
+            "News",
+            "News (2)",
+            "News (3)",
+            "News (4)",
+        ]);
+        expect(importChanges(plan)).toBe(2);
+        expect(describeImportPlan(plan)).toEqual([
+            "Rename 2: News → News (3), News → News (4)",
+        ]);
+    });
+
+    it("reports when nothing would change", () => {
+        const plan = planImport([NEWS], [NEWS], "skip");
+        expect(importChanges(plan)).toBe(0);
+        expect(plan.templates).toEqual([NEWS]);
+    });
+});
+
+// ── Managing ─────────────────────────────────────────────────────────
+
+describe("parseTags", () => {
+    it("trims, drops # and de-duplicates case-insensitively", () => {
+        expect(parseTags(" work, #Weekly,, weekly ,Work")).toEqual(["work", "Weekly"]);
+    });
+});
+
+describe("templateMatches", () => {
+    const t: FilterTemplate = { ...NEWS, folder: "Work", tags: ["daily"] };
+
+    it("needs every word somewhere in the name, folder, tags or filters", () => {
+        expect(templateMatches(t, "")).toBe(true);
+        expect(templateMatches(t, "news WORK")).toBe(true);
+        expect(templateMatches(t, "#daily")).toBe(true);
+        expect(templateMatches(t, "upload today")).toBe(true);
+        expect(templateMatches(t, "news music")).toBe(false);
+    });
+});
+
+describe("groupTemplates", () => {
+    const templates: FilterTemplate[] = [
+        { ...NEWS, name: "B", folder: "Work" },
+        { ...NEWS, name: "Loose" },
+        { ...NEWS, name: "A", folder: "Archive" },
+        { ...NEWS, name: "Fav", folder: "Work", pinned: true },
+        { ...NEWS, name: "C", folder: "Work" },
+    ];
+    const names = (search?: string) =>
+        groupTemplates(templates, search).map((g) => [
+            g.label,
+            g.entries.map((e) => `${e.template.name}@${e.index}`),
+        ]);
+
+    it("lists pinned first, then loose templates, then folders A–Z", () => {
+        expect(names()).toEqual([
+            ["Pinned", ["Fav@3"]],
+            [null, ["Loose@1"]],
+            ["Archive", ["A@2"]],
+            ["Work", ["B@0", "C@4"]],
+        ]);
+    });
+
+    it("drops empty groups when searching", () => {
+        expect(names("work")).toEqual([
+            ["Pinned", ["Fav@3"]],
+            ["Work", ["B@0", "C@4"]],
+        ]);
+    });
+});
+
+describe("templateNameError", () => {
+    it("rejects empty, over-long and taken names", () => {
+        const templates = [NEWS, TUTORIALS];
+        expect(templateNameError(templates, " ")).toBe("Enter a name");
+        expect(templateNameError(templates, "x".repeat(81))).toBe(
+            "Names can be up to 80 characters"
+        );
+        expect(templateNameError(templates, "News")).toBe('"News" already exists');
+        // Renaming a template to its own name is fine
+        expect(templateNameError(templates, "News", 0)).toBeNull();
+    });
+});
+
+describe("duplicateTemplate / moveTemplate", () => {
+    it("places a fresh copy right after the original", () => {
+        const used = markUsed(NEWS);
+        const list = duplicateTemplate([used, TUTORIALS], 0);
+        expect(list.map((t) => t.name)).toEqual(["News", "News (2)", "Tutorials"]);
+        expect(list[1].useCount).toBeUndefined();
+    });
+
+    it("moves a template to a new position", () => {
+        const a = { ...NEWS, name: "a" };
+        const b = { ...NEWS, name: "b" };
+        const c = { ...NEWS, name: "c" };
+        expect(moveTemplate([a, b, c], 0, 2)).toEqual([b, c, a]);
+        expect(moveTemplate([a, b, c], 2, 0)).toEqual([c, a, b]);
+    });
+});
+
+describe("usage", () => {
+    const now = new Date(2025, 2, 10, 12);
+
+    it("counts uses and describes the last one", () => {
+        expect(describeUsage(NEWS, now)).toBe("Never used");
+        const once = markUsed(NEWS, new Date(2025, 2, 9, 23));
+        expect(describeUsage(once, now)).toBe("Used 1× · last yesterday");
+        const twice = markUsed(once, new Date(2025, 2, 10, 8));
+        expect(describeUsage(twice, now)).toBe("Used 2× · last today");
+        expect(describeUsage({ ...twice, lastUsed: +new Date(2025, 2, 5) }, now)).toBe(
+            "Used 2× · last 5 days ago"
+        );
+    });
+});
@@ -0,0 +1,438 @@
+/**
+ * YouTube Search Plus — Template Files
+ *
+ * Templates are exported as a versioned JSON file so a curated set can be
+ * moved between machines or shared with a team:
+ *
+ *   { "format": "youtube-search-plus/templates", "version": 1,
+ *     "exportedAt": "…", "templates": [FilterTemplate, …] }
+ *
+ * Importing validates each template against the known filter ids and
+ * native filter options (unknown entries are dropped and reported), then
+ * plans how it merges with the saved templates — skip, overwrite or
+ * rename on a name clash — so the panel can show a dry-run summary
+ * before anything is saved.
+ *
+ * It also holds the template manager's list logic: search, grouping by
+ * folder with pinned favourites first, renaming and usage metadata.
+ */
+
+import type { FilterTemplate } from "./panel";
+import { type ActiveTextFilter, TEXT_FILTERS, strictChannelPath } from "./filters";
+import {
+    type NativeFilters,
+    describeNativeFilters,
+    SORT_OPTIONS,
+    UPLOAD_DATE_OPTIONS,
+    TYPE_OPTIONS,
+    DURATION_OPTIONS,
+    FEATURE_OPTIONS,
+} from "./sp";
+import { formatISODate } from "./dates";
+import { hasPostFilterRules, readPostFilterRules } from "./postfilter";
+
+export const TEMPLATE_NAME_MAX = 80;
+
+export const TEMPLATE_FILE_FORMAT = "youtube-search-plus/templates";
+export const TEMPLATE_FILE_VERSION = 1;
+
+export interface TemplateFile {
+    format: typeof TEMPLATE_FILE_FORMAT;
+    version: number;
+    exportedAt: string;
+    templates: FilterTemplate[];
+}
+
+/** What a template file held, after validation. */
+export interface TemplateFileContents {
+    templates: FilterTemplate[];
+    /** Entries dropped or cleaned up, one line each */
+    problems: string[];
+    /** Why the whole file was rejected, or null */
+    error: string | null;
+}
+
+/** How to import a template whose name is already saved. */
+export type ImportConflict = "skip" | "overwrite" | "rename";
+
+export const IMPORT_CONFLICTS: { value: ImportConflict; label: string }[] = [
+    { value: "skip", label: "Skip it" },
+    { value: "overwrite", label: "Overwrite the saved one" },
+    { value: "rename", label: "Import under a new name" },
+];
+
+export interface ImportPlan {
+    /** The full template list after importing */
+    templates: FilterTemplate[];
+    added: string[];
+    overwritten: string[];
+    renamed: { from: string; to: string }[];
+    skipped: string[];
+}
+
+/** Summary parts for a template, e.g. `In Title: review`, `Exclude Shorts`. */
+export function describeTemplate(template: FilterTemplate): string[] {
+    const search = template.query?.trim() ? [`Search: ${template.query.trim()}`] : [];
+    const parts = template.filters
+        .map((f) => {
+            const config = TEXT_FILTERS.find((c) => c.id === f.id);
+            if (f.id === "channel" && template.strictChannel && strictChannelPath(f))
+                return `Only channel: ${f.value}`;
+            return config ? `${config.label}: ${f.value}` : "";
+        })
+        .filter(Boolean);
+    if (template.excludeShorts) parts.push("Exclude Shorts");
+    for (const n of describeNativeFilters(template.native || {})) {
+        if (!(template.excludeShorts && n.label === "Type"))
+            parts.push(`${n.label}: ${n.value}`);
+    }
+    if (template.postFilter && hasPostFilterRules(template.postFilter))
+        parts.push("Result filters");
+    return [...search, ...parts];
+}
+
+// ─── Export ──────────────────────────────────────────────────────────
+
+export function exportTemplates(
+    templates: FilterTemplate[],
+    now: Date = new Date()
+): string {
+    const file: TemplateFile = {
+        format: TEMPLATE_FILE_FORMAT,
+        version: TEMPLATE_FILE_VERSION,
+        exportedAt: now.toISOString(),
+        templates,
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+// ─── Import ──────────────────────────────────────────────────────────
+
+/** Parse and validate an exported template file. */
+export function readTemplateFile(text: string): TemplateFileContents {
+    const fail = (error: string): TemplateFileContents => ({
+        templates: [],
+        problems: [],
+        error,
+    });
+
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return fail("This file isn't valid JSON.");
+    }
+    if (!isRecord(data) || data.format !== TEMPLATE_FILE_FORMAT)
+        return fail("This isn't a YouTube Search Plus template file.");
+    if (typeof data.version !== "number" || !Number.isInteger(data.version))
+        return fail("This template file has no version.");
+    if (data.version > TEMPLATE_FILE_VERSION)
+        return fail(
+            `This file is version ${data.version}; update the extension to import it.`
+        );
+    if (!Array.isArray(data.templates))
+        return fail("This template file has no templates.");
+
+    const templates: FilterTemplate[] = [];
+    const problems: string[] = [];
+    data.templates.forEach((raw, i) => {
+        const template = readTemplate(raw, i, problems);
+        if (template) templates.push(template);
+    });
+    return { templates, problems, error: null };
+}
+
+const NATIVE_VALUES: Record<string, string[]> = {
+    sort: SORT_OPTIONS.map((o) => o.value),
+    uploadDate: UPLOAD_DATE_OPTIONS.map((o) => o.value),
+    type: TYPE_OPTIONS.map((o) => o.value),
+    duration: DURATION_OPTIONS.map((o) => o.value),
+};
+
+const FEATURE_VALUES: string[] = FEATURE_OPTIONS.map((o) => o.value);
+
+/**
+ * One template entry, or null (with a problem) if it can't be used.
+ * Shared with share links, see share.ts.
+ */
+export function readTemplate(
+    raw: unknown,
+    index: number,
+    problems: string[]
+): FilterTemplate | null {
+    if (!isRecord(raw) || typeof raw.name !== "string" || !raw.name.trim()) {
+        problems.push(`Template ${index + 1} has no name and was skipped.`);
+        return null;
+    }
+    const name = raw.name.trim();
+    const note = (text: string) => problems.push(`"${name}": ${text}`);
+
+    const filters: ActiveTextFilter[] = [];
+    for (const f of Array.isArray(raw.filters) ? raw.filters : []) {
+        if (!isRecord(f) || typeof f.id !== "string" || typeof f.value !== "string")
+            continue;
+        if (!TEXT_FILTERS.some((c) => c.id === f.id)) {
+            note(`unknown filter "${f.id}" dropped.`);
+            continue;
+        }
+        if (f.value.trim()) filters.push({ id: f.id, value: f.value.trim() });
+    }
+
+    const native: NativeFilters = {};
+    if (isRecord(raw.native)) {
+        for (const [key, value] of Object.entries(raw.native)) {
+            if (key === "features") {
+                const features = Array.isArray(value) ? value : [];
+                const known = features.filter((v) => FEATURE_VALUES.includes(v));
+                if (known.length < features.length)
+                    note("unknown YouTube features dropped.");
+                if (known.length) native.features = known;
+            } else if (NATIVE_VALUES[key]?.includes(value as string)) {
+                (native as Record<string, unknown>)[key] = value;
+            } else if (value !== undefined && value !== null) {
+                note(`unknown YouTube filter ${key} = ${JSON.stringify(value)} dropped.`);
+            }
+        }
+    }
+    const hasNative = Object.keys(native).length > 0;
+    const query = typeof raw.query === "string" ? raw.query.trim() : "";
+    const postFilter = query ? readPostFilterRules(raw.postFilter) : null;
+
+    if (!filters.length && !hasNative && raw.excludeShorts !== true && !query) {
+        note("no usable filters, skipped.");
+        return null;
+    }
+
+    // Organisation travels with the template; usage stays on the machine
+    const folder = typeof raw.folder === "string" ? raw.folder.trim() : "";
+    const tags = Array.isArray(raw.tags)
+        ? raw.tags.filter((t): t is string => typeof t === "string")
+        : [];
+    return {
+        name: name.slice(0, TEMPLATE_NAME_MAX),
+        filters,
+        excludeShorts: raw.excludeShorts === true || undefined,
+        native: hasNative ? native : undefined,
+        strictChannel: raw.strictChannel === true || undefined,
+        query: query || undefined,
+        postFilter: postFilter || undefined,
+        folder: folder || undefined,
+        tags: tags.length ? parseTags(tags.join(",")) : undefined,
+        pinned: raw.pinned === true || undefined,
+    };
+}
+
+/**
+ * Merge imported templates into the saved ones without saving anything.
+ * Names are compared exactly, as when saving a template from the panel;
+ * later duplicates within the file clash with earlier ones too.
+ */
+export function planImport(
+    saved: FilterTemplate[],
+    incoming: FilterTemplate[],
+    conflict: ImportConflict
+): ImportPlan {
+    const plan: ImportPlan = {
+        templates: [...saved],
+        added: [],
+        overwritten: [],
+        renamed: [],
+        skipped: [],
+    };
+
+    for (const template of incoming) {
+        const existing = plan.templates.findIndex((t) => t.name === template.name);
+        if (existing < 0) {
+            plan.templates.push(template);
+            plan.added.push(template.name);
+        } else if (conflict === "skip") {
+            plan.skipped.push(template.name);
+        } else if (conflict === "overwrite") {
+            plan.templates[existing] = template;
+            plan.overwritten.push(template.name);
+        } else {
+            const name = freeName(template.name, plan.templates);
+            plan.templates.push({ ...template, name });
+            plan.renamed.push({ from: template.name, to: name });
+        }
+    }
+    return plan;
+}
+
+/** "Name (2)", "Name (3)", … — the first one not already taken. */
+export function freeName(name: string, templates: FilterTemplate[]): string {
+    for (let n = 2; ; n++) {
+        const candidate = `${name} (${n})`;
+        if (!templates.some((t) => t.name === candidate)) return candidate;
+    }
+}
+
+/** Number of templates an import would add or change. */
+export function importChanges(plan: ImportPlan): number {
+    return plan.added.length + plan.overwritten.length + plan.renamed.length;
+}
+
+/** Dry-run summary lines, e.g. `Add 2: News, Tutorials`. */
+export function describeImportPlan(plan: ImportPlan): string[] {
+    const lines: string[] = [];
+    if (plan.added.length)
+        lines.push(`Add ${plan.added.length}: ${plan.added.join(", ")}`);
+    if (plan.overwritten.length)
+        lines.push(
+            `Overwrite ${plan.overwritten.length}: ${plan.overwritten.join(", ")}`
+        );
+    if (plan.renamed.length)
+        lines.push(
+            `Rename ${plan.renamed.length}: ${plan.renamed
+                .map((r) => `${r.from} → ${r.to}`)
+                .join(", ")}`
+        );
+    if (plan.skipped.length)
+        lines.push(
+            `Skip ${plan.skipped.length} (name already saved): ${plan.skipped.join(", ")}`
+        );
+    if (!lines.length) lines.push("Nothing to import");
+    return lines;
+}
+
+// ─── Managing ────────────────────────────────────────────────────────
+
+/** A template with its position in the saved list. */
+export interface TemplateEntry {
+    template: FilterTemplate;
+    index: number;
+}
+
+export interface TemplateGroup {
+    /** "Pinned", a folder name, or null for templates without a folder */
+    label: string | null;
+    entries: TemplateEntry[];
+}
+
+/** Comma-separated tags, trimmed and de-duplicated (case-insensitively). */
+export function parseTags(text: string): string[] {
+    const seen = new Set<string>();
+    const tags: string[] = [];
+    for (const raw of text.split(",")) {
+        const tag = raw.trim().replace(/^#/, "");
+        if (!tag || seen.has(tag.toLowerCase())) continue;
+        seen.add(tag.toLowerCase());
+        tags.push(tag);
+    }
+    return tags;
+}
+
+/** Every word of the search appears in the name, folder, tags or filters. */
+export function templateMatches(template: FilterTemplate, search: string): boolean {
+    const haystack = [
+        template.name,
+        template.folder || "",
+        ...(template.tags || []).map((t) => `#${t}`),
+        ...describeTemplate(template),
+    ]
+        .join(" ")
+        .toLowerCase();
+    return search
+        .toLowerCase()
+        .split(/\s+/)
+        .filter(Boolean)
+        .every((word) => haystack.includes(word));
+}
+
+/**
+ * Templates matching a search, grouped for display: pinned first, then
+ * those without a folder, then each folder alphabetically. Within a group
+ * the saved (drag-to-reorder) order is kept.
+ */
+export function groupTemplates(
+    templates: FilterTemplate[],
+    search = ""
+): TemplateGroup[] {
+    const pinned: TemplateEntry[] = [];
+    const loose: TemplateEntry[] = [];
+    const folders = new Map<string, TemplateEntry[]>();
+
+    templates.forEach((template, index) => {
+        if (!templateMatches(template, search)) return;
+        const entry = { template, index };
+        if (template.pinned) pinned.push(entry);
+        else if (!template.folder) loose.push(entry);
+        else folders.set(template.folder, [...(folders.get(template.folder) || []), entry]);
+    });
+
+    const groups: TemplateGroup[] = [];
+    if (pinned.length) groups.push({ label: "Pinned", entries: pinned });
+    if (loose.length) groups.push({ label: null, entries: loose });
+    for (const folder of [...folders.keys()].sort((a, b) => a.localeCompare(b)))
+        groups.push({ label: folder, entries: folders.get(folder)! });
+    return groups;
+}
+
+/** Why a template can't be called this, or null if the name is free. */
+export function templateNameError(
+    templates: FilterTemplate[],
+    name: string,
+    index = -1
+): string | null {
+    if (!name.trim()) return "Enter a name";
+    if (name.trim().length > TEMPLATE_NAME_MAX)
+        return `Names can be up to ${TEMPLATE_NAME_MAX} characters`;
+    const clash = templates.findIndex((t) => t.name === name.trim());
+    return clash >= 0 && clash !== index ? `"${name.trim()}" already exists` : null;
+}
+
+/** A copy of the template, placed after it, under a free name. */
+export function duplicateTemplate(
+    templates: FilterTemplate[],
+    index: number
+): FilterTemplate[] {
+    const source = templates[index];
+    const copy: FilterTemplate = {
+        ...source,
+        name: freeName(source.name, templates),
+        lastUsed: undefined,
+        useCount: undefined,
+    };
+    return [...templates.slice(0, index + 1), copy, ...templates.slice(index + 1)];
+}
+
+/** Move one template to another position (drag-to-reorder). */
+export function moveTemplate(
+    templates: FilterTemplate[],
+    from: number,
+    to: number
+): FilterTemplate[] {
+    const moved = [...templates];
+    const [template] = moved.splice(from, 1);
+    moved.splice(to, 0, template);
+    return moved;
+}
+
+/** Count a load or auto-apply. */
+export function markUsed(template: FilterTemplate, now: Date = new Date()): FilterTemplate {
+    return {
+        ...template,
+        lastUsed: now.getTime(),
+        useCount: (template.useCount || 0) + 1,
+    };
+}
+
+/** e.g. `Used 3× · last yesterday`, or `Never used`. */
+export function describeUsage(template: FilterTemplate, now: Date = new Date()): string {
+    if (!template.useCount || !template.lastUsed) return "Never used";
+    const day = (d: Date) => Date.UTC(d.getFullYear(), d.getMonth(), d.getDate());
+    const days = Math.round((day(now) - day(new Date(template.lastUsed))) / 86_400_000);
+    const last =
+        days <= 0
+            ? "today"
+            : days === 1
+              ? "yesterday"
+              : days < 30
+                ? `${days} days ago`
+                : `on ${formatISODate(new Date(template.lastUsed))}`;
+    return `Used ${template.useCount}× · last ${last}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
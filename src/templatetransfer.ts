@@ -0,0 +1,245 @@
+/**
+ * YouTube Search Plus — Template Import / Export (UI)
+ *
+ * Modal for moving templates between machines (see templates.ts). The
+ * export half lists the saved templates with checkboxes and downloads the
+ * ticked ones as a JSON file; the import half reads a file, shows a
+ * dry-run summary for the chosen name-clash handling, and only hands the
+ * merged list back to the panel once the user confirms.
+ */
+
+import type { FilterTemplate } from "./panel";
+import {
+    type ImportConflict,
+    type TemplateFileContents,
+    IMPORT_CONFLICTS,
+    exportTemplates,
+    readTemplateFile,
+    planImport,
+    importChanges,
+    describeImportPlan,
+} from "./templates";
+import { escapeHTML } from "./html";
+
+export class TemplateTransfer {
+    private modal: HTMLDivElement | null = null;
+    private getTemplates: () => FilterTemplate[];
+    private onImport: (templates: FilterTemplate[]) => void;
+    /** The file picked for import, once read */
+    private pending: TemplateFileContents | null = null;
+
+    constructor(
+        getTemplates: () => FilterTemplate[],
+        onImport: (templates: FilterTemplate[]) => void
+    ) {
+        this.getTemplates = getTemplates;
+        this.onImport = onImport;
+    }
+
+    /** Check if a DOM node is inside the modal (for outside-click exclusion). */
+    containsNode(node: Node): boolean {
+        return this.modal?.contains(node) ?? false;
+    }
+
+    open() {
+        if (!this.modal) {
+            this.modal = this.buildModal();
+            document.body.appendChild(this.modal);
+        }
+        this.pending = null;
+        (this.modal.querySelector("#ysp-transfer-file") as HTMLInputElement).value = "";
+        this.renderExportList();
+        this.renderImport();
+        this.modal.classList.add("ysp-info-open");
+        document.body.style.overflow = "hidden";
+    }
+
+    close() {
+        this.modal?.classList.remove("ysp-info-open");
+        document.body.style.overflow = "";
+    }
+
+    // ── Modal builder ──
+
+    private buildModal(): HTMLDivElement {
+        const modal = document.createElement("div");
+        modal.id = "ysp-transfer-modal";
+        modal.innerHTML = `
+            <div class="ysp-info-backdrop"></div>
+            <div class="ysp-info-content ysp-transfer-content">
+                <div class="ysp-info-header">
+                    <h3>Import / Export Templates</h3>
+                    <button class="ysp-info-close" id="ysp-transfer-close" type="button">&times;</button>
+                </div>
+                <div class="ysp-transfer-body">
+                    <div class="ysp-template-modal-label">Export</div>
+                    <label class="ysp-transfer-all">
+                        <input type="checkbox" id="ysp-transfer-all" checked /> All templates
+                    </label>
+                    <div class="ysp-transfer-list" id="ysp-transfer-list"></div>
+                    <div class="ysp-template-modal-actions">
+                        <button class="ysp-btn ysp-btn-clear" id="ysp-transfer-export" type="button">Export Selected</button>
+                    </div>
+
+                    <div class="ysp-template-modal-label">Import</div>
+                    <input type="file" id="ysp-transfer-file" accept=".json,application/json" />
+                    <label class="ysp-template-modal-label" for="ysp-transfer-conflict">When a template name is already saved</label>
+                    <select id="ysp-transfer-conflict">
+                        ${IMPORT_CONFLICTS.map(
+                            (c) => `<option value="${c.value}">${c.label}</option>`
+                        ).join("")}
+                    </select>
+                    <div class="ysp-transfer-summary" id="ysp-transfer-summary"></div>
+                    <div class="ysp-template-modal-actions">
+                        <button class="ysp-btn ysp-btn-clear" id="ysp-transfer-done" type="button">Done</button>
+                        <button class="ysp-btn ysp-btn-apply" id="ysp-transfer-import" type="button" disabled>Import</button>
+                    </div>
+                </div>
+            </div>
+        `;
+
+        modal
+            .querySelector(".ysp-info-backdrop")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-transfer-close")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-transfer-done")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-transfer-export")
+            ?.addEventListener("click", () => this.exportSelected());
+        modal
+            .querySelector("#ysp-transfer-import")
+            ?.addEventListener("click", () => this.applyImport());
+        modal
+            .querySelector("#ysp-transfer-conflict")
+            ?.addEventListener("change", () => this.renderImport());
+
+        const all = modal.querySelector("#ysp-transfer-all") as HTMLInputElement;
+        all.addEventListener("change", () => {
+            modal
+                .querySelectorAll<HTMLInputElement>("[data-transfer-index]")
+                .forEach((box) => (box.checked = all.checked));
+        });
+
+        const file = modal.querySelector("#ysp-transfer-file") as HTMLInputElement;
+        file.addEventListener("change", async () => {
+            const picked = file.files?.[0];
+            this.pending = picked ? readTemplateFile(await picked.text()) : null;
+            this.renderImport();
+        });
+
+        return modal;
+    }
+
+    private renderExportList() {
+        const list = this.modal?.querySelector("#ysp-transfer-list");
+        if (!list) return;
+        const templates = this.getTemplates();
+        (this.modal?.querySelector("#ysp-transfer-all") as HTMLInputElement).checked =
+            true;
+        list.innerHTML = templates.length
+            ? templates
+                  .map(
+                      (t, i) => `
+                <label class="ysp-transfer-row">
+                    <input type="checkbox" data-transfer-index="${i}" checked />
+                    ${escapeHTML(t.name)}
+                </label>`
+                  )
+                  .join("")
+            : `<div class="ysp-macro-empty">No saved templates to export.</div>`;
+    }
+
+    /** Dry-run summary of the picked file, for the chosen conflict handling. */
+    private renderImport() {
+        const summary = this.modal?.querySelector("#ysp-transfer-summary");
+        const button = this.modal?.querySelector(
+            "#ysp-transfer-import"
+        ) as HTMLButtonElement | null;
+        if (!summary || !button) return;
+
+        const contents = this.pending;
+        if (!contents || contents.error) {
+            summary.innerHTML = contents
+                ? `<div class="ysp-multi-status ysp-multi-status--warn">${escapeHTML(
+                      contents.error!
+                  )}</div>`
+                : "";
+            button.disabled = true;
+            button.textContent = "Import";
+            return;
+        }
+
+        const plan = planImport(this.getTemplates(), contents.templates, this.conflict());
+        const changes = importChanges(plan);
+        summary.innerHTML = [
+            ...describeImportPlan(plan).map(
+                (line) => `<div class="ysp-transfer-line">${escapeHTML(line)}</div>`
+            ),
+            ...contents.problems.map(
+                (p) =>
+                    `<div class="ysp-transfer-line ysp-transfer-problem">${escapeHTML(p)}</div>`
+            ),
+        ].join("");
+        button.disabled = changes === 0;
+        button.textContent = changes
+            ? `Import ${changes} Template${changes === 1 ? "" : "s"}`
+            : "Import";
+    }
+
+    private conflict(): ImportConflict {
+        return (this.modal?.querySelector("#ysp-transfer-conflict") as HTMLSelectElement)
+            .value as ImportConflict;
+    }
+
+    // ── Actions ──
+
+    private exportSelected() {
+        const templates = this.getTemplates();
+        const selected = Array.from(
+            this.modal?.querySelectorAll<HTMLInputElement>(
+                "[data-transfer-index]:checked"
+            ) || []
+        ).map((box) => templates[Number(box.dataset.transferIndex)]);
+        if (!selected.length) return;
+
+        const blob = new Blob([exportTemplates(selected)], {
+            type: "application/json;charset=utf-8;",
+        });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `youtube-search-templates_${
+            new Date().toISOString().split("T")[0]
+        }.json`;
+        link.style.display = "none";
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }
+
+    private applyImport() {
+        if (!this.pending || this.pending.error) return;
+        const plan = planImport(
+            this.getTemplates(),
+            this.pending.templates,
+            this.conflict()
+        );
+        if (!importChanges(plan)) return;
+        this.onImport(plan.templates);
+
+        this.pending = null;
+        (this.modal?.querySelector("#ysp-transfer-file") as HTMLInputElement).value = "";
+        this.renderExportList();
+        this.renderImport();
+        const summary = this.modal?.querySelector("#ysp-transfer-summary");
+        if (summary)
+            summary.innerHTML = `<div class="ysp-multi-status">Imported: ${escapeHTML(
+                describeImportPlan(plan).join("; ")
+            )}</div>`;
+    }
+}
@@ -0,0 +1,178 @@
+/**
+ * YouTube Search Plus — Variable Prompt (UI)
+ *
+ * Modal shown when a template with {{placeholders}} is applied (see
+ * variables.ts): one field per variable, pre-filled with the value used
+ * last time and offering the earlier ones as suggestions. Dates resolve
+ * without asking. Values are remembered under `ysp_template_vars`.
+ */
+
+import type { FilterTemplate } from "./panel";
+import {
+    type TemplateVariable,
+    type VariableHistory,
+    templateVariables,
+    fillTemplate,
+    initialValues,
+    rememberValues,
+} from "./variables";
+import { escapeHTML } from "./html";
+
+export class VariablePrompt {
+    private modal: HTMLDivElement | null = null;
+    private history: VariableHistory = {};
+    private variables: TemplateVariable[] = [];
+    /** The template being filled and who gets the result */
+    private pending: {
+        template: FilterTemplate;
+        onFilled: (template: FilterTemplate) => void;
+    } | null = null;
+
+    /** Check if a DOM node is inside the modal (for outside-click exclusion). */
+    containsNode(node: Node): boolean {
+        return this.modal?.contains(node) ?? false;
+    }
+
+    /** Load the remembered variable values. */
+    async load() {
+        try {
+            const result = await chrome.storage.local.get("ysp_template_vars");
+            this.history = (result.ysp_template_vars as VariableHistory | undefined) || {};
+        } catch {
+            /* ignore */
+        }
+    }
+
+    /**
+     * Fill a template's placeholders, asking for any variables first.
+     * Templates without variables are filled straight away.
+     */
+    fill(template: FilterTemplate, onFilled: (template: FilterTemplate) => void) {
+        const variables = templateVariables(template);
+        if (!variables.length) {
+            onFilled(fillTemplate(template, {}));
+            return;
+        }
+        this.open(template, variables, onFilled);
+    }
+
+    /** Fill without asking: each variable gets its last value (auto-apply). */
+    autoFill(template: FilterTemplate): FilterTemplate {
+        return fillTemplate(
+            template,
+            initialValues(templateVariables(template), this.history)
+        );
+    }
+
+    close() {
+        this.pending = null;
+        this.modal?.classList.remove("ysp-info-open");
+        document.body.style.overflow = "";
+    }
+
+    private open(
+        template: FilterTemplate,
+        variables: TemplateVariable[],
+        onFilled: (template: FilterTemplate) => void
+    ) {
+        if (!this.modal) {
+            this.modal = this.buildModal();
+            document.body.appendChild(this.modal);
+        }
+        this.pending = { template, onFilled };
+        this.variables = variables;
+        this.render();
+        this.modal.classList.add("ysp-info-open");
+        document.body.style.overflow = "hidden";
+        setTimeout(
+            () => (this.modal?.querySelector(".ysp-vars-input") as HTMLElement)?.focus(),
+            50
+        );
+    }
+
+    // ── Modal builder ──
+
+    private buildModal(): HTMLDivElement {
+        const modal = document.createElement("div");
+        modal.id = "ysp-vars-modal";
+        modal.innerHTML = `
+            <div class="ysp-info-backdrop"></div>
+            <div class="ysp-info-content ysp-vars-content">
+                <div class="ysp-info-header">
+                    <h3 id="ysp-vars-title">Fill in template</h3>
+                    <button class="ysp-info-close" id="ysp-vars-close" type="button">&times;</button>
+                </div>
+                <div class="ysp-vars-body">
+                    <div id="ysp-vars-fields"></div>
+                    <div class="ysp-template-modal-actions">
+                        <button class="ysp-btn ysp-btn-clear" id="ysp-vars-cancel" type="button">Cancel</button>
+                        <button class="ysp-btn ysp-btn-apply" id="ysp-vars-apply" type="button">Apply</button>
+                    </div>
+                </div>
+            </div>
+        `;
+
+        modal
+            .querySelector(".ysp-info-backdrop")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-vars-close")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-vars-cancel")
+            ?.addEventListener("click", () => this.close());
+        modal
+            .querySelector("#ysp-vars-apply")
+            ?.addEventListener("click", () => this.apply());
+        modal.querySelector("#ysp-vars-fields")?.addEventListener("keydown", (e) => {
+            if ((e as KeyboardEvent).key === "Enter") this.apply();
+        });
+
+        return modal;
+    }
+
+    private render() {
+        const title = this.modal?.querySelector("#ysp-vars-title");
+        const fields = this.modal?.querySelector("#ysp-vars-fields");
+        if (!title || !fields || !this.pending) return;
+        title.textContent = `Fill in "${this.pending.template.name}"`;
+
+        const values = initialValues(this.variables, this.history);
+        fields.innerHTML = this.variables
+            .map((v, i) => {
+                const previous = this.history[v.name] || [];
+                return `
+                    <label class="ysp-template-modal-label" for="ysp-vars-${i}">${escapeHTML(
+                        v.name
+                    )}</label>
+                    <input type="text" class="ysp-vars-input" id="ysp-vars-${i}" data-variable="${escapeHTML(
+                        v.name
+                    )}" value="${escapeHTML(values[v.name])}" list="ysp-vars-list-${i}" autocomplete="off" />
+                    <datalist id="ysp-vars-list-${i}">${previous
+                        .map((p) => `<option value="${escapeHTML(p)}"></option>`)
+                        .join("")}</datalist>`;
+            })
+            .join("");
+    }
+
+    private apply() {
+        if (!this.pending) return;
+        const values: Record<string, string> = {};
+        this.modal
+            ?.querySelectorAll<HTMLInputElement>(".ysp-vars-input")
+            .forEach((input) => {
+                values[input.dataset.variable!] = input.value.trim();
+            });
+
+        this.history = rememberValues(this.history, values);
+        try {
+            chrome.storage.local.set({ ysp_template_vars: this.history });
+        } catch {
+            /* ignore */
+        }
+
+        const { template, onFilled } = this.pending;
+        this.close();
+        onFilled(fillTemplate(template, values));
+    }
+}
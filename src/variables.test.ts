@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+    findPlaceholders,
+    templateVariables,
+    fillPlaceholders,
+    fillTemplate,
+    initialValues,
+    rememberValues,
+} from "./variables";
+import { type FilterTemplate } from "./panel";
+
+// Wednesday, 21 October 2026 (local time)
+const NOW = new Date(2026, 9, 21, 15, 30);
+
+const TEMPLATE: FilterTemplate = {
+    name: "Launch coverage",
+    query: "{{Product}} launch",
+    filters: [
+        { id: "intitle", value: "{{product}}, {{ event : keynote }}" },
+        { id: "exclude", value: "{{product:Pixel}} leak {{date:-7d}}" },
+        { id: "channel", value: "{{channel}}" },
+    ],
+};
+
+describe("templateVariables", () => {
+    it("lists each variable once, in order, without dates", () => {
+        expect(templateVariables(TEMPLATE)).toEqual([
+            { name: "product", fallback: "" },
+            { name: "event", fallback: "keynote" },
+            { name: "channel", fallback: "" },
+        ]);
+    });
+
+    it("finds placeholders as written", () => {
+        expect(findPlaceholders("a {{x}} b {{date:-1w}}")).toEqual([
+            "{{x}}",
+            "{{date:-1w}}",
+        ]);
+        expect(findPlaceholders("{x} {{}} {{a b}}")).toEqual([]);
+    });
+});
+
+describe("filling", () => {
+    it("resolves dates and leaves unknown offsets as written", () => {
+        expect(fillPlaceholders("{{date}} {{date:-1m}}", {}, NOW)).toBe(
+            "2026-10-21 2026-09-21"
+        );
+        expect(fillPlaceholders("{{date:soon}}", {}, NOW)).toBe("{{date:soon}}");
+    });
+
+    it("fills filters and the query, dropping filters left empty", () => {
+        const filled = fillTemplate(
+            TEMPLATE,
+            { product: "Pixel 10", event: "keynote", channel: "" },
+            NOW
+        );
+        expect(filled.query).toBe("Pixel 10 launch");
+        expect(filled.filters).toEqual([
+            { id: "intitle", value: "Pixel 10, keynote" },
+            { id: "exclude", value: "Pixel 10 leak 2026-10-14" },
+        ]);
+        expect(filled.name).toBe(TEMPLATE.name);
+    });
+});
+
+describe("remembered values", () => {
+    const variables = templateVariables(TEMPLATE);
+
+    it("offer the last value used, else the fallback", () => {
+        expect(initialValues(variables, { product: ["iPhone", "Galaxy"] })).toEqual({
+            product: "iPhone",
+            event: "keynote",
+            channel: "",
+        });
+    });
+
+    it("keep the most recent first, without repeats or blanks", () => {
+        let history = rememberValues({}, { product: "a", channel: " " });
+        for (const value of ["b", "c", "a", "d", "e", "f"]) {
+            history = rememberValues(history, { product: value });
+        }
+        expect(history).toEqual({ product: ["f", "e", "d", "a", "c"] });
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * YouTube Search Plus — Template Variables
+ *
+ * Template filter values (and a saved search's query) can hold
+ * placeholders that are filled in each time the template is applied:
+ *
+ *   {{product}}           prompts for a value (previous values remembered)
+ *   {{product:Pixel 9}}   same, pre-filled with "Pixel 9" the first time
+ *   {{date}}              today, as YYYY-MM-DD — resolves automatically
+ *   {{date:-7d}}          today shifted by -7d / +2w / -1m / -1y
+ *
+ * Names are case-insensitive. Filters left empty once filled are dropped.
+ */
+
+import type { FilterTemplate } from "./panel";
+import { resolveDateOffset } from "./dates";
+
+/** A placeholder the user is asked to fill in. */
+export interface TemplateVariable {
+    /** Lower-cased name */
+    name: string;
+    /** Value offered before anything was remembered */
+    fallback: string;
+}
+
+/** Recently used values per variable name, most recent first. */
+export type VariableHistory = Record<string, string[]>;
+
+const PLACEHOLDER = /\{\{\s*([\p{L}\p{N}_-]+)\s*(?::([^}]*))?\}\}/gu;
+
+/** How many previous values are remembered per variable. */
+const HISTORY_SIZE = 5;
+
+export function hasPlaceholders(text: string): boolean {
+    return new RegExp(PLACEHOLDER.source, "u").test(text);
+}
+
+/** Every placeholder in the text, e.g. `{{product}}`, in order. */
+export function findPlaceholders(text: string): string[] {
+    return [...text.matchAll(PLACEHOLDER)].map((m) => m[0]);
+}
+
+/** Texts of a template that may hold placeholders. */
+function templateTexts(template: FilterTemplate): string[] {
+    return [...template.filters.map((f) => f.value), template.query || ""];
+}
+
+/** The variables to prompt for, in order of first use (dates excluded). */
+export function templateVariables(template: FilterTemplate): TemplateVariable[] {
+    const variables: TemplateVariable[] = [];
+    for (const text of templateTexts(template)) {
+        for (const m of text.matchAll(PLACEHOLDER)) {
+            const name = m[1].toLowerCase();
+            if (name === "date" || variables.some((v) => v.name === name)) continue;
+            variables.push({ name, fallback: (m[2] || "").trim() });
+        }
+    }
+    return variables;
+}
+
+/**
+ * Replace placeholders in one text. Prompted names missing from `values`
+ * become empty; a date with an unrecognised offset is left as written.
+ */
+export function fillPlaceholders(
+    text: string,
+    values: Record<string, string>,
+    now: Date = new Date()
+): string {
+    return text.replace(PLACEHOLDER, (whole, name: string, arg?: string) => {
+        const key = name.toLowerCase();
+        if (key === "date") return resolveDateOffset(arg || "", now) ?? whole;
+        return values[key] ?? "";
+    });
+}
+
+/** The template with every placeholder filled. */
+export function fillTemplate(
+    template: FilterTemplate,
+    values: Record<string, string>,
+    now: Date = new Date()
+): FilterTemplate {
+    const filters = template.filters
+        .map((f) => ({ ...f, value: fillPlaceholders(f.value, values, now).trim() }))
+        .filter((f) => f.value);
+    const query = template.query
+        ? fillPlaceholders(template.query, values, now).trim()
+        : template.query;
+    return { ...template, filters, query };
+}
+
+// ─── Remembered values ───────────────────────────────────────────────
+
+/** The value to offer for each variable: the last one used, else its fallback. */
+export function initialValues(
+    variables: TemplateVariable[],
+    history: VariableHistory
+): Record<string, string> {
+    return Object.fromEntries(
+        variables.map((v) => [v.name, history[v.name]?.[0] ?? v.fallback])
+    );
+}
+
+/** Add the values just used to the front of each variable's history. */
+export function rememberValues(
+    history: VariableHistory,
+    values: Record<string, string>
+): VariableHistory {
+    const next = { ...history };
+    for (const [name, value] of Object.entries(values)) {
+        if (!value.trim()) continue;
+        next[name] = [value, ...(next[name] || []).filter((v) => v !== value)].slice(
+            0,
+            HISTORY_SIZE
+        );
+    }
+    return next;
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { buildWorkbook, resultsWorkbook, columnName, excelDate } from "./xlsx";
+import { type VideoResult } from "./scrape";
+
+/** Entries are stored uncompressed, so the XML can be read off the bytes. */
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+const NOW = new Date(2026, 9, 21, 15, 30);
+
+describe("cell addressing", () => {
+    it("names columns like a spreadsheet", () => {
+        expect([0, 25, 26, 51, 701, 702].map(columnName)).toEqual([
+            "A",
+            "Z",
+            "AA",
+            "AZ",
+            "ZZ",
+            "AAA",
+        ]);
+    });
+
+    it("converts local dates to serial days", () => {
+        expect(excelDate(new Date(1970, 0, 1))).toBe(25569);
+        expect(excelDate(new Date(2026, 9, 21, 12))).toBe(46316.5);
+    });
+});
+
+describe("buildWorkbook", () => {
+    const workbook = text(
+        buildWorkbook([
+            {
+                name: "Data",
+                header: true,
+                rows: [
+                    ["Name", "Link", "Count"],
+                    ["a < b & c", { link: "https://example.com/?a=1&b=2" }, 42, true],
+                ],
+            },
+        ])
+    );
+
+    it("writes the package parts", () => {
+        for (const part of [
+            "[Content_Types].xml",
+            "_rels/.rels",
+            "xl/workbook.xml",
+            "xl/styles.xml",
+            "xl/worksheets/sheet1.xml",
+            "xl/worksheets/_rels/sheet1.xml.rels",
+        ]) {
+            expect(workbook).toContain(part);
+        }
+    });
+
+    it("escapes text and types cells", () => {
+        expect(workbook).toContain("<t xml:space=\"preserve\">a &lt; b &amp; c</t>");
+        expect(workbook).toContain('<c r="C2" s="5"><v>42</v></c>');
+        expect(workbook).toContain('<c r="D2" t="b"><v>1</v></c>');
+        expect(workbook).toContain('<hyperlink ref="B2" r:id="rId1"/>');
+        expect(workbook).toContain('Target="https://example.com/?a=1&amp;b=2"');
+    });
+
+    it("freezes and filters the header row", () => {
+        expect(workbook).toContain('state="frozen"');
+        expect(workbook).toContain('<autoFilter ref="A1:D2"/>');
+        expect(workbook).toContain("'Data'!$A$1:$D$2");
+    });
+});
+
+describe("resultsWorkbook", () => {
+    const result: VideoResult = {
+        title: "Pixel 10 review",
+        url: "https://www.youtube.com/watch?v=aaaaaaaaaaa",
+        channel: "MKBHD",
+        views: "1.2M views",
+        published: "2 days ago",
+        duration: "12:34",
+        viewCount: 1200000,
+        uploadDate: "2026-10-19",
+        durationSeconds: 754,
+    };
+    const workbook = text(
+        resultsWorkbook(
+            [result, { ...result, views: "Premieres soon", viewCount: null }],
+            [
+                { key: "views", label: "Views" },
+                { key: "viewCount", label: "View Count" },
+                { key: "uploadDate", label: "Upload Date" },
+                { key: "durationSeconds", label: "Duration (s)" },
+            ],
+            {
+                query: "pixel 10",
+                sp: null,
+                channel: null,
+                exportedAt: NOW,
+                extensionVersion: "1.1.1",
+            },
+            ["In title: review"]
+        )
+    );
+
+    it("writes normalized columns as numbers and dates, text as shown", () => {
+        expect(workbook).toContain("1.2M views");
+        expect(workbook).toContain('<c r="B2" s="5"><v>1200000</v></c>');
+        expect(workbook).toContain(
+            `<c r="C2" s="2"><v>${excelDate(new Date(2026, 9, 19))}</v></c>`
+        );
+        expect(workbook).toContain('<c r="D2" s="5"><v>754</v></c>');
+        expect(workbook).not.toContain('<c r="B3" s="5">');
+    });
+
+    it("adds a search sheet", () => {
+        expect(workbook).toContain('<sheet name="Search" sheetId="2" r:id="rId2"/>');
+        expect(workbook).toContain("In title: review");
+    });
+});
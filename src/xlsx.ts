@@ -0,0 +1,352 @@
+/**
+ * YouTube Search Plus — XLSX Workbooks
+ *
+ * Writes Office Open XML spreadsheets without a spreadsheet library:
+ * each sheet is generated as XML (inline strings, no shared string
+ * table) and packaged with zip.ts. Supports what the results export
+ * needs — numbers, dates, hyperlinks, a bold frozen header row with an
+ * autofilter, and column widths.
+ *
+ * The results workbook has a "Results" sheet with the selected columns —
+ * normalized view counts and durations as numbers, upload dates as date
+ * cells, URLs as links, and text as YouTube shows it — and a "Search"
+ * sheet with the query, filters and export details.
+ */
+
+import { zipFiles } from "./zip";
+import type { VideoResult } from "./scrape";
+import type { ExportSource } from "./jsonexport";
+
+/**
+ * A cell: text, a number, true/false, a date (with or without the time
+ * of day), a hyperlink, or empty.
+ */
+export type XlsxCell =
+    | string
+    | number
+    | boolean
+    | null
+    | { date: Date; time?: boolean }
+    | { link: string; text?: string };
+
+export interface XlsxSheet {
+    /** Up to 31 characters, no []:*?/\ */
+    name: string;
+    rows: XlsxCell[][];
+    /** Column widths in characters */
+    widths?: number[];
+    /** First row is a header: bold, frozen and filterable */
+    header?: boolean;
+}
+
+export const XLSX_MIME =
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// Indexes into cellXfs in STYLES
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+const STYLE_DATE_TIME = 3;
+const STYLE_LINK = 4;
+const STYLE_INTEGER = 5;
+
+const NS_MAIN = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const NS_REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const NS_PKG_REL = "http://schemas.openxmlformats.org/package/2006/relationships";
+const REL_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const STYLES = `${XML_HEADER}<styleSheet xmlns="${NS_MAIN}">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>
+<fonts count="3"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font><font><u/><sz val="11"/><color rgb="FF0563C1"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="6"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+// ─── XML helpers ─────────────────────────────────────────────────────
+
+function escapeXML(text: string): string {
+    return (
+        text
+            // Control characters aren't allowed in XML 1.0
+            .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+    );
+}
+
+/** Column letters for a 0-based index: 0 → A, 26 → AA. */
+export function columnName(index: number): string {
+    let name = "";
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+}
+
+/** Excel serial date for a local date and time (days since 1899-12-30). */
+export function excelDate(d: Date): number {
+    const utc = Date.UTC(
+        d.getFullYear(),
+        d.getMonth(),
+        d.getDate(),
+        d.getHours(),
+        d.getMinutes(),
+        d.getSeconds()
+    );
+    return utc / 86400000 + 25569;
+}
+
+function inlineString(ref: string, text: string, style = 0): string {
+    const s = style ? ` s="${style}"` : "";
+    return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXML(
+        text
+    )}</t></is></c>`;
+}
+
+// ─── Sheets ──────────────────────────────────────────────────────────
+
+/** Last cell of the sheet's used range, e.g. "F51". */
+function lastCell(sheet: XlsxSheet): string {
+    const width = Math.max(1, ...sheet.rows.map((r) => r.length));
+    return `${columnName(width - 1)}${Math.max(1, sheet.rows.length)}`;
+}
+
+/** Worksheet XML and the hyperlink targets it refers to (rId1, rId2, …). */
+function sheetXML(sheet: XlsxSheet): { xml: string; links: string[] } {
+    const links: string[] = [];
+    const hyperlinks: string[] = [];
+
+    const rows = sheet.rows.map((row, r) => {
+        const cells = row.map((cell, c) => {
+            const ref = `${columnName(c)}${r + 1}`;
+            if (cell === null || cell === "") return "";
+            if (sheet.header && r === 0) {
+                return inlineString(ref, String(cell), STYLE_HEADER);
+            }
+            if (typeof cell === "string") return inlineString(ref, cell);
+            if (typeof cell === "boolean") {
+                return `<c r="${ref}" t="b"><v>${cell ? 1 : 0}</v></c>`;
+            }
+            if (typeof cell === "number") {
+                if (!isFinite(cell)) return "";
+                const style = Number.isInteger(cell) ? ` s="${STYLE_INTEGER}"` : "";
+                return `<c r="${ref}"${style}><v>${cell}</v></c>`;
+            }
+            if ("date" in cell) {
+                const style = cell.time ? STYLE_DATE_TIME : STYLE_DATE;
+                return `<c r="${ref}" s="${style}"><v>${excelDate(cell.date)}</v></c>`;
+            }
+            links.push(cell.link);
+            hyperlinks.push(`<hyperlink ref="${ref}" r:id="rId${links.length}"/>`);
+            return inlineString(ref, cell.text ?? cell.link, STYLE_LINK);
+        });
+        return `<row r="${r + 1}">${cells.join("")}</row>`;
+    });
+
+    const lastRef = lastCell(sheet);
+    const parts = [
+        `<dimension ref="A1:${lastRef}"/>`,
+        sheet.header
+            ? `<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>`
+            : `<sheetViews><sheetView workbookViewId="0"/></sheetViews>`,
+        sheet.widths?.length
+            ? `<cols>${sheet.widths
+                  .map(
+                      (w, i) =>
+                          `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`
+                  )
+                  .join("")}</cols>`
+            : "",
+        `<sheetData>${rows.join("")}</sheetData>`,
+        sheet.header ? `<autoFilter ref="A1:${lastRef}"/>` : "",
+        hyperlinks.length ? `<hyperlinks>${hyperlinks.join("")}</hyperlinks>` : "",
+    ];
+
+    return {
+        xml: `${XML_HEADER}<worksheet xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">${parts.join(
+            ""
+        )}</worksheet>`,
+        links,
+    };
+}
+
+interface Relationship {
+    id: string;
+    /** Relationship type, e.g. "worksheet" or "hyperlink" */
+    type: string;
+    target: string;
+    external?: boolean;
+}
+
+function relationships(rels: Relationship[]): string {
+    return `${XML_HEADER}<Relationships xmlns="${NS_PKG_REL}">${rels
+        .map(
+            (r) =>
+                `<Relationship Id="${r.id}" Type="${REL_TYPE}/${r.type}" Target="${escapeXML(
+                    r.target
+                )}"${r.external ? ' TargetMode="External"' : ""}/>`
+        )
+        .join("")}</Relationships>`;
+}
+
+// ─── Workbook ────────────────────────────────────────────────────────
+
+/** The .xlsx file for the sheets, in order. */
+export function buildWorkbook(
+    sheets: XlsxSheet[],
+    now: Date = new Date()
+): Uint8Array<ArrayBuffer> {
+    const files: { name: string; data: string }[] = [];
+    const overrides: string[] = [];
+
+    sheets.forEach((sheet, i) => {
+        const path = `xl/worksheets/sheet${i + 1}.xml`;
+        const { xml, links } = sheetXML(sheet);
+        files.push({ name: path, data: xml });
+        overrides.push(
+            `<Override PartName="/${path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        );
+        if (links.length) {
+            files.push({
+                name: `xl/worksheets/_rels/sheet${i + 1}.xml.rels`,
+                data: relationships(
+                    links.map((target, j) => ({
+                        id: `rId${j + 1}`,
+                        type: "hyperlink",
+                        target,
+                        external: true,
+                    }))
+                ),
+            });
+        }
+    });
+
+    // The autofilter range must also be defined as a hidden name
+    const definedNames = sheets
+        .map((sheet, i) => {
+            if (!sheet.header) return "";
+            const [, col, row] = lastCell(sheet).match(/^([A-Z]+)(\d+)$/)!;
+            const range = `'${sheet.name.replace(/'/g, "''")}'!$A$1:$${col}$${row}`;
+            return `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">${escapeXML(
+                range
+            )}</definedName>`;
+        })
+        .join("");
+
+    const workbook = `${XML_HEADER}<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}"><sheets>${sheets
+        .map(
+            (sheet, i) =>
+                `<sheet name="${escapeXML(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`
+        )
+        .join("")}</sheets>${
+        definedNames ? `<definedNames>${definedNames}</definedNames>` : ""
+    }</workbook>`;
+
+    const contentTypes = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${overrides.join(
+        ""
+    )}</Types>`;
+
+    return zipFiles(
+        [
+            { name: "[Content_Types].xml", data: contentTypes },
+            {
+                name: "_rels/.rels",
+                data: relationships([
+                    { id: "rId1", type: "officeDocument", target: "xl/workbook.xml" },
+                ]),
+            },
+            { name: "xl/workbook.xml", data: workbook },
+            {
+                name: "xl/_rels/workbook.xml.rels",
+                data: relationships([
+                    ...sheets.map((_, i) => ({
+                        id: `rId${i + 1}`,
+                        type: "worksheet",
+                        target: `worksheets/sheet${i + 1}.xml`,
+                    })),
+                    { id: `rId${sheets.length + 1}`, type: "styles", target: "styles.xml" },
+                ]),
+            },
+            { name: "xl/styles.xml", data: STYLES },
+            ...files,
+        ],
+        now
+    );
+}
+
+// ─── Results workbook ────────────────────────────────────────────────
+
+const COLUMN_WIDTHS: Partial<Record<keyof VideoResult, number>> = {
+    title: 60,
+    url: 45,
+    channel: 24,
+    channelUrl: 45,
+    thumbnail: 45,
+    description: 60,
+    sourceChannel: 24,
+};
+
+const URL_FIELDS = new Set<keyof VideoResult>(["url", "channelUrl", "thumbnail"]);
+
+/** Local date for YYYY-MM-DD. */
+function localDate(iso: string): Date {
+    const [y, m, d] = iso.split("-").map(Number);
+    return new Date(y, m - 1, d);
+}
+
+/** A result field as a cell: URLs link, normalized dates are date cells. */
+function resultCell(result: VideoResult, key: keyof VideoResult): XlsxCell {
+    const value = result[key];
+    if (value === undefined || value === null || value === "") return null;
+    if (typeof value === "number" || typeof value === "boolean") return value;
+    if (Array.isArray(value)) return value.join(", ");
+    if (URL_FIELDS.has(key)) return { link: value };
+    if (key.startsWith("uploadDate")) return { date: localDate(value) };
+    return value;
+}
+
+/**
+ * Workbook for exported results: a "Results" sheet with the selected
+ * columns and a "Search" sheet describing where they came from.
+ * `filters` are the active filters as "Label: value".
+ */
+export function resultsWorkbook(
+    results: VideoResult[],
+    columns: { key: keyof VideoResult; label: string }[],
+    source: ExportSource,
+    filters: string[]
+): Uint8Array<ArrayBuffer> {
+    const now = source.exportedAt;
+    const resultsSheet: XlsxSheet = {
+        name: "Results",
+        header: true,
+        widths: columns.map((c) => COLUMN_WIDTHS[c.key] ?? 16),
+        rows: [
+            columns.map((c) => c.label),
+            ...results.map((r) => columns.map((c) => resultCell(r, c.key))),
+        ],
+    };
+
+    const searchSheet: XlsxSheet = {
+        name: "Search",
+        header: true,
+        widths: [18, 60],
+        rows: [
+            ["Setting", "Value"],
+            ["Query", source.query],
+            ...filters.map((f): XlsxCell[] => ["Filter", f]),
+            ...(source.sp ? [["sp= parameter", source.sp]] : []),
+            ...(source.channel ? [["Channel page", source.channel]] : []),
+            ["Results", results.length],
+            ["Exported", { date: now, time: true }],
+            ["Extension version", source.extensionVersion],
+        ],
+    };
+
+    return buildWorkbook([resultsSheet, searchSheet], now);
+}
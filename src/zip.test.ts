@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { crc32, zipFiles } from "./zip";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Read back a stored (uncompressed) archive via its central directory. */
+function unzip(bytes: Uint8Array): Record<string, string> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    const count = view.getUint16(end + 10, true);
+    let pos = view.getUint32(end + 16, true);
+
+    const files: Record<string, string> = {};
+    for (let i = 0; i < count; i++) {
+        expect(view.getUint32(pos, true)).toBe(0x02014b50);
+        const size = view.getUint32(pos + 24, true);
+        const nameLength = view.getUint16(pos + 28, true);
+        const offset = view.getUint32(pos + 42, true);
+        const name = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+
+        expect(view.getUint32(offset, true)).toBe(0x04034b50);
+        const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+        const data = bytes.subarray(dataStart, dataStart + size);
+        expect(crc32(data)).toBe(view.getUint32(pos + 16, true));
+        files[name] = decoder.decode(data);
+        pos += 46 + nameLength;
+    }
+    return files;
+}
+
+describe("crc32", () => {
+    it("matches the standard check value", () => {
+        expect(crc32(encoder.encode("123456789"))).toBe(0xcbf43926);
+        expect(crc32(new Uint8Array())).toBe(0);
+    });
+});
+
+describe("zipFiles", () => {
+    it("stores entries that read back unchanged", () => {
+        const archive = zipFiles([
+            { name: "a.txt", data: "hello" },
+            { name: "dir/café.xml", data: encoder.encode("<x>ü</x>") },
+        ]);
+        expect(unzip(archive)).toEqual({
+            "a.txt": "hello",
+            "dir/café.xml": "<x>ü</x>",
+        });
+    });
+
+    it("writes an empty archive", () => {
+        expect(unzip(zipFiles([]))).toEqual({});
+    });
+});
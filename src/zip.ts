@@ -0,0 +1,122 @@
+/**
+ * YouTube Search Plus — ZIP Writer
+ *
+ * Just enough of the ZIP format to package an XLSX workbook (see
+ * xlsx.ts): files are stored uncompressed, names are UTF-8, no
+ * encryption or ZIP64. Exports are far below the 4 GB limit.
+ */
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array | string;
+}
+
+const encoder = new TextEncoder();
+
+// ─── CRC-32 ──────────────────────────────────────────────────────────
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ─── Archive ─────────────────────────────────────────────────────────
+
+/** MS-DOS date and time fields (local time, 2-second resolution). */
+function dosDateTime(d: Date): { date: number; time: number } {
+    const year = Math.max(1980, d.getFullYear());
+    return {
+        date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+        time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    };
+}
+
+/** A ZIP archive holding the entries, uncompressed, in order. */
+export function zipFiles(
+    entries: ZipEntry[],
+    modified: Date = new Date()
+): Uint8Array<ArrayBuffer> {
+    const { date, time } = dosDateTime(modified);
+    const files = entries.map((entry) => {
+        const data =
+            typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+        return { name: encoder.encode(entry.name), data, crc: crc32(data) };
+    });
+
+    const localSize = files.reduce((n, f) => n + 30 + f.name.length + f.data.length, 0);
+    const centralSize = files.reduce((n, f) => n + 46 + f.name.length, 0);
+    const out = new Uint8Array(localSize + centralSize + 22);
+    const view = new DataView(out.buffer);
+    let pos = 0;
+    const u16 = (v: number) => {
+        view.setUint16(pos, v, true);
+        pos += 2;
+    };
+    const u32 = (v: number) => {
+        view.setUint32(pos, v, true);
+        pos += 4;
+    };
+    const bytes = (b: Uint8Array) => {
+        out.set(b, pos);
+        pos += b.length;
+    };
+
+    // Version 2.0, UTF-8 names (bit 11), stored, with the entry's sizes
+    const common = (f: (typeof files)[number]) => {
+        u16(20);
+        u16(0x0800);
+        u16(0);
+        u16(time);
+        u16(date);
+        u32(f.crc);
+        u32(f.data.length);
+        u32(f.data.length);
+        u16(f.name.length);
+        u16(0);
+    };
+
+    const offsets: number[] = [];
+    for (const f of files) {
+        offsets.push(pos);
+        u32(0x04034b50);
+        common(f);
+        bytes(f.name);
+        bytes(f.data);
+    }
+
+    const centralStart = pos;
+    files.forEach((f, i) => {
+        u32(0x02014b50);
+        u16(20);
+        common(f);
+        u16(0); // comment length
+        u16(0); // disk number
+        u16(0); // internal attributes
+        u32(0); // external attributes
+        u32(offsets[i]);
+        bytes(f.name);
+    });
+
+    // End of central directory
+    const centralLength = pos - centralStart;
+    u32(0x06054b50);
+    u16(0);
+    u16(0);
+    u16(files.length);
+    u16(files.length);
+    u32(centralLength);
+    u32(centralStart);
+    u16(0); // comment length
+    return out;
+}